@@ -1,62 +1,106 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { User, Role, TimeEntry, TimeEntryType } from './types';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { User, Role, TimeEntry, TimeEntryType, ShiftPattern, HolidayCalendar, HourBankAdjustment, HourBankClosing, EmployerInfo, TimesheetAcknowledgment, AcknowledgmentStatus, CorrectionRequest, CorrectionRequestStatus, CorrectionRequestType, PunchAdjustment, PunchAdjustmentType, WorkSite, PunchReceipt, AuditLog, AppConfig } from './types';
+import { ShiftPatternDraft } from './components/ShiftPatterns';
+import { HourBankAdjustmentDraft } from './components/HourBank';
+import { CorrectionRequestDraft } from './components/CorrectionRequestModal';
+import { PunchAdjustmentDraft } from './components/TimeReport';
+import { WorkSiteDraft } from './components/WorkSiteSettings';
+import { getUserSites } from './utils/geo';
+import { DEFAULT_MAX_CLOCK_SKEW_MINUTES, LIVE_SYNC_WINDOW_MS, OFFLINE_PUNCH_MAX_AGE_DAYS, isSkewExceeded, toServerTime } from './utils/clock';
+import { applyPunchAdjustments, LoadedTimeEntries } from './utils/punchAdjustments';
+import { PendingPunch, enqueuePunch, getPendingPunches, removePendingPunch } from './utils/offlineQueue';
+import { DEFAULT_HOLIDAY_CALENDAR } from './utils/holidays';
+import { parseDateKey, addDays, addMonths, formatDateKey, getMonthRange } from './utils/date';
+import { DEFAULT_HOUR_BANK_EXPIRY_MONTHS, closeHourBankMonth, getClosingRange, getLedgerStart } from './utils/hourBank';
+import { DateRange } from './utils/workday';
+import { AuditChainReport, verifyAuditChain } from './utils/audit';
+import { DEFAULT_EMPLOYER_INFO, sha256Hex } from './utils/portaria671';
+import { buildPunchRecord, buildLegacyPunchChain } from './utils/afd';
+import { onlyDigits, isValidCpf } from './utils/documents';
+import { isSameUsername } from './utils/username';
 import Login from './components/Login';
 import EmployeeDashboard from './components/EmployeeDashboard';
 import AdminDashboard from './components/AdminDashboard';
 import Header from './components/Header';
-import { auth, db } from './firebase';
-import { 
-  User as FirebaseAuthUser,
-  onAuthStateChanged, 
-  signInWithEmailAndPassword, 
-  signOut,
-  createUserWithEmailAndPassword,
-  setPersistence,
-  browserLocalPersistence,
-  browserSessionPersistence,
-  sendPasswordResetEmail,
-  EmailAuthProvider,
-  reauthenticateWithCredential,
-  updatePassword
-} from 'firebase/auth';
-import { 
-  collection, 
-  onSnapshot, 
-  addDoc, 
-  updateDoc, 
-  doc,
-  getDocs,
-  getDoc,
-  setDoc,
-  query,
-  where,
-  Timestamp,
-  writeBatch,
-  deleteDoc,
-  DocumentSnapshot,
-  DocumentData,
-} from 'firebase/firestore';
-
-
-export interface AppConfig {
-  latitude: number;
-  longitude: number;
-  radius: number;
-  workdayHours: number;
-}
+import { useRepositories } from './data/RepositoryContext';
+import { AuthSession, NewHourBankClosing } from './data/repositories';
+
+
+const CLOCK_CHECK_INTERVAL_MS = 10 * 60 * 1000;
 
+// First workday a change to these punches may affect: an overnight shift belongs to the day before
+const earliestWorkday = (...timestamps: (Date | undefined)[]) => {
+    const times = timestamps.filter((t): t is Date => !!t).map(t => t.getTime());
+    return addDays(formatDateKey(new Date(Math.min(...times))), -1);
+};
 
 function App() {
+  const repositories = useRepositories();
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [authLoading, setAuthLoading] = useState(true);
   const [users, setUsers] = useState<User[]>([]);
-  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
+  const [currentTimeEntries, setCurrentTimeEntries] = useState<TimeEntry[]>([]);
+  const [periodTimeEntries, setPeriodTimeEntries] = useState<TimeEntry[]>([]);
+  const [ledgerTimeEntries, setLedgerTimeEntries] = useState<TimeEntry[]>([]);
+  const ledgerLoadRef = useRef<{ userId: string; from: string; before: string } | null>(null);
+  // Period shown by the dashboard (startDate '' for the whole history); starts on the current month
+  const [visiblePeriod, setVisiblePeriod] = useState<DateRange>(() => getMonthRange(formatDateKey(new Date()).slice(0, 7)));
+  const [shiftPatterns, setShiftPatterns] = useState<ShiftPattern[]>([]);
   const [appConfig, setAppConfig] = useState<AppConfig>({
     latitude: -20.85411,
     longitude: -49.34039,
     radius: 10,
     workdayHours: 8,
   });
+  const [holidayCalendar, setHolidayCalendar] = useState<HolidayCalendar>(DEFAULT_HOLIDAY_CALENDAR);
+  const [employerInfo, setEmployerInfo] = useState<EmployerInfo>(DEFAULT_EMPLOYER_INFO);
+  const [hourBankAdjustments, setHourBankAdjustments] = useState<HourBankAdjustment[]>([]);
+  const [hourBankClosings, setHourBankClosings] = useState<HourBankClosing[]>([]);
+  const [hourBankClosingsLoaded, setHourBankClosingsLoaded] = useState(false);
+  const [timesheetAcknowledgments, setTimesheetAcknowledgments] = useState<TimesheetAcknowledgment[]>([]);
+  const [correctionRequests, setCorrectionRequests] = useState<CorrectionRequest[]>([]);
+  const [punchAdjustments, setPunchAdjustments] = useState<PunchAdjustment[]>([]);
+  const [pendingPunches, setPendingPunches] = useState<PendingPunch[]>([]);
+  const [punchReceipts, setPunchReceipts] = useState<PunchReceipt[]>([]);
+  const [workSites, setWorkSites] = useState<WorkSite[]>([]);
+  const [clockSkewMs, setClockSkewMs] = useState<number | undefined>(undefined);
+  const isSyncingRef = useRef(false);
+
+  // The visible period is listened to from the day before it (a workday may start there) through the
+  // day after it (an overnight shift of its last day). The current workday has a listener of its own.
+  const periodWindow = useMemo(() => ({
+    from: visiblePeriod.startDate ? addDays(visiblePeriod.startDate, -1) : '',
+    before: addDays(visiblePeriod.endDate, 2),
+  }), [visiblePeriod]);
+  // Hour-bank ledgers continue from each employee's latest closing before the period, so only the
+  // punches since the earliest of those closings are read, once (see getLedgerStart)
+  const ledgerStart = useMemo(() => {
+    if (!currentUser || !hourBankClosingsLoaded || !periodWindow.from) return null;
+    const isAdmin = currentUser.role === Role.ADMIN;
+    return users
+        .filter(user => isAdmin ? user.role === Role.EMPLOYEE : user.id === currentUser.id)
+        .map(user => getLedgerStart(hourBankClosings, user, visiblePeriod.startDate))
+        .reduce((earliest, start) => start < earliest ? start : earliest, periodWindow.from);
+  }, [currentUser, users, hourBankClosings, hourBankClosingsLoaded, visiblePeriod.startDate, periodWindow.from]);
+  // Live copies win where the reads overlap
+  const timeEntries = useMemo(() => {
+    const entriesById = new Map(ledgerTimeEntries.map(entry => [entry.id, entry]));
+    periodTimeEntries.forEach(entry => entriesById.set(entry.id, entry));
+    currentTimeEntries.forEach(entry => entriesById.set(entry.id, entry));
+    return Array.from(entriesById.values());
+  }, [ledgerTimeEntries, periodTimeEntries, currentTimeEntries]);
+
+  const treatedTimeEntries = useMemo(() => applyPunchAdjustments(timeEntries, punchAdjustments), [timeEntries, punchAdjustments]);
+  // The users listener keeps the profile current without a new login (site assignments, schedule,
+  // vacation), so the employee sees and acknowledges the same espelho the admins do
+  const currentUserProfile = useMemo(() => {
+    if (!currentUser) return null;
+    return users.find(u => u.id === currentUser.id) ?? currentUser;
+  }, [currentUser, users]);
+  const currentUserSites = useMemo(() => {
+    if (!currentUserProfile) return [];
+    return getUserSites(currentUserProfile, workSites);
+  }, [currentUserProfile, workSites]);
   const [deferredPrompt, setDeferredPrompt] = useState<any>(null);
 
   useEffect(() => {
@@ -87,7 +131,7 @@ function App() {
         return;
     }
     try {
-        await addDoc(collection(db, "audit_logs"), {
+        await repositories.auditLogs.append({
             timestamp: new Date(),
             actorId: actor.id,
             actorName: actor.name,
@@ -97,11 +141,11 @@ function App() {
     } catch (error) {
         console.error("Failed to log activity:", error);
     }
-  }, []);
+  }, [repositories]);
 
   const logAnonymousActivity = useCallback(async (action: string, details: Record<string, any> = {}) => {
       try {
-          await addDoc(collection(db, "audit_logs"), {
+          await repositories.auditLogs.append({
               timestamp: new Date(),
               actorId: 'anonymous',
               actorName: 'System',
@@ -111,93 +155,51 @@ function App() {
       } catch (error) {
           console.error("Failed to log anonymous activity:", error);
       }
-  }, []);
-
-  const autoFixUserInconsistency = useCallback(async (
-    authUser: FirebaseAuthUser, 
-    userProfileDoc: DocumentSnapshot<DocumentData>
-  ): Promise<User | null> => {
-    const incorrectDocId = userProfileDoc.id;
-    const correctUid = authUser.uid;
-    const userProfileData = userProfileDoc.data();
+  }, [repositories]);
 
-    if (!userProfileData) return null;
-
-    console.warn(`[AUTO-FIXING] Detected data inconsistency for user ${authUser.email}. Starting migration.
-        - Incorrect Firestore ID: ${incorrectDocId}
-        - Correct Auth UID: ${correctUid}`);
+  const autoFixUserInconsistency = useCallback(async (session: AuthSession, profile: User): Promise<User | null> => {
+    console.warn(`[AUTO-FIXING] Detected data inconsistency for user ${session.email}. Starting migration.
+        - Incorrect Firestore ID: ${profile.id}
+        - Correct Auth UID: ${session.uid}`);
 
     try {
-        const batch = writeBatch(db);
-
-        // 1. Create the new user document with the correct UID
-        const newUserDocRef = doc(db, "users", correctUid);
-        batch.set(newUserDocRef, userProfileData);
-
-        // 2. Find and update all time entries associated with the old ID
-        const timeEntriesQuery = query(collection(db, "time_entries"), where("userId", "==", incorrectDocId));
-        const timeEntriesSnapshot = await getDocs(timeEntriesQuery);
-        timeEntriesSnapshot.forEach(entryDoc => {
-            batch.update(entryDoc.ref, { userId: correctUid });
-        });
-        console.log(`[AUTO-FIXING] Migrating ${timeEntriesSnapshot.size} time entries.`);
-
-        // 3. Find and update all audit logs associated with the old ID
-        const auditLogsQuery = query(collection(db, "audit_logs"), where("actorId", "==", incorrectDocId));
-        const auditLogsSnapshot = await getDocs(auditLogsQuery);
-        auditLogsSnapshot.forEach(logDoc => {
-            batch.update(logDoc.ref, { actorId: correctUid });
-        });
-        console.log(`[AUTO-FIXING] Migrating ${auditLogsSnapshot.size} audit logs.`);
-
-        // 4. Delete the old user document
-        const oldUserDocRef = doc(db, "users", incorrectDocId);
-        batch.delete(oldUserDocRef);
-
-        // 5. Commit all changes atomically
-        await batch.commit();
-
-        console.log(`[AUTO-FIXING] Data migration completed successfully for user ${authUser.email}.`);
-
-        // Return the corrected user profile, ensuring the ID is the new, correct UID
-        return { id: correctUid, ...userProfileData } as User;
-
+        // Moves the profile to the Auth UID together with its time entries and audit logs, atomically
+        const correctedUser = await repositories.users.reassignId(profile, session.uid);
+        console.log(`[AUTO-FIXING] Data migration completed successfully for user ${session.email}.`);
+        return correctedUser;
     } catch (error) {
         console.error("[AUTO-FIXING] CRITICAL ERROR during data migration:", error);
         // If migration fails, we can't proceed safely.
         return null;
     }
-  }, []);
+  }, [repositories]);
 
   // Auth state listener
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, async (user) => {
-      if (user && user.email) {
+    const unsubscribe = repositories.auth.onSessionChange(async (session) => {
+      if (session && session.email) {
         // Primary lookup: by UID (correct and efficient)
-        const userDocRef = doc(db, "users", user.uid);
-        const userDocSnap = await getDoc(userDocRef);
+        const profile = await repositories.users.get(session.uid);
 
-        if (userDocSnap.exists()) {
-          setCurrentUser({ id: userDocSnap.id, ...userDocSnap.data() } as User);
+        if (profile) {
+          setCurrentUser(profile);
         } else {
             // Fallback lookup: by email, with auto-fix
-            const usersQuery = query(collection(db, "users"), where("email", "==", user.email));
-            const querySnapshot = await getDocs(usersQuery);
+            const profileByEmail = await repositories.users.findByEmail(session.email);
 
-            if (!querySnapshot.empty) {
-                const userDocFromQuery = querySnapshot.docs[0];
-                const correctedUser = await autoFixUserInconsistency(user, userDocFromQuery);
+            if (profileByEmail) {
+                const correctedUser = await autoFixUserInconsistency(session, profileByEmail);
                 if (correctedUser) {
                     setCurrentUser(correctedUser);
                 } else {
                     console.error("Auto-fix failed during session restoration. Signing out.");
-                    await signOut(auth);
+                    await repositories.auth.signOut();
                     setCurrentUser(null);
                 }
             } else {
                 // User profile truly not found
-                console.error(`User profile not found in Firestore for UID (${user.uid}) or email (${user.email}). Signing out to prevent inconsistent state.`);
-                await signOut(auth);
+                console.error(`User profile not found in Firestore for UID (${session.uid}) or email (${session.email}). Signing out to prevent inconsistent state.`);
+                await repositories.auth.signOut();
                 setCurrentUser(null);
             }
         }
@@ -208,115 +210,176 @@ function App() {
       setAuthLoading(false);
     });
     return () => unsubscribe();
-  }, [autoFixUserInconsistency]);
+  }, [repositories, autoFixUserInconsistency]);
 
-  // Firestore listeners for real-time data
+  // Real-time listeners
   useEffect(() => {
     if (!currentUser) return;
 
-    // Listen to users collection (for Admin)
-    const usersUnsubscribe = onSnapshot(collection(db, "users"), (snapshot) => {
-        const usersData = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as User));
-        setUsers(usersData);
-    });
+    // Employees may only read their own records (see firestore.rules), so their subscriptions pass their id
+    const isAdmin = currentUser.role === Role.ADMIN;
+    const ownerId = isAdmin ? undefined : currentUser.id;
+
+    const unsubscribers = [
+        // Admins see every user; employees only their own profile
+        isAdmin
+            ? repositories.users.subscribeAll(setUsers)
+            : repositories.users.subscribe(currentUser.id, user => setUsers(user ? [user] : [])),
+        // Admin treatment of punches (inclusions, time changes and deactivations)
+        repositories.punchAdjustments.subscribe(ownerId, setPunchAdjustments),
+        // Comprovantes issued for punches
+        repositories.punchReceipts.subscribe(ownerId, setPunchReceipts),
+        // Work sites and their geofences
+        repositories.workSites.subscribe(setWorkSites),
+        // Rotating shift patterns
+        repositories.shiftPatterns.subscribe(setShiftPatterns),
+        // Manual hour-bank credits and debits
+        repositories.hourBank.subscribe(ownerId, setHourBankAdjustments),
+        // Closed hour-bank months, where ledgers continue from
+        repositories.hourBank.subscribeClosings(ownerId, closings => {
+            setHourBankClosings(closings);
+            setHourBankClosingsLoaded(true);
+        }),
+        // Employees' acknowledgments of their monthly espelhos
+        repositories.acknowledgments.subscribe(ownerId, setTimesheetAcknowledgments),
+        // Punch correction requests
+        repositories.correctionRequests.subscribe(ownerId, setCorrectionRequests),
+        repositories.config.subscribeAppConfig(config => {
+            if (config) {
+                setAppConfig(config);
+            }
+        }),
+        // The holiday calendar and the employer identification used in the AFD/AEJ files
+        repositories.config.subscribeHolidayCalendar(calendar => setHolidayCalendar({ ...DEFAULT_HOLIDAY_CALENDAR, ...calendar })),
+        repositories.config.subscribeEmployerInfo(employer => setEmployerInfo({ ...DEFAULT_EMPLOYER_INFO, ...employer })),
+    ];
 
-    // Listen to time entries collection
-    const timeEntriesUnsubscribe = onSnapshot(collection(db, "time_entries"), (snapshot) => {
-        const entriesData = snapshot.docs.map(doc => {
-            const data = doc.data();
-            return {
-                id: doc.id,
-                ...data,
-                timestamp: (data.timestamp as Timestamp).toDate(),
-            } as TimeEntry;
-        });
-        setTimeEntries(entriesData);
-    });
+    return () => {
+        unsubscribers.forEach(unsubscribe => unsubscribe());
+        setHourBankClosingsLoaded(false);
+    };
+  }, [repositories, currentUser]);
 
-    // Listen to config
-    const configUnsubscribe = onSnapshot(doc(db, "config", "main"), (doc) => {
-        if (doc.exists()) {
-            setAppConfig(doc.data() as AppConfig);
-        }
-    });
+  useEffect(() => {
+    if (!currentUser) return;
+    const ownerId = currentUser.role === Role.ADMIN ? undefined : currentUser.id;
+    return repositories.timeEntries.subscribe(ownerId, {
+        from: periodWindow.from ? parseDateKey(periodWindow.from) : undefined,
+        before: parseDateKey(periodWindow.before),
+    }, setPeriodTimeEntries);
+  }, [repositories, currentUser, periodWindow.from, periodWindow.before]);
+
+  // Since yesterday, for a shift started then, whatever period is on screen
+  useEffect(() => {
+    if (!currentUser) return;
+    const ownerId = currentUser.role === Role.ADMIN ? undefined : currentUser.id;
+    return repositories.timeEntries.subscribe(ownerId, { from: parseDateKey(addDays(formatDateKey(new Date()), -1)) }, setCurrentTimeEntries);
+  }, [repositories, currentUser]);
 
+  // Punches between the ledger start and the period are read instead of listened to: after syncing
+  // only their observation can change. A read covering the new range is kept.
+  useEffect(() => {
+    if (!currentUser) return;
     return () => {
-        usersUnsubscribe();
-        timeEntriesUnsubscribe();
-        configUnsubscribe();
+        ledgerLoadRef.current = null;
+        setLedgerTimeEntries([]);
     };
   }, [currentUser]);
 
+  useEffect(() => {
+    if (!currentUser || ledgerStart === null || ledgerStart >= periodWindow.from) return;
+    const previousLoad = ledgerLoadRef.current;
+    if (previousLoad && previousLoad.from <= ledgerStart && previousLoad.before >= periodWindow.from) return;
+    const load = { userId: currentUser.id, from: ledgerStart, before: periodWindow.from };
+    ledgerLoadRef.current = load;
+    const ownerId = currentUser.role === Role.ADMIN ? undefined : currentUser.id;
+    repositories.timeEntries.list(ownerId, {
+        from: load.from ? parseDateKey(load.from) : undefined,
+        before: parseDateKey(load.before),
+    }).then(entries => {
+        // Results of a previous session or range are dropped
+        if (ledgerLoadRef.current === load) setLedgerTimeEntries(entries);
+    }).catch(error => {
+        console.error("Error loading hour-bank time entries:", error);
+        if (ledgerLoadRef.current === load) {
+            ledgerLoadRef.current = previousLoad;
+        }
+    });
+  }, [repositories, currentUser, ledgerStart, periodWindow.from]);
+
+  // Punches outside the listened window, read on demand (espelhos of other months, file exports)
+  const handleLoadTimeEntries = useCallback(async (range: DateRange, userId?: string): Promise<LoadedTimeEntries> => {
+    if (!currentUser) return { originals: [], treated: [] };
+    const ownerId = currentUser.role === Role.ADMIN ? userId : currentUser.id;
+    const originals = await repositories.timeEntries.list(ownerId, {
+        from: range.startDate ? parseDateKey(range.startDate) : undefined,
+        before: parseDateKey(addDays(range.endDate, 1)),
+    });
+    const adjustments = ownerId ? punchAdjustments.filter(a => a.userId === ownerId) : punchAdjustments;
+    return { originals, treated: applyPunchAdjustments(originals, adjustments) };
+  }, [repositories, currentUser, punchAdjustments]);
+
+  const handleVisiblePeriodChange = useCallback((range: DateRange) => {
+    setVisiblePeriod(previous => previous.startDate === range.startDate && previous.endDate === range.endDate ? previous : range);
+  }, []);
+
 
   const handleLogin = useCallback(async (nameOrEmail: string, password: string, rememberMe: boolean): Promise<{success: boolean; error?: string}> => {
     try {
-        // 1. Set persistence FIRST. This is the most reliable way to ensure the setting is applied for the sign-in attempt.
-        const persistence = rememberMe ? browserLocalPersistence : browserSessionPersistence;
-        await setPersistence(auth, persistence);
-        
-        // 2. Determine the email to use for login.
-        let email: string;
-        const usersRef = collection(db, "users");
-        const querySnapshot = await getDocs(usersRef);
-        const foundUser = querySnapshot.docs.find(doc => doc.data().name.toLowerCase() === nameOrEmail.toLowerCase());
-
-        if (foundUser) {
-            email = foundUser.data().email;
-        } else {
-            email = nameOrEmail;
+        // 1. Determine the email to use for login.
+        // Names are resolved through the username lookup, reading only the entry of this name; when
+        // none matches, the identifier is used as the e-mail.
+        let email = nameOrEmail;
+        if (!nameOrEmail.includes('@')) {
+            try {
+                email = await repositories.users.findEmailByUsername(nameOrEmail) ?? nameOrEmail;
+            } catch (error) {
+                console.warn("Username lookup unavailable, using the identifier as e-mail:", error);
+            }
         }
       
-        // 3. Attempt to sign in
-        const userCredential = await signInWithEmailAndPassword(auth, email, password);
-        const user = userCredential.user;
+        // 2. Attempt to sign in, keeping the session only for this tab unless asked to remember it
+        const session = await repositories.auth.signIn(email, password, rememberMe);
 
-        // 4. VERIFY PROFILE (with auto-fix fallback)
-        const userDocRef = doc(db, "users", user.uid);
-        let userDocSnap = await getDoc(userDocRef);
-        let userProfileData: User | null = null;
+        // 3. VERIFY PROFILE (with auto-fix fallback)
+        let userProfileData = await repositories.users.get(session.uid);
 
-        if (userDocSnap.exists()) {
-            userProfileData = { id: userDocSnap.id, ...userDocSnap.data() } as User;
-        } else {
+        if (!userProfileData && session.email) {
             // Fallback lookup by email with auto-fix
-            if (user.email) {
-                const usersQuery = query(collection(db, "users"), where("email", "==", user.email));
-                const querySnapshotFallback = await getDocs(usersQuery);
-
-                if (!querySnapshotFallback.empty) {
-                    const userDocFromQuery = querySnapshotFallback.docs[0];
-                    const correctedUser = await autoFixUserInconsistency(user, userDocFromQuery);
-
-                    if (!correctedUser) {
-                        await signOut(auth);
-                        return { success: false, error: 'Falha na correção automática do perfil. Contate o suporte.' };
-                    }
-                    userProfileData = correctedUser;
+            const profileByEmail = await repositories.users.findByEmail(session.email);
+
+            if (profileByEmail) {
+                const correctedUser = await autoFixUserInconsistency(session, profileByEmail);
+
+                if (!correctedUser) {
+                    await repositories.auth.signOut();
+                    return { success: false, error: 'Falha na correção automática do perfil. Contate o suporte.' };
                 }
+                userProfileData = correctedUser;
             }
         }
 
         if (!userProfileData) {
             // Profile truly not found
-            console.error(`Login successful, but user profile not found in Firestore for UID: ${user.uid} or email: ${user.email}. Signing out.`);
-            await signOut(auth);
-            await logAnonymousActivity('USER_LOGIN_FAIL_NO_PROFILE', { attemptedIdentifier: nameOrEmail, uid: user.uid });
+            console.error(`Login successful, but user profile not found in Firestore for UID: ${session.uid} or email: ${session.email}. Signing out.`);
+            await repositories.auth.signOut();
+            await logAnonymousActivity('USER_LOGIN_FAIL_NO_PROFILE', { attemptedIdentifier: nameOrEmail, uid: session.uid });
             return { success: false, error: 'Autenticação bem-sucedida, mas o perfil não foi encontrado. Contate um administrador.' };
         }
 
         if (userProfileData.isActive === false) {
-            await signOut(auth);
-            await logAnonymousActivity('USER_LOGIN_FAIL_INACTIVE', { attemptedIdentifier: nameOrEmail, uid: user.uid });
+            await repositories.auth.signOut();
+            await logAnonymousActivity('USER_LOGIN_FAIL_INACTIVE', { attemptedIdentifier: nameOrEmail, uid: session.uid });
             return { success: false, error: 'Sua conta está inativa. Entre em contato com o administrador.' };
         }
       
-        // 5. On success, log the activity using the verified profile data.
+        // 4. On success, log the activity using the verified profile data.
         await logActivity(userProfileData, 'USER_LOGIN_SUCCESS', { email: userProfileData.email });
 
         return { success: true };
 
     } catch (error: any) {
-        // 6. Unified error handling for the entire process
+        // 5. Unified error handling for the entire process
         console.error("Login process failed:", error);
         await logAnonymousActivity('USER_LOGIN_FAIL', { attemptedIdentifier: nameOrEmail, errorCode: error.code });
       
@@ -330,94 +393,294 @@ function App() {
         }
         return { success: false, error: message };
     }
-  }, [logActivity, logAnonymousActivity, autoFixUserInconsistency]);
+  }, [repositories, logActivity, logAnonymousActivity, autoFixUserInconsistency]);
 
   const handleLogout = useCallback(() => {
     if(currentUser) {
         logActivity(currentUser, 'USER_LOGOUT', { email: currentUser.email });
     }
-    signOut(auth);
-  }, [currentUser, logActivity]);
+    repositories.auth.signOut();
+  }, [repositories, currentUser, logActivity]);
 
-  const handleAddTimeEntry = useCallback(async (entry: Omit<TimeEntry, 'id'>) => {
+  const refreshPendingPunches = useCallback(async () => {
     try {
-      await addDoc(collection(db, "time_entries"), entry);
-      await logActivity(currentUser, 'ADD_TIME_ENTRY', {
-          entryType: entry.type,
-          targetUserId: entry.userId,
-          observation: entry.observation
-      });
+        setPendingPunches(await getPendingPunches());
     } catch (error) {
-      console.error("Error adding time entry:", error);
+        console.error("Error reading offline punch queue:", error);
     }
-  }, [currentUser, logActivity]);
+  }, []);
 
-  const handleUpdateTimeEntry = useCallback(async (updatedEntry: TimeEntry) => {
-    const { id, ...data } = updatedEntry;
-    const originalEntry = timeEntries.find(e => e.id === updatedEntry.id);
-    await logActivity(currentUser, 'UPDATE_TIME_ENTRY', {
-        targetUserId: updatedEntry.userId,
-        targetEntryId: updatedEntry.id,
-        before: originalEntry ? {
-            timestamp: originalEntry.timestamp.toISOString(),
-            observation: originalEntry.observation
-        } : {},
-        after: {
-            timestamp: updatedEntry.timestamp.toISOString(),
-            observation: updatedEntry.observation
+  // Round trip through a server timestamp; the device time is taken at the midpoint of the request
+  const measureClockSkew = useCallback(async () => {
+    if (!currentUser || !navigator.onLine) return;
+    try {
+        const sentAt = Date.now();
+        const serverTime = await repositories.timeEntries.fetchServerTime(currentUser.id);
+        const receivedAt = Date.now();
+        if (serverTime !== undefined) {
+            setClockSkewMs(Math.round((sentAt + receivedAt) / 2 - serverTime));
+        }
+    } catch (error) {
+        console.error("Error measuring clock skew:", error);
+    }
+  }, [repositories, currentUser]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    measureClockSkew();
+    const interval = setInterval(measureClockSkew, CLOCK_CHECK_INTERVAL_MS);
+    window.addEventListener('online', measureClockSkew);
+    return () => {
+        clearInterval(interval);
+        window.removeEventListener('online', measureClockSkew);
+    };
+  }, [currentUser, measureClockSkew]);
+
+  // The NSR counter starts after the punches recorded before receipts existed, continuing their hash
+  // chain. Only admins can read every punch, so the counter is created on an admin session; until
+  // then punches get no receipt and are numbered with the older ones.
+  useEffect(() => {
+    if (currentUser?.role !== Role.ADMIN) return;
+    const initializeAfdCounter = async () => {
+        try {
+            await repositories.punchReceipts.initializeCounter(async () => {
+                const [allUsers, legacyEntries] = await Promise.all([repositories.users.list(), repositories.timeEntries.list()]);
+                const chain = await buildLegacyPunchChain(allUsers, legacyEntries);
+                return { nsr: chain.length, lastHash: chain.length > 0 ? chain[chain.length - 1].hash : '' };
+            });
+        } catch (error) {
+            console.error("Error initializing the AFD counter:", error);
         }
+    };
+    initializeAfdCounter();
+  }, [repositories, currentUser]);
+
+  // Issues the comprovante of a synced punch: takes the next NSR from the employer counter and
+  // chains the AFD record hash in one transaction. Issuing twice for the same punch is a no-op.
+  const issuePunchReceipt = useCallback(async (entryId: string) => {
+    if (!currentUser) return;
+    const cpf = onlyDigits(currentUser.cpf ?? '');
+    if (!isValidCpf(cpf)) return; // Punches without a CPF cannot be part of the AFD
+    const entry = await repositories.timeEntries.getFromServer(entryId);
+    if (!entry) return;
+
+    const nsr = await repositories.punchReceipts.issue(entryId, async (nextNsr, previousHash) => {
+        const record = buildPunchRecord(nextNsr, entry.timestamp, cpf, entry.capturedOffline === true, entry.syncedAt ?? entry.timestamp);
+        return {
+            entryId,
+            userId: entry.userId,
+            nsr: nextNsr,
+            timestamp: entry.timestamp,
+            entryType: entry.type,
+            record,
+            hash: await sha256Hex(record + previousHash),
+            previousHash,
+            userName: currentUser.name,
+            cpf,
+            employerName: employerInfo.name,
+            employerIdType: employerInfo.idType,
+            employerIdNumber: employerInfo.idNumber,
+            siteName: entry.siteName,
+        };
     });
+    if (nsr !== null) {
+        await logActivity(currentUser, 'ISSUE_PUNCH_RECEIPT', { targetEntryId: entryId, nsr });
+    }
+  }, [repositories, currentUser, employerInfo, logActivity]);
+
+  // Sends queued punches to Firestore in capture order. Stops at the first failure so later
+  // punches never reach the server before earlier ones.
+  const syncPendingPunches = useCallback(async () => {
+    if (!currentUser || isSyncingRef.current || !navigator.onLine) return;
+    isSyncingRef.current = true;
     try {
-      await updateDoc(doc(db, "time_entries", id), data);
+        const punches = (await getPendingPunches()).filter(p => p.userId === currentUser.id);
+        for (const punch of punches) {
+            // A punch stays queued until its receipt is issued; one already on the server only needs the receipt
+            if (await repositories.timeEntries.getFromServer(punch.id)) {
+                await issuePunchReceipt(punch.id);
+                await removePendingPunch(punch.id);
+                continue;
+            }
+            const syncedAt = new Date();
+            const ageMs = syncedAt.getTime() - punch.capturedAt.getTime();
+            // The rules refuse punches past the offline window, so they are dropped for an admin to include
+            if (ageMs > OFFLINE_PUNCH_MAX_AGE_DAYS * 24 * 60 * 60 * 1000) {
+                await removePendingPunch(punch.id);
+                await logActivity(currentUser, 'DISCARD_STALE_PUNCH', {
+                    entryType: punch.type,
+                    targetUserId: punch.userId,
+                    targetEntryId: punch.id,
+                    capturedAt: punch.capturedAt.toISOString(),
+                    syncedAt: syncedAt.toISOString(),
+                });
+                alert(`A marcação "${punch.type}" de ${punch.capturedAt.toLocaleString('pt-BR')} ficou mais de ${OFFLINE_PUNCH_MAX_AGE_DAYS} dias sem conexão e não pôde ser enviada. Solicite o ajuste ao administrador.`);
+                continue;
+            }
+            // Only punches sent right after capture get the server time; the others are stored as offline
+            const isLive = !punch.capturedOffline && ageMs <= LIVE_SYNC_WINDOW_MS;
+            await repositories.timeEntries.create(punch.id, {
+                userId: punch.userId,
+                timestamp: isLive ? punch.capturedAt : toServerTime(punch.capturedAt, punch.clockSkewMs),
+                deviceTimestamp: punch.capturedAt,
+                type: punch.type,
+                observation: punch.observation,
+                capturedOffline: !isLive,
+                ...(punch.clockSkewMs !== undefined ? { clockSkewMs: punch.clockSkewMs, clockSkewFlagged: punch.clockSkewFlagged ?? false } : {}),
+                ...(punch.locationCheck ? { locationCheck: punch.locationCheck } : {}),
+                ...(punch.siteId ? { siteId: punch.siteId, siteName: punch.siteName } : {}),
+            }, isLive);
+            await issuePunchReceipt(punch.id);
+            await removePendingPunch(punch.id);
+            await logActivity(currentUser, 'ADD_TIME_ENTRY', {
+                entryType: punch.type,
+                targetUserId: punch.userId,
+                targetEntryId: punch.id,
+                observation: punch.observation,
+                capturedAt: punch.capturedAt.toISOString(),
+                syncedAt: syncedAt.toISOString(),
+                capturedOffline: !isLive,
+                clockSkewMs: punch.clockSkewMs ?? null,
+            });
+        }
     } catch (error) {
-      console.error("Error updating time entry:", error);
+        console.error("Error syncing offline punches:", error);
+    } finally {
+        isSyncingRef.current = false;
+        await refreshPendingPunches();
     }
-  }, [currentUser, logActivity, timeEntries]);
+  }, [repositories, currentUser, logActivity, refreshPendingPunches, issuePunchReceipt]);
 
-  const handleDeleteTimeEntry = useCallback(async (entryId: string) => {
-      const entryToDelete = timeEntries.find(e => e.id === entryId);
-      if (!entryToDelete) {
-          console.error("Time entry not found for deletion:", entryId);
-          return;
-      }
-
-      await logActivity(currentUser, 'DELETE_TIME_ENTRY', {
-          targetUserId: entryToDelete.userId,
-          targetEntryId: entryToDelete.id,
-          deletedEntry: {
-              type: entryToDelete.type,
-              timestamp: entryToDelete.timestamp.toISOString(),
-              observation: entryToDelete.observation
-          }
-      });
+  useEffect(() => {
+    if (!currentUser) return;
+    syncPendingPunches();
+    window.addEventListener('online', syncPendingPunches);
+    return () => window.removeEventListener('online', syncPendingPunches);
+  }, [currentUser, syncPendingPunches]);
 
+  // Punches are queued on the device first and synced from there, so they survive a lost connection
+  const handleAddTimeEntry = useCallback(async (entry: Omit<TimeEntry, 'id'>) => {
+    const maxClockSkewMinutes = appConfig.maxClockSkewMinutes ?? DEFAULT_MAX_CLOCK_SKEW_MINUTES;
+    const clockSkewFlagged = isSkewExceeded(clockSkewMs, maxClockSkewMinutes);
+    if (clockSkewFlagged && appConfig.blockOnClockSkew) {
+        await logActivity(currentUser, 'PUNCH_BLOCKED_CLOCK_SKEW', { entryType: entry.type, clockSkewMs: clockSkewMs ?? null });
+        alert("O relógio deste dispositivo está diferente do horário do servidor. Ajuste a data e hora do aparelho para registrar o ponto.");
+        return;
+    }
+    const punch: PendingPunch = {
+        id: repositories.timeEntries.newId(),
+        userId: entry.userId,
+        type: entry.type,
+        observation: entry.observation,
+        capturedAt: entry.timestamp,
+        capturedOffline: !navigator.onLine,
+        ...(clockSkewMs !== undefined ? { clockSkewMs, clockSkewFlagged } : {}),
+        ...(entry.locationCheck ? { locationCheck: entry.locationCheck } : {}),
+        ...(entry.siteId ? { siteId: entry.siteId, siteName: entry.siteName } : {}),
+    };
+    try {
+      await enqueuePunch(punch);
+    } catch (error) {
+      console.error("Error queueing time entry, sending directly:", error);
       try {
-          await deleteDoc(doc(db, "time_entries", entryId));
+        await repositories.timeEntries.create(punch.id, { ...entry, deviceTimestamp: entry.timestamp }, true);
+        await logActivity(currentUser, 'ADD_TIME_ENTRY', {
+            entryType: entry.type,
+            targetUserId: entry.userId,
+            targetEntryId: punch.id,
+            observation: entry.observation
+        });
+        await issuePunchReceipt(punch.id);
       } catch (error) {
-          console.error("Error deleting time entry:", error);
+        console.error("Error adding time entry:", error);
       }
-  }, [currentUser, logActivity, timeEntries]);
+      return;
+    }
+    await refreshPendingPunches();
+    await syncPendingPunches();
+  }, [repositories, currentUser, logActivity, refreshPendingPunches, syncPendingPunches, issuePunchReceipt, appConfig, clockSkewMs]);
+
+  // Only the observation of a punch can be edited; its time is treated through punch adjustments
+  const handleUpdateObservation = useCallback(async (updatedEntry: TimeEntry) => {
+    const isOriginal = timeEntries.some(e => e.id === updatedEntry.id);
+    const before = isOriginal
+        ? timeEntries.find(e => e.id === updatedEntry.id)?.observation
+        : punchAdjustments.find(a => a.id === updatedEntry.id)?.observation;
+    await logActivity(currentUser, 'UPDATE_TIME_ENTRY_OBSERVATION', {
+        targetUserId: updatedEntry.userId,
+        targetEntryId: updatedEntry.id,
+        before: { observation: before ?? '' },
+        after: { observation: updatedEntry.observation }
+    });
+    try {
+      // Included punches live in their inclusion adjustment
+      if (isOriginal) {
+        await repositories.timeEntries.updateObservation(updatedEntry.id, updatedEntry.observation);
+      } else {
+        await repositories.punchAdjustments.updateObservation(updatedEntry.id, updatedEntry.observation);
+      }
+    } catch (error) {
+      console.error("Error updating observation:", error);
+    }
+  }, [repositories, currentUser, logActivity, timeEntries, punchAdjustments]);
+
+  // A change dated inside a closed hour-bank month reopens it and the months after it, so the
+  // next closing includes the change
+  const reopenHourBank = useCallback(async (userId: string, dateKey: string) => {
+    const month = dateKey.slice(0, 7);
+    if (!hourBankClosings.some(c => c.userId === userId && c.month >= month)) return;
+    await repositories.hourBank.reopen(userId, month);
+    await logActivity(currentUser, 'REOPEN_HOUR_BANK', { targetUserId: userId, month });
+  }, [repositories, currentUser, logActivity, hourBankClosings]);
+
+  const handleAddPunchAdjustment = useCallback(async (adjustment: PunchAdjustmentDraft) => {
+    if (!currentUser) return;
+    const target = adjustment.entryId ? treatedTimeEntries.find(e => e.id === adjustment.entryId) : undefined;
+    try {
+        await reopenHourBank(adjustment.userId, earliestWorkday(target?.originalTimestamp ?? target?.timestamp, adjustment.timestamp));
+        const adjustmentId = await repositories.punchAdjustments.add({
+            ...adjustment,
+            createdById: currentUser.id,
+            createdByName: currentUser.name,
+            createdAt: new Date(),
+        });
+        await logActivity(currentUser, 'ADD_PUNCH_ADJUSTMENT', {
+            adjustmentId,
+            adjustmentType: adjustment.adjustmentType,
+            entryType: adjustment.entryType,
+            targetUserId: adjustment.userId,
+            targetEntryId: adjustment.entryId ?? null,
+            before: target ? { timestamp: target.timestamp.toISOString() } : {},
+            after: adjustment.timestamp ? { timestamp: adjustment.timestamp.toISOString() } : {},
+            reason: adjustment.reason,
+        });
+    } catch (error) {
+        console.error("Error adding punch adjustment:", error);
+    }
+  }, [repositories, currentUser, logActivity, treatedTimeEntries, reopenHourBank]);
 
   const handleAddUser = useCallback(async (user: Omit<User, 'id'>, password: string) => {
-    if (users.some(u => u.name.toLowerCase() === user.name.toLowerCase() || u.email.toLowerCase() === user.email.toLowerCase())) {
+    if (users.some(u => isSameUsername(u.name, user.name) || u.email.toLowerCase() === user.email.toLowerCase())) {
         alert("Usuário com este nome ou e-mail já existe.");
         return;
     }
     try {
-        // 1. Create user in Firebase Auth
-        const userCredential = await createUserWithEmailAndPassword(auth, user.email, password);
-        const newAuthUser = userCredential.user;
+        // 1. Create the login, keeping the admin's own session
+        const uid = await repositories.auth.createAccount(user.email, password);
 
-        // 2. Create user document in Firestore
-        await setDoc(doc(db, 'users', newAuthUser.uid), {
+        // 2. Create the user profile
+        await repositories.users.create({
+            id: uid,
             name: user.name,
             email: user.email,
             role: user.role,
-            isActive: true
+            isActive: true,
+            ...(user.cpf ? { cpf: user.cpf } : {}),
+            ...(user.admissionDate ? { admissionDate: user.admissionDate } : {}),
         });
 
         await logActivity(currentUser, 'CREATE_USER', {
-            targetUserId: newAuthUser.uid,
+            targetUserId: uid,
             newUserEmail: user.email,
             newUserName: user.name,
             newUserRole: user.role
@@ -426,28 +689,250 @@ function App() {
         console.error("Error adding user: ", error);
         alert("Falha ao criar usuário. Verifique o console para mais detalhes.");
     }
-  }, [users, currentUser, logActivity]);
+  }, [repositories, users, currentUser, logActivity]);
   
   const handleUpdateUser = useCallback(async (updatedUser: User) => {
-    const { id, ...data } = updatedUser;
+    // The name is also the username, so it must stay unique
+    if (users.some(u => u.id !== updatedUser.id && isSameUsername(u.name, updatedUser.name))) {
+        alert("Já existe um usuário com este nome.");
+        return;
+    }
     const originalUser = users.find(u => u.id === updatedUser.id);
     await logActivity(currentUser, 'UPDATE_USER', {
         targetUserId: updatedUser.id,
         before: originalUser ? {
             name: originalUser.name,
-            role: originalUser.role
+            cpf: originalUser.cpf ?? null,
+            admissionDate: originalUser.admissionDate ?? null,
+            role: originalUser.role,
+            schedule: originalUser.schedule ?? null,
+            shiftPatternId: originalUser.shiftPatternId ?? null
         } : {},
         after: {
             name: updatedUser.name,
-            role: updatedUser.role
+            cpf: updatedUser.cpf ?? null,
+            admissionDate: updatedUser.admissionDate ?? null,
+            role: updatedUser.role,
+            schedule: updatedUser.schedule ?? null,
+            shiftPatternId: updatedUser.shiftPatternId ?? null
         }
     });
     try {
-        await updateDoc(doc(db, "users", id), data);
+        await repositories.users.update(updatedUser);
     } catch (error) {
         console.error("Error updating user: ", error);
     }
-  }, [users, currentUser, logActivity]);
+  }, [repositories, users, currentUser, logActivity]);
+
+  const handleSaveShiftPattern = useCallback(async (pattern: ShiftPatternDraft, assignedUserIds: string[]) => {
+    try {
+        // Assigns the selected users and releases the deselected ones along with the pattern
+        const shiftPatternId = await repositories.shiftPatterns.save(pattern, users, assignedUserIds);
+        await logActivity(currentUser, pattern.id ? 'UPDATE_SHIFT_PATTERN' : 'CREATE_SHIFT_PATTERN', {
+            shiftPatternId,
+            name: pattern.name,
+            cycleLength: pattern.days.length,
+            anchorDate: pattern.anchorDate,
+            assignedUserIds,
+        });
+    } catch (error) {
+        console.error("Error saving shift pattern:", error);
+        alert("Falha ao salvar a escala. Verifique o console para mais detalhes.");
+    }
+  }, [repositories, users, currentUser, logActivity]);
+
+  const handleDeleteShiftPattern = useCallback(async (patternId: string) => {
+    try {
+        await repositories.shiftPatterns.delete(patternId, users);
+        await logActivity(currentUser, 'DELETE_SHIFT_PATTERN', { shiftPatternId: patternId });
+    } catch (error) {
+        console.error("Error deleting shift pattern:", error);
+    }
+  }, [repositories, users, currentUser, logActivity]);
+
+  const handleSaveWorkSite = useCallback(async (site: WorkSiteDraft, assignedUserIds: string[]) => {
+    try {
+        // Assigns the selected users and releases the deselected ones along with the site
+        const siteId = await repositories.workSites.save(site, users, assignedUserIds);
+        await logActivity(currentUser, site.id ? 'UPDATE_WORK_SITE' : 'CREATE_WORK_SITE', {
+            siteId,
+            name: site.name,
+            latitude: site.latitude,
+            longitude: site.longitude,
+            radius: site.radius,
+            timezone: site.timezone ?? null,
+            assignedUserIds,
+        });
+    } catch (error) {
+        console.error("Error saving work site:", error);
+        alert("Falha ao salvar o local de trabalho. Verifique o console para mais detalhes.");
+    }
+  }, [repositories, users, currentUser, logActivity]);
+
+  const handleDeleteWorkSite = useCallback(async (siteId: string) => {
+    try {
+        await repositories.workSites.delete(siteId, users);
+        await logActivity(currentUser, 'DELETE_WORK_SITE', { siteId });
+    } catch (error) {
+        console.error("Error deleting work site:", error);
+    }
+  }, [repositories, users, currentUser, logActivity]);
+
+  const handleAddHourBankAdjustment = useCallback(async (adjustment: HourBankAdjustmentDraft) => {
+    if (!currentUser) return;
+    try {
+        await reopenHourBank(adjustment.userId, adjustment.date);
+        const adjustmentId = await repositories.hourBank.add({
+            ...adjustment,
+            createdById: currentUser.id,
+            createdByName: currentUser.name,
+            createdAt: new Date(),
+        });
+        await logActivity(currentUser, 'ADD_HOUR_BANK_ADJUSTMENT', {
+            targetUserId: adjustment.userId,
+            adjustmentId,
+            date: adjustment.date,
+            hours: adjustment.hours,
+            reason: adjustment.reason,
+        });
+    } catch (error) {
+        console.error("Error adding hour bank adjustment:", error);
+    }
+  }, [repositories, currentUser, logActivity, reopenHourBank]);
+
+  // Closes the hour bank of every employee up to the month, one month at a time from the month after
+  // their latest closing (or their admission). Punches are read month by month on demand.
+  const handleCloseHourBank = useCallback(async (untilMonth: string): Promise<{ success: boolean; message: string }> => {
+    if (!currentUser) return { success: false, message: "Sessão expirada." };
+    const expiryMonths = appConfig.hourBankExpiryMonths ?? DEFAULT_HOUR_BANK_EXPIRY_MONTHS;
+    const context = { users, workdayHours: appConfig.workdayHours, shiftPatterns, holidays: holidayCalendar };
+    let closedCount = 0;
+    try {
+        for (const user of users.filter(u => u.role === Role.EMPLOYEE && u.isActive !== false)) {
+            let previous: HourBankClosing | undefined = hourBankClosings
+                .filter(c => c.userId === user.id)
+                .sort((a, b) => b.month.localeCompare(a.month))[0];
+            const firstMonth = previous
+                ? addMonths(`${previous.month}-01`, 1).slice(0, 7)
+                : (user.admissionDate?.slice(0, 7) ?? untilMonth);
+            const closings: NewHourBankClosing[] = [];
+            for (let month = firstMonth; month <= untilMonth; month = addMonths(`${month}-01`, 1).slice(0, 7)) {
+                const range = getClosingRange(month);
+                const entries = await repositories.timeEntries.list(user.id, {
+                    from: parseDateKey(range.startDate),
+                    before: parseDateKey(addDays(range.endDate, 1)),
+                });
+                const closing: NewHourBankClosing = {
+                    ...closeHourBankMonth(user, month, applyPunchAdjustments(entries, punchAdjustments), hourBankAdjustments, previous, context, expiryMonths),
+                    closedById: currentUser.id,
+                    closedByName: currentUser.name,
+                };
+                closings.push(closing);
+                previous = { ...closing, closedAt: new Date() };
+            }
+            if (closings.length === 0) continue;
+            await repositories.hourBank.saveClosings(closings);
+            closedCount += closings.length;
+        }
+        await logActivity(currentUser, 'CLOSE_HOUR_BANK', { untilMonth, closings: closedCount });
+        return { success: true, message: closedCount > 0 ? `${closedCount} fechamento(s) registrado(s).` : "Nenhum mês pendente de fechamento." };
+    } catch (error) {
+        console.error("Error closing hour bank:", error);
+        return { success: false, message: "Não foi possível fechar o banco de horas." };
+    }
+  }, [repositories, currentUser, logActivity, users, appConfig, shiftPatterns, holidayCalendar, hourBankClosings, hourBankAdjustments, punchAdjustments]);
+
+  const handleAcknowledgeTimesheet = useCallback(async (month: string, status: AcknowledgmentStatus, comment: string, contentHash: string) => {
+    if (!currentUser) return { success: false, message: "Sessão expirada." };
+    const acknowledgmentId = `${currentUser.id}_${month}`;
+    try {
+        await repositories.acknowledgments.save({
+            id: acknowledgmentId,
+            userId: currentUser.id,
+            month,
+            status,
+            comment,
+            contentHash,
+        });
+        await logActivity(currentUser, status === AcknowledgmentStatus.ACCEPTED ? 'ACCEPT_TIMESHEET' : 'CONTEST_TIMESHEET', {
+            acknowledgmentId,
+            month,
+            comment,
+            contentHash,
+        });
+        return { success: true, message: status === AcknowledgmentStatus.ACCEPTED ? "Espelho aceito." : "Contestação enviada." };
+    } catch (error) {
+        console.error("Error saving timesheet acknowledgment:", error);
+        return { success: false, message: "Não foi possível registrar a sua ciência do espelho. Tente novamente." };
+    }
+  }, [repositories, currentUser, logActivity]);
+
+  const handleSubmitCorrectionRequest = useCallback(async (request: CorrectionRequestDraft) => {
+    if (!currentUser) return;
+    try {
+        const correctionRequestId = await repositories.correctionRequests.add({
+            ...request,
+            userId: currentUser.id,
+            status: CorrectionRequestStatus.PENDING,
+            createdAt: new Date(),
+        });
+        await logActivity(currentUser, 'CREATE_CORRECTION_REQUEST', {
+            correctionRequestId,
+            requestType: request.requestType,
+            entryType: request.entryType,
+            targetEntryId: request.entryId ?? null,
+            requestedTimestamp: request.requestedTimestamp.toISOString(),
+        });
+    } catch (error) {
+        console.error("Error creating correction request:", error);
+    }
+  }, [repositories, currentUser, logActivity]);
+
+  const handleReviewCorrectionRequest = useCallback(async (request: CorrectionRequest, approved: boolean, comment: string) => {
+    if (!currentUser) return;
+    try {
+        const isInclusion = request.requestType === CorrectionRequestType.ADD_PUNCH;
+        if (approved) {
+            const workday = earliestWorkday(request.originalTimestamp, request.requestedTimestamp);
+            await reopenHourBank(request.userId, request.dateKey < workday ? request.dateKey : workday);
+        }
+        // An approval is applied as a punch adjustment, written together with the review
+        const appliedAdjustmentId = await repositories.correctionRequests.review(request.id, {
+            status: approved ? CorrectionRequestStatus.APPROVED : CorrectionRequestStatus.REJECTED,
+            reviewedById: currentUser.id,
+            reviewedByName: currentUser.name,
+            reviewedAt: new Date(),
+            reviewComment: comment,
+        }, approved ? {
+            userId: request.userId,
+            adjustmentType: isInclusion ? PunchAdjustmentType.INCLUSION : PunchAdjustmentType.TIME_CHANGE,
+            entryType: request.entryType,
+            ...(!isInclusion && request.entryId ? { entryId: request.entryId } : {}),
+            timestamp: request.requestedTimestamp,
+            observation: isInclusion ? `Ajuste aprovado: ${request.justification}` : '',
+            reason: request.justification,
+            correctionRequestId: request.id,
+            createdById: currentUser.id,
+            createdByName: currentUser.name,
+            createdAt: new Date(),
+        } : null);
+
+        await logActivity(currentUser, approved ? 'APPROVE_CORRECTION_REQUEST' : 'REJECT_CORRECTION_REQUEST', {
+            correctionRequestId: request.id,
+            targetUserId: request.userId,
+            targetEntryId: request.entryId ?? null,
+            adjustmentId: appliedAdjustmentId ?? null,
+            requestType: request.requestType,
+            entryType: request.entryType,
+            before: request.originalTimestamp ? { timestamp: request.originalTimestamp.toISOString() } : {},
+            after: approved ? { timestamp: request.requestedTimestamp.toISOString() } : {},
+            comment,
+        });
+    } catch (error) {
+        console.error("Error reviewing correction request:", error);
+        alert("Não foi possível aplicar a solicitação. A marcação pode ter sido excluída.");
+    }
+  }, [repositories, currentUser, logActivity, reopenHourBank]);
 
   const handleUpdateAppConfig = useCallback(async (newConfig: AppConfig) => {
     await logActivity(currentUser, 'UPDATE_APP_CONFIG', {
@@ -455,33 +940,54 @@ function App() {
         after: newConfig
     });
     try {
-        await setDoc(doc(db, "config", "main"), newConfig);
+        await repositories.config.saveAppConfig(newConfig);
     } catch (error) {
         console.error("Error updating config:", error);
     }
-  }, [appConfig, currentUser, logActivity]);
+  }, [repositories, appConfig, currentUser, logActivity]);
 
-  const handleExportData = useCallback(async () => {
+  const handleUpdateHolidayCalendar = useCallback(async (newCalendar: HolidayCalendar) => {
+    await logActivity(currentUser, 'UPDATE_HOLIDAY_CALENDAR', {
+        before: holidayCalendar,
+        after: newCalendar
+    });
     try {
-        // Fetch all users
-        const usersSnapshot = await getDocs(collection(db, "users"));
-        const usersData = usersSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
-
-        // Fetch all time entries
-        const timeEntriesSnapshot = await getDocs(collection(db, "time_entries"));
-        const timeEntriesData = timeEntriesSnapshot.docs.map(doc => {
-            const data = doc.data();
-            return { 
-                id: doc.id, 
-                ...data, 
-                // Convert Firestore Timestamp to ISO string for JSON compatibility
-                timestamp: (data.timestamp as Timestamp).toDate().toISOString() 
-            };
-        });
+        await repositories.config.saveHolidayCalendar(newCalendar);
+    } catch (error) {
+        console.error("Error updating holiday calendar:", error);
+    }
+  }, [repositories, holidayCalendar, currentUser, logActivity]);
 
+  const handleUpdateEmployerInfo = useCallback(async (newEmployer: EmployerInfo) => {
+    await logActivity(currentUser, 'UPDATE_EMPLOYER_INFO', {
+        before: employerInfo,
+        after: newEmployer
+    });
+    try {
+        await repositories.config.saveEmployerInfo(newEmployer);
+    } catch (error) {
+        console.error("Error updating employer info:", error);
+    }
+  }, [repositories, employerInfo, currentUser, logActivity]);
+
+  // Audit logs are read on demand for a date range instead of being kept in a listener like
+  // the rest of the data: the collection only grows and is needed only in the Auditoria tab
+  const handleLoadAuditLogs = useCallback((startDate: string, endDate: string): Promise<AuditLog[]> =>
+    repositories.auditLogs.listBetween(parseDateKey(startDate), parseDateKey(addDays(endDate, 1))), [repositories]);
+
+  // Walks the whole audit chain; run on demand from the Auditoria tab
+  const handleVerifyAuditChain = useCallback(async (): Promise<AuditChainReport> => {
+    const [logs, head] = await Promise.all([repositories.auditLogs.list(), repositories.auditLogs.getChainHead()]);
+    const report = await verifyAuditChain(logs, head);
+    await logActivity(currentUser, 'VERIFY_AUDIT_CHAIN', { chainedCount: report.chainedCount, issueCount: report.issues.length });
+    return report;
+  }, [repositories, currentUser, logActivity]);
+
+  const handleExportData = useCallback(async () => {
+    try {
+        // Users and time entries, with timestamps as ISO strings for JSON compatibility
         const backupData = {
-            users: usersData,
-            time_entries: timeEntriesData,
+            ...await repositories.backup.read(),
             exportedAt: new Date().toISOString()
         };
 
@@ -504,7 +1010,7 @@ function App() {
         await logActivity(currentUser, 'EXPORT_DATA_FAIL', { error: error instanceof Error ? error.message : String(error) });
         alert("Ocorreu um erro ao exportar os dados.");
     }
-  }, [currentUser, logActivity]);
+  }, [repositories, currentUser, logActivity]);
 
   const handleImportData = useCallback(async (fileContent: string): Promise<{ success: boolean; message: string }> => {
     try {
@@ -514,29 +1020,8 @@ function App() {
             return { success: false, message: "Arquivo de backup inválido. A estrutura esperada não foi encontrada." };
         }
 
-        const batch = writeBatch(db);
-
-        // Process users
-        data.users.forEach((user: any) => {
-            const { id, ...userData } = user;
-            if (id) {
-                const userRef = doc(db, "users", id);
-                batch.set(userRef, userData);
-            }
-        });
-
-        // Process time entries
-        data.time_entries.forEach((entry: any) => {
-            const { id, ...entryData } = entry;
-            if (id && entry.timestamp) {
-                const entryRef = doc(db, "time_entries", id);
-                // Convert ISO string back to Firestore Timestamp
-                const timestamp = Timestamp.fromDate(new Date(entry.timestamp));
-                batch.set(entryRef, { ...entryData, timestamp });
-            }
-        });
-
-        await batch.commit();
+        await repositories.backup.restore(data);
+        await repositories.users.syncUsernameIndex(await repositories.users.list());
 
         await logActivity(currentUser, 'IMPORT_DATA_SUCCESS', { usersImported: data.users.length, entriesImported: data.time_entries.length });
         return { success: true, message: `Importação concluída com sucesso! ${data.users.length} usuários e ${data.time_entries.length} registros de ponto processados.` };
@@ -546,14 +1031,14 @@ function App() {
         await logActivity(currentUser, 'IMPORT_DATA_FAIL', { error: error instanceof Error ? error.message : String(error) });
         return { success: false, message: `Ocorreu um erro durante a importação: ${error instanceof Error ? error.message : String(error)}` };
     }
-  }, [currentUser, logActivity]);
+  }, [repositories, currentUser, logActivity]);
 
   const handleAdminTriggerPasswordReset = useCallback(async (email: string): Promise<{ success: boolean; message: string }> => {
     if (!currentUser || currentUser.role !== Role.ADMIN) {
         return { success: false, message: "Apenas administradores podem realizar esta ação." };
     }
     try {
-        await sendPasswordResetEmail(auth, email);
+        await repositories.auth.sendPasswordReset(email);
         await logActivity(currentUser, 'ADMIN_PASSWORD_RESET_EMAIL_SENT', { targetUserEmail: email });
         return { success: true, message: `E-mail de redefinição enviado para ${email}. Peça ao funcionário para verificar a caixa de entrada e a pasta de spam.` };
     } catch (error: any) {
@@ -565,19 +1050,29 @@ function App() {
         }
         return { success: false, message: message };
     }
-  }, [currentUser, logActivity]);
+  }, [repositories, currentUser, logActivity]);
+
+  // Brings the username lookup in line with the registered users, covering profiles created before it
+  // existed. It reads and rewrites the whole lookup, so it runs on request and after a restore only.
+  const handleRebuildUsernameIndex = useCallback(async (): Promise<{ success: boolean; message: string }> => {
+    try {
+        const allUsers = await repositories.users.list();
+        await repositories.users.syncUsernameIndex(allUsers);
+        await logActivity(currentUser, 'REBUILD_USERNAME_INDEX', { usersIndexed: allUsers.length });
+        return { success: true, message: `Índice de nomes reconstruído a partir de ${allUsers.length} usuários.` };
+    } catch (error) {
+        console.error("Error rebuilding the username lookup:", error);
+        return { success: false, message: "Falha ao reconstruir o índice de nomes. Verifique o console para mais detalhes." };
+    }
+  }, [repositories, currentUser, logActivity]);
 
   const handleChangePassword = useCallback(async (currentPassword: string, newPassword: string): Promise<{ success: boolean; message: string; }> => {
-    const user = auth.currentUser;
-    if (!user || !user.email) {
+    if (!repositories.auth.currentSession()?.email) {
         return { success: false, message: "Usuário não autenticado." };
     }
     try {
-        const credential = EmailAuthProvider.credential(user.email, currentPassword);
-        // Re-authenticate the user to confirm their identity
-        await reauthenticateWithCredential(user, credential);
-        // If re-authentication is successful, update the password
-        await updatePassword(user, newPassword);
+        // Re-authenticates with the current password to confirm the user's identity, then updates it
+        await repositories.auth.changePassword(currentPassword, newPassword);
         
         await logActivity(currentUser, 'USER_PASSWORD_CHANGE_SUCCESS');
         return { success: true, message: "Senha alterada com sucesso!" };
@@ -593,7 +1088,7 @@ function App() {
         }
         return { success: false, message };
     }
-  }, [currentUser, logActivity]);
+  }, [repositories, currentUser, logActivity]);
 
 
   if (authLoading) {
@@ -616,26 +1111,65 @@ function App() {
         {currentUser.role === Role.ADMIN ? (
           <AdminDashboard 
             users={users} 
-            timeEntries={timeEntries}
+            timeEntries={treatedTimeEntries}
+            originalTimeEntries={timeEntries}
+            punchAdjustments={punchAdjustments}
+            punchReceipts={punchReceipts}
             onAddUser={handleAddUser}
-            onUpdateTimeEntry={handleUpdateTimeEntry}
-            onDeleteTimeEntry={handleDeleteTimeEntry}
-            onAddTimeEntry={handleAddTimeEntry}
+            onUpdateObservation={handleUpdateObservation}
+            onAddPunchAdjustment={handleAddPunchAdjustment}
             onUpdateUser={handleUpdateUser}
+            shiftPatterns={shiftPatterns}
+            onSaveShiftPattern={handleSaveShiftPattern}
+            onDeleteShiftPattern={handleDeleteShiftPattern}
             appConfig={appConfig}
             onUpdateAppConfig={handleUpdateAppConfig}
+            holidayCalendar={holidayCalendar}
+            onUpdateHolidayCalendar={handleUpdateHolidayCalendar}
+            workSites={workSites}
+            onSaveWorkSite={handleSaveWorkSite}
+            onDeleteWorkSite={handleDeleteWorkSite}
+            employerInfo={employerInfo}
+            onUpdateEmployerInfo={handleUpdateEmployerInfo}
+            hourBankAdjustments={hourBankAdjustments}
+            onAddHourBankAdjustment={handleAddHourBankAdjustment}
+            hourBankClosings={hourBankClosings}
+            onCloseHourBank={handleCloseHourBank}
+            timesheetAcknowledgments={timesheetAcknowledgments}
+            correctionRequests={correctionRequests}
+            onReviewCorrectionRequest={handleReviewCorrectionRequest}
+            onLoadAuditLogs={handleLoadAuditLogs}
+            onReportPeriodChange={handleVisiblePeriodChange}
+            onLoadTimeEntries={handleLoadTimeEntries}
+            onVerifyAuditChain={handleVerifyAuditChain}
             onExportData={handleExportData}
             onImportData={handleImportData}
             onTriggerPasswordReset={handleAdminTriggerPasswordReset}
+            onRebuildUsernameIndex={handleRebuildUsernameIndex}
           />
         ) : (
           <EmployeeDashboard 
-            user={currentUser} 
-            timeEntries={timeEntries.filter(e => e.userId === currentUser.id)}
+            user={currentUserProfile ?? currentUser} 
+            timeEntries={treatedTimeEntries.filter(e => e.userId === currentUser.id)}
             onAddTimeEntry={handleAddTimeEntry}
-            onUpdateTimeEntry={handleUpdateTimeEntry}
+            pendingPunches={pendingPunches.filter(p => p.userId === currentUser.id)}
+            punchReceipts={punchReceipts.filter(r => r.userId === currentUser.id)}
+            onUpdateObservation={handleUpdateObservation}
             onChangePassword={handleChangePassword}
+            shiftPatterns={shiftPatterns}
+            holidays={holidayCalendar}
+            hourBankAdjustments={hourBankAdjustments.filter(a => a.userId === currentUser.id)}
+            hourBankClosings={hourBankClosings.filter(c => c.userId === currentUser.id)}
+            employerInfo={employerInfo}
+            timesheetAcknowledgments={timesheetAcknowledgments.filter(a => a.userId === currentUser.id)}
+            onAcknowledgeTimesheet={handleAcknowledgeTimesheet}
+            correctionRequests={correctionRequests.filter(r => r.userId === currentUser.id)}
+            onSubmitCorrectionRequest={handleSubmitCorrectionRequest}
+            workSites={currentUserSites}
+            clockSkewMs={clockSkewMs}
             appConfig={appConfig}
+            onPeriodChange={handleVisiblePeriodChange}
+            onLoadTimeEntries={handleLoadTimeEntries}
           />
         )}
       </main>
@@ -0,0 +1,119 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { User, TimeEntry, HourBankAdjustment, HourBankClosing, TimesheetAcknowledgment, AcknowledgmentStatus } from '../types';
+import { WorkdayContext, DateRange } from '../utils/workday';
+import { buildTimesheet, hashTimesheet, getClosedMonths } from '../utils/timesheet';
+import { formatMonthLabel, getMonthRange } from '../utils/date';
+
+interface AcknowledgmentBoardProps {
+  users: User[];
+  timeEntries: TimeEntry[];
+  hourBankAdjustments: HourBankAdjustment[];
+  hourBankClosings: HourBankClosing[];
+  context: WorkdayContext;
+  hourBankExpiryMonths: number;
+  acknowledgments: TimesheetAcknowledgment[];
+  onPeriodChange: (range: DateRange) => void; // Month being viewed, so only its punches are listened to
+}
+
+type BoardStatus = 'Pendente' | 'Aceito' | 'Contestado' | 'Desatualizado';
+
+const statusStyles: Record<BoardStatus, string> = {
+  Pendente: 'bg-gray-600',
+  Aceito: 'bg-green-600',
+  Contestado: 'bg-yellow-600',
+  Desatualizado: 'bg-red-600',
+};
+
+const AcknowledgmentBoard: React.FC<AcknowledgmentBoardProps> = ({ users, timeEntries, hourBankAdjustments, hourBankClosings, context, hourBankExpiryMonths, acknowledgments, onPeriodChange }) => {
+  const closedMonths = useMemo(() => getClosedMonths(12), []);
+  const [month, setMonth] = useState(closedMonths[0]);
+  const [currentHashes, setCurrentHashes] = useState<{ [userId: string]: string }>({});
+
+  useEffect(() => {
+    onPeriodChange(getMonthRange(month));
+  }, [month, onPeriodChange]);
+
+  // Hash of each employee's espelho as it is now, to detect changes after the acknowledgment
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(users.map(async user => {
+      const timesheet = buildTimesheet({ user, month, timeEntries, hourBankAdjustments, hourBankClosings, context, hourBankExpiryMonths });
+      return [user.id, await hashTimesheet(timesheet)] as const;
+    })).then(entries => {
+      if (!cancelled) setCurrentHashes(Object.fromEntries(entries));
+    });
+    return () => { cancelled = true; };
+  }, [users, month, timeEntries, hourBankAdjustments, hourBankClosings, context, hourBankExpiryMonths]);
+
+  const rows = users.map(user => {
+    const acknowledgment = acknowledgments.find(a => a.userId === user.id && a.month === month);
+    let status: BoardStatus = 'Pendente';
+    if (acknowledgment) {
+      const currentHash = currentHashes[user.id];
+      status = currentHash && currentHash !== acknowledgment.contentHash
+        ? 'Desatualizado'
+        : acknowledgment.status === AcknowledgmentStatus.ACCEPTED ? 'Aceito' : 'Contestado';
+    }
+    return { user, acknowledgment, status };
+  });
+
+  const counts = rows.reduce((acc, row) => ({ ...acc, [row.status]: (acc[row.status] || 0) + 1 }), {} as { [status: string]: number });
+
+  return (
+    <div className="bg-secondary p-4 sm:p-6 rounded-lg shadow-lg space-y-6">
+      <div className="md:flex justify-between items-start gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-light">Ciência dos Espelhos</h2>
+          <p className="text-sm text-highlight">Acompanhe quem aceitou ou contestou o espelho de ponto do mês.</p>
+        </div>
+        <select
+          value={month}
+          onChange={(e) => setMonth(e.target.value)}
+          className="mt-4 md:mt-0 bg-primary border border-accent rounded-md px-3 py-1.5 text-light text-sm focus:ring-highlight focus:border-highlight"
+        >
+          {closedMonths.map(m => <option key={m} value={m}>{formatMonthLabel(m)}</option>)}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(statusStyles) as BoardStatus[]).map(status => (
+          <span key={status} className={`${statusStyles[status]} text-white px-3 py-1 rounded-full text-sm font-medium`}>
+            {status}: {counts[status] || 0}
+          </span>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-accent">
+          <thead className="bg-primary">
+            <tr>
+              {['Funcionário', 'Situação', 'Data', 'Comentário', 'Hash do Documento'].map(header => (
+                <th key={header} scope="col" className="px-4 py-3 text-left text-xs font-medium text-highlight uppercase tracking-wider">{header}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-secondary divide-y divide-accent">
+            {rows.map(({ user, acknowledgment, status }) => (
+              <tr key={user.id}>
+                <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-light">{user.name}</td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm">
+                  <span className={`${statusStyles[status]} text-white px-2 py-0.5 rounded text-xs font-bold`}>{status}</span>
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-light">{acknowledgment ? acknowledgment.acknowledgedAt.toLocaleString('pt-BR') : '--'}</td>
+                <td className="px-4 py-3 text-sm text-light max-w-xs truncate" title={acknowledgment?.comment}>{acknowledgment?.comment || '--'}</td>
+                <td className="px-4 py-3 whitespace-nowrap text-xs font-mono text-highlight" title={acknowledgment?.contentHash}>{acknowledgment ? `${acknowledgment.contentHash.slice(0, 12)}…` : '--'}</td>
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-6 py-10 text-center text-highlight">Nenhum funcionário cadastrado.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AcknowledgmentBoard;
@@ -1,47 +1,111 @@
-import React, { useState } from 'react';
-import { User, TimeEntry, Role } from '../types';
-import { AppConfig } from '../App';
-import TimeReport from './TimeReport';
+import React, { useState, useMemo } from 'react';
+import { User, TimeEntry, Role, ShiftPattern, HolidayCalendar, HourBankAdjustment, HourBankClosing, EmployerInfo, TimesheetAcknowledgment, CorrectionRequest, CorrectionRequestStatus, PunchAdjustment, PunchReceipt, WorkSite, AuditLog, AppConfig } from '../types';
+import TimeReport, { PunchAdjustmentDraft } from './TimeReport';
 import UserManagement from './UserManagement';
 import Settings from './Settings';
-import { ReportsIcon, UsersIcon, SettingsIcon } from './icons';
+import { WorkSiteDraft } from './WorkSiteSettings';
+import ShiftPatterns, { ShiftPatternDraft } from './ShiftPatterns';
+import HourBank, { HourBankAdjustmentDraft } from './HourBank';
+import AcknowledgmentBoard from './AcknowledgmentBoard';
+import CorrectionRequests from './CorrectionRequests';
+import AuditLogViewer from './AuditLogViewer';
+import { DEFAULT_HOUR_BANK_EXPIRY_MONTHS } from '../utils/hourBank';
+import { AuditChainReport } from '../utils/audit';
+import { DateRange } from '../utils/workday';
+import { TimeEntryLoader } from '../utils/punchAdjustments';
+import { ReportsIcon, UsersIcon, SettingsIcon, CalendarIcon, ClockIcon, CheckCircleIcon, EditIcon, ShieldIcon } from './icons';
 
 interface AdminDashboardProps {
   users: User[];
-  timeEntries: TimeEntry[];
+  timeEntries: TimeEntry[]; // Treated punches (originals with adjustments applied)
+  originalTimeEntries: TimeEntry[];
+  punchAdjustments: PunchAdjustment[];
+  punchReceipts: PunchReceipt[];
   // FIX: Renamed `password_hash` parameter to `password` for clarity.
   onAddUser: (user: Omit<User, 'id'>, password: string) => void;
-  // FIX: Renamed prop to follow camelCase convention.
-  onUpdateTimeEntry: (entry: TimeEntry) => void;
-  onDeleteTimeEntry: (entryId: string) => void;
-  onAddTimeEntry: (entry: Omit<TimeEntry, 'id'>) => void;
+  onUpdateObservation: (entry: TimeEntry) => void;
+  onAddPunchAdjustment: (adjustment: PunchAdjustmentDraft) => Promise<void>;
+  onReportPeriodChange: (range: DateRange) => void; // Period of the tab on screen, so only its punches are listened to
+  onLoadTimeEntries: TimeEntryLoader;
   onUpdateUser: (user: User) => void;
+  shiftPatterns: ShiftPattern[];
+  onSaveShiftPattern: (pattern: ShiftPatternDraft, assignedUserIds: string[]) => Promise<void>;
+  onDeleteShiftPattern: (patternId: string) => Promise<void>;
   appConfig: AppConfig;
   onUpdateAppConfig: (config: AppConfig) => void;
+  holidayCalendar: HolidayCalendar;
+  onUpdateHolidayCalendar: (calendar: HolidayCalendar) => Promise<void>;
+  workSites: WorkSite[];
+  onSaveWorkSite: (site: WorkSiteDraft, assignedUserIds: string[]) => Promise<void>;
+  onDeleteWorkSite: (siteId: string) => Promise<void>;
+  employerInfo: EmployerInfo;
+  onUpdateEmployerInfo: (employer: EmployerInfo) => Promise<void>;
+  hourBankAdjustments: HourBankAdjustment[];
+  onAddHourBankAdjustment: (adjustment: HourBankAdjustmentDraft) => Promise<void>;
+  hourBankClosings: HourBankClosing[];
+  onCloseHourBank: (untilMonth: string) => Promise<{ success: boolean; message: string }>;
+  timesheetAcknowledgments: TimesheetAcknowledgment[];
+  correctionRequests: CorrectionRequest[];
+  onReviewCorrectionRequest: (request: CorrectionRequest, approved: boolean, comment: string) => Promise<void>;
+  onLoadAuditLogs: (startDate: string, endDate: string) => Promise<AuditLog[]>;
+  onVerifyAuditChain: () => Promise<AuditChainReport>;
   onExportData: () => Promise<void>;
   onImportData: (fileContent: string) => Promise<{ success: boolean, message: string }>;
   onTriggerPasswordReset: (email: string) => Promise<{ success: boolean; message: string }>;
+  onRebuildUsernameIndex: () => Promise<{ success: boolean; message: string }>;
 }
 
-type Tab = 'reports' | 'users' | 'settings';
+type Tab = 'reports' | 'requests' | 'users' | 'shifts' | 'hourBank' | 'acknowledgments' | 'audit' | 'settings';
 
 const AdminDashboard: React.FC<AdminDashboardProps> = ({ 
     users, 
     timeEntries, 
+    originalTimeEntries,
+    punchAdjustments,
+    punchReceipts,
     onAddUser, 
-    onUpdateTimeEntry,
-    onDeleteTimeEntry,
-    onAddTimeEntry, 
+    onUpdateObservation,
+    onAddPunchAdjustment,
+    onReportPeriodChange,
+    onLoadTimeEntries,
     onUpdateUser, 
+    shiftPatterns,
+    onSaveShiftPattern,
+    onDeleteShiftPattern,
     appConfig, 
     onUpdateAppConfig,
+    holidayCalendar,
+    onUpdateHolidayCalendar,
+    workSites,
+    onSaveWorkSite,
+    onDeleteWorkSite,
+    employerInfo,
+    onUpdateEmployerInfo,
+    hourBankAdjustments,
+    onAddHourBankAdjustment,
+    hourBankClosings,
+    onCloseHourBank,
+    timesheetAcknowledgments,
+    correctionRequests,
+    onReviewCorrectionRequest,
+    onLoadAuditLogs,
+    onVerifyAuditChain,
     onExportData,
     onImportData,
     onTriggerPasswordReset,
+    onRebuildUsernameIndex,
 }) => {
   const [activeTab, setActiveTab] = useState<Tab>('reports');
 
-  const employeeUsers = users.filter(u => u.role === Role.EMPLOYEE);
+  const employeeUsers = useMemo(() => users.filter(u => u.role === Role.EMPLOYEE), [users]);
+  const pendingRequestCount = correctionRequests.filter(r => r.status === CorrectionRequestStatus.PENDING).length;
+  const workdayContext = useMemo(() => ({
+    users: employeeUsers,
+    workdayHours: appConfig.workdayHours,
+    shiftPatterns,
+    holidays: holidayCalendar,
+  }), [employeeUsers, appConfig.workdayHours, shiftPatterns, holidayCalendar]);
+  const hourBankExpiryMonths = appConfig.hourBankExpiryMonths ?? DEFAULT_HOUR_BANK_EXPIRY_MONTHS;
 
   return (
     <div className="space-y-6">
@@ -56,7 +120,12 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
             value={activeTab}
           >
             <option value="reports">Relatório de Ponto</option>
+            <option value="requests">Solicitações{pendingRequestCount > 0 ? ` (${pendingRequestCount})` : ''}</option>
             <option value="users">Gerenciar Funcionários</option>
+            <option value="shifts">Escalas</option>
+            <option value="hourBank">Banco de Horas</option>
+            <option value="acknowledgments">Espelhos</option>
+            <option value="audit">Auditoria</option>
             <option value="settings">Configurações</option>
           </select>
         </div>
@@ -74,6 +143,20 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                 <ReportsIcon />
                 <span>Relatório de Ponto</span>
               </button>
+              <button
+                onClick={() => setActiveTab('requests')}
+                className={`${
+                  activeTab === 'requests'
+                    ? 'border-highlight text-light'
+                    : 'border-transparent text-highlight hover:text-light hover:border-gray-500'
+                } whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm flex items-center space-x-2`}
+              >
+                <EditIcon />
+                <span>Solicitações</span>
+                {pendingRequestCount > 0 && (
+                  <span className="bg-yellow-600 text-white rounded-full px-2 py-0.5 text-xs font-bold">{pendingRequestCount}</span>
+                )}
+              </button>
               <button
                 onClick={() => setActiveTab('users')}
                 className={`${
@@ -85,6 +168,50 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                 <UsersIcon />
                 <span>Gerenciar Funcionários</span>
               </button>
+              <button
+                onClick={() => setActiveTab('shifts')}
+                className={`${
+                  activeTab === 'shifts'
+                    ? 'border-highlight text-light'
+                    : 'border-transparent text-highlight hover:text-light hover:border-gray-500'
+                } whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm flex items-center space-x-2`}
+              >
+                <CalendarIcon />
+                <span>Escalas</span>
+              </button>
+              <button
+                onClick={() => setActiveTab('hourBank')}
+                className={`${
+                  activeTab === 'hourBank'
+                    ? 'border-highlight text-light'
+                    : 'border-transparent text-highlight hover:text-light hover:border-gray-500'
+                } whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm flex items-center space-x-2`}
+              >
+                <ClockIcon />
+                <span>Banco de Horas</span>
+              </button>
+              <button
+                onClick={() => setActiveTab('acknowledgments')}
+                className={`${
+                  activeTab === 'acknowledgments'
+                    ? 'border-highlight text-light'
+                    : 'border-transparent text-highlight hover:text-light hover:border-gray-500'
+                } whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm flex items-center space-x-2`}
+              >
+                <CheckCircleIcon />
+                <span>Espelhos</span>
+              </button>
+              <button
+                onClick={() => setActiveTab('audit')}
+                className={`${
+                  activeTab === 'audit'
+                    ? 'border-highlight text-light'
+                    : 'border-transparent text-highlight hover:text-light hover:border-gray-500'
+                } whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm flex items-center space-x-2`}
+              >
+                <ShieldIcon />
+                <span>Auditoria</span>
+              </button>
               <button
                 onClick={() => setActiveTab('settings')}
                 className={`${
@@ -106,14 +233,60 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
           <TimeReport 
             users={employeeUsers} 
             timeEntries={timeEntries} 
-            onUpdateTimeEntry={onUpdateTimeEntry} 
-            onDeleteTimeEntry={onDeleteTimeEntry}
-            onAddTimeEntry={onAddTimeEntry}
+            originalTimeEntries={originalTimeEntries}
+            punchAdjustments={punchAdjustments}
+            punchReceipts={punchReceipts}
+            onUpdateObservation={onUpdateObservation}
+            onAddPunchAdjustment={onAddPunchAdjustment}
             workdayHours={appConfig.workdayHours}
+            shiftPatterns={shiftPatterns}
+            holidays={holidayCalendar}
+            hourBankAdjustments={hourBankAdjustments}
+            hourBankClosings={hourBankClosings}
+            hourBankExpiryMonths={hourBankExpiryMonths}
+            employerInfo={employerInfo}
+            onPeriodChange={onReportPeriodChange}
+            onLoadTimeEntries={onLoadTimeEntries}
           />
         )}
+        {activeTab === 'requests' && (
+          <CorrectionRequests users={employeeUsers} requests={correctionRequests} onReview={onReviewCorrectionRequest} />
+        )}
         {activeTab === 'users' && (
-          <UserManagement users={users} onAddUser={onAddUser} onUpdateUser={onUpdateUser} onTriggerPasswordReset={onTriggerPasswordReset} />
+          <UserManagement users={users} onAddUser={onAddUser} onUpdateUser={onUpdateUser} onTriggerPasswordReset={onTriggerPasswordReset} onRebuildUsernameIndex={onRebuildUsernameIndex} workdayHours={appConfig.workdayHours} />
+        )}
+        {activeTab === 'shifts' && (
+          <ShiftPatterns users={employeeUsers} shiftPatterns={shiftPatterns} onSave={onSaveShiftPattern} onDelete={onDeleteShiftPattern} />
+        )}
+        {activeTab === 'hourBank' && (
+          <HourBank
+            users={employeeUsers}
+            timeEntries={timeEntries}
+            adjustments={hourBankAdjustments}
+            closings={hourBankClosings}
+            workdayHours={appConfig.workdayHours}
+            shiftPatterns={shiftPatterns}
+            holidays={holidayCalendar}
+            expiryMonths={hourBankExpiryMonths}
+            onAddAdjustment={onAddHourBankAdjustment}
+            onClose={onCloseHourBank}
+            onPeriodChange={onReportPeriodChange}
+          />
+        )}
+        {activeTab === 'acknowledgments' && (
+          <AcknowledgmentBoard
+            users={employeeUsers}
+            timeEntries={timeEntries}
+            hourBankAdjustments={hourBankAdjustments}
+            hourBankClosings={hourBankClosings}
+            context={workdayContext}
+            hourBankExpiryMonths={hourBankExpiryMonths}
+            acknowledgments={timesheetAcknowledgments}
+            onPeriodChange={onReportPeriodChange}
+          />
+        )}
+        {activeTab === 'audit' && (
+          <AuditLogViewer users={users} onLoad={onLoadAuditLogs} onVerify={onVerifyAuditChain} />
         )}
         {activeTab === 'settings' && (
           <Settings 
@@ -121,6 +294,14 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
             onSave={onUpdateAppConfig} 
             onExport={onExportData}
             onImport={onImportData}
+            holidayCalendar={holidayCalendar}
+            onSaveHolidayCalendar={onUpdateHolidayCalendar}
+            employer={employerInfo}
+            onSaveEmployer={onUpdateEmployerInfo}
+            workSites={workSites}
+            users={employeeUsers}
+            onSaveWorkSite={onSaveWorkSite}
+            onDeleteWorkSite={onDeleteWorkSite}
           />
         )}
       </div>
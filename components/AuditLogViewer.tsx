@@ -0,0 +1,279 @@
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import { User, AuditLog } from '../types';
+import { formatDateKey, addDays } from '../utils/date';
+import { AUDIT_ACTION_LABELS, getAuditActionLabel, getAuditTargetUserId, diffAuditDetails, formatAuditValue, summarizeAuditDetails, buildAuditCsv, AuditChainReport } from '../utils/audit';
+import { ExcelIcon, CheckCircleIcon, WarningIcon } from './icons';
+
+interface AuditLogViewerProps {
+    users: User[];
+    onLoad: (startDate: string, endDate: string) => Promise<AuditLog[]>;
+    onVerify: () => Promise<AuditChainReport>;
+}
+
+const PAGE_SIZE = 25;
+const MAX_LISTED_ISSUES = 50;
+const ANONYMOUS_ACTOR = 'anonymous';
+
+const selectClassName = "w-full bg-primary border border-accent rounded-md px-3 py-1.5 text-light text-sm focus:ring-highlight focus:border-highlight";
+
+const AuditLogViewer: React.FC<AuditLogViewerProps> = ({ users, onLoad, onVerify }) => {
+    const [range, setRange] = useState(() => {
+        const today = formatDateKey(new Date());
+        return { startDate: addDays(today, -6), endDate: today };
+    });
+    const [filters, setFilters] = useState({ actorId: 'all', action: 'all', targetUserId: 'all' });
+    const [logs, setLogs] = useState<AuditLog[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [page, setPage] = useState(0);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [chainReport, setChainReport] = useState<AuditChainReport | null>(null);
+    const [isVerifying, setIsVerifying] = useState(false);
+
+    const load = useCallback(async () => {
+        if (!range.startDate || !range.endDate || range.startDate > range.endDate) {
+            setError('Informe um período válido.');
+            return;
+        }
+        setIsLoading(true);
+        setError('');
+        try {
+            setLogs(await onLoad(range.startDate, range.endDate));
+            setPage(0);
+        } catch (err) {
+            console.error("Error loading audit logs:", err);
+            setError('Não foi possível carregar os registros de auditoria.');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [onLoad, range]);
+
+    // Loads the default period once; later periods are loaded with the search button
+    useEffect(() => {
+        load();
+    }, []);
+
+    const userNames = useMemo(() => {
+        const names: { [userId: string]: string } = {};
+        users.forEach(user => { names[user.id] = user.name; });
+        return names;
+    }, [users]);
+
+    // Known actions plus any other code seen in the period, so legacy actions can still be filtered
+    const actionOptions = useMemo(() => {
+        const actions = new Set([...logs.map(log => log.action), ...Object.keys(AUDIT_ACTION_LABELS)]);
+        return [...actions].sort((a, b) => getAuditActionLabel(a).localeCompare(getAuditActionLabel(b)));
+    }, [logs]);
+
+    const filteredLogs = useMemo(() => logs.filter(log =>
+        (filters.actorId === 'all' || log.actorId === filters.actorId) &&
+        (filters.action === 'all' || log.action === filters.action) &&
+        (filters.targetUserId === 'all' || getAuditTargetUserId(log) === filters.targetUserId)
+    ), [logs, filters]);
+
+    const pageCount = Math.max(1, Math.ceil(filteredLogs.length / PAGE_SIZE));
+    const pageLogs = filteredLogs.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+    const handleFilterChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        setFilters({ ...filters, [e.target.name]: e.target.value });
+        setPage(0);
+    };
+
+    const handleVerify = async () => {
+        setIsVerifying(true);
+        setChainReport(null);
+        try {
+            setChainReport(await onVerify());
+        } catch (err) {
+            console.error("Error verifying audit chain:", err);
+            setError('Não foi possível verificar a cadeia de auditoria.');
+        } finally {
+            setIsVerifying(false);
+        }
+    };
+
+    const handleExportCsv = () => {
+        const blob = new Blob([buildAuditCsv(filteredLogs, userNames)], { type: 'text/csv;charset=utf-8' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `auditoria_${range.startDate}_${range.endDate}.csv`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="bg-secondary p-4 sm:p-6 rounded-lg shadow-lg space-y-6">
+            <div className="md:flex justify-between items-start gap-4">
+                <div>
+                    <h2 className="text-2xl font-bold text-light">Auditoria</h2>
+                    <p className="text-sm text-highlight">Ações registradas no sistema: acessos, marcações, tratamentos e alterações de cadastro.</p>
+                </div>
+                <div className="flex space-x-2 mt-4 md:mt-0">
+                    <button
+                        onClick={handleVerify}
+                        disabled={isVerifying}
+                        className="py-2 px-4 border border-accent rounded-md text-sm font-medium text-light hover:bg-accent transition disabled:opacity-50 whitespace-nowrap"
+                    >
+                        {isVerifying ? 'Verificando...' : 'Verificar Integridade'}
+                    </button>
+                    <button
+                        onClick={handleExportCsv}
+                        disabled={filteredLogs.length === 0}
+                        className="flex items-center space-x-2 py-2 px-4 rounded-md text-sm font-medium text-white bg-accent hover:bg-highlight transition disabled:bg-gray-500 whitespace-nowrap"
+                    >
+                        <ExcelIcon />
+                        <span>Exportar CSV</span>
+                    </button>
+                </div>
+            </div>
+
+            {chainReport && (
+                <div className={`p-4 rounded-md ${chainReport.issues.length === 0 ? 'bg-green-900/50' : 'bg-red-900/50'}`}>
+                    <div className="flex items-center space-x-2">
+                        {chainReport.issues.length === 0 ? <CheckCircleIcon /> : <WarningIcon />}
+                        <p className="text-sm font-semibold text-light">
+                            {chainReport.issues.length === 0
+                                ? `Cadeia íntegra: ${chainReport.chainedCount} registro(s) encadeado(s).`
+                                : `${chainReport.issues.length} problema(s) encontrado(s) em ${chainReport.chainedCount} registro(s) encadeado(s).`}
+                        </p>
+                    </div>
+                    {chainReport.legacyCount > 0 && (
+                        <p className="text-xs text-highlight mt-1">{chainReport.legacyCount} registro(s) anterior(es) ao encadeamento não podem ser verificados.</p>
+                    )}
+                    {chainReport.issues.length > 0 && (
+                        <ul className="mt-2 space-y-1 text-sm text-red-200 list-disc list-inside">
+                            {chainReport.issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => <li key={index}>{issue.message}</li>)}
+                            {chainReport.issues.length > MAX_LISTED_ISSUES && <li>e mais {chainReport.issues.length - MAX_LISTED_ISSUES}.</li>}
+                        </ul>
+                    )}
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-4 items-end">
+                <div>
+                    <label htmlFor="audit-start" className="block text-xs font-medium text-highlight mb-1">De</label>
+                    <input id="audit-start" type="date" value={range.startDate} onChange={(e) => setRange({ ...range, startDate: e.target.value })} className={selectClassName} />
+                </div>
+                <div>
+                    <label htmlFor="audit-end" className="block text-xs font-medium text-highlight mb-1">Até</label>
+                    <input id="audit-end" type="date" value={range.endDate} onChange={(e) => setRange({ ...range, endDate: e.target.value })} className={selectClassName} />
+                </div>
+                <div>
+                    <label htmlFor="audit-actor" className="block text-xs font-medium text-highlight mb-1">Ator</label>
+                    <select id="audit-actor" name="actorId" value={filters.actorId} onChange={handleFilterChange} className={selectClassName}>
+                        <option value="all">Todos</option>
+                        {users.map(user => <option key={user.id} value={user.id}>{user.name}</option>)}
+                        <option value={ANONYMOUS_ACTOR}>Sistema (não autenticado)</option>
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="audit-action" className="block text-xs font-medium text-highlight mb-1">Ação</label>
+                    <select id="audit-action" name="action" value={filters.action} onChange={handleFilterChange} className={selectClassName}>
+                        <option value="all">Todas</option>
+                        {actionOptions.map(action => <option key={action} value={action}>{getAuditActionLabel(action)}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="audit-target" className="block text-xs font-medium text-highlight mb-1">Funcionário afetado</label>
+                    <select id="audit-target" name="targetUserId" value={filters.targetUserId} onChange={handleFilterChange} className={selectClassName}>
+                        <option value="all">Todos</option>
+                        {users.map(user => <option key={user.id} value={user.id}>{user.name}</option>)}
+                    </select>
+                </div>
+                <button
+                    onClick={load}
+                    disabled={isLoading}
+                    className="py-1.5 px-4 rounded-md text-sm font-medium text-white bg-accent hover:bg-highlight transition disabled:bg-gray-500"
+                >
+                    {isLoading ? 'Carregando...' : 'Buscar'}
+                </button>
+            </div>
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+
+            <div className="space-y-2">
+                {pageLogs.map(log => {
+                    const targetUserId = getAuditTargetUserId(log);
+                    const changes = diffAuditDetails(log.details);
+                    const summary = summarizeAuditDetails(log.details);
+                    const isExpanded = expandedId === log.id;
+                    return (
+                        <div key={log.id} className="bg-primary p-3 rounded-md">
+                            <button type="button" onClick={() => setExpandedId(isExpanded ? null : log.id)} className="w-full text-left">
+                                <div className="flex flex-col sm:flex-row sm:justify-between gap-1">
+                                    <p className="text-sm text-light">
+                                        <span className="font-semibold">{getAuditActionLabel(log.action)}</span>
+                                        <span className="text-highlight"> · {log.actorName}</span>
+                                        {targetUserId && targetUserId !== log.actorId && (
+                                            <span className="text-highlight"> → {userNames[targetUserId] ?? targetUserId}</span>
+                                        )}
+                                    </p>
+                                    <span className="text-xs text-highlight whitespace-nowrap">
+                                        {log.sequence !== undefined ? `#${log.sequence} · ` : ''}{log.timestamp.toLocaleString('pt-BR')}
+                                    </span>
+                                </div>
+                                {changes.length > 0 && !isExpanded && (
+                                    <p className="text-xs text-gray-400 mt-1">{changes.length} campo(s) alterado(s)</p>
+                                )}
+                            </button>
+                            {isExpanded && (
+                                <div className="mt-3 space-y-3">
+                                    {changes.length > 0 && (
+                                        <table className="min-w-full text-xs">
+                                            <thead>
+                                                <tr className="text-highlight text-left">
+                                                    <th className="pr-4 py-1 font-medium">Campo</th>
+                                                    <th className="pr-4 py-1 font-medium">Antes</th>
+                                                    <th className="py-1 font-medium">Depois</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {changes.map(change => (
+                                                    <tr key={change.field} className="border-t border-accent align-top">
+                                                        <td className="pr-4 py-1 text-highlight font-mono">{change.field}</td>
+                                                        <td className="pr-4 py-1 text-red-300 break-all">{formatAuditValue(change.before)}</td>
+                                                        <td className="py-1 text-green-300 break-all">{formatAuditValue(change.after)}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    )}
+                                    {summary && <p className="text-xs text-gray-400 break-all">{summary}</p>}
+                                    <p className="text-xs text-gray-500">Código: {log.action}</p>
+                                    {log.hash && <p className="text-xs text-gray-500 font-mono break-all">Hash: {log.hash}</p>}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+                {!isLoading && filteredLogs.length === 0 && (
+                    <div className="px-6 py-10 text-center text-highlight">Nenhum registro encontrado no período.</div>
+                )}
+            </div>
+
+            {filteredLogs.length > PAGE_SIZE && (
+                <div className="flex justify-between items-center text-sm text-highlight">
+                    <span>{filteredLogs.length} registro(s) · página {page + 1} de {pageCount}</span>
+                    <div className="flex space-x-2">
+                        <button
+                            onClick={() => setPage(page - 1)}
+                            disabled={page === 0}
+                            className="py-1 px-3 border border-accent rounded-md text-light hover:bg-accent transition disabled:opacity-50"
+                        >
+                            Anterior
+                        </button>
+                        <button
+                            onClick={() => setPage(page + 1)}
+                            disabled={page >= pageCount - 1}
+                            className="py-1 px-3 border border-accent rounded-md text-light hover:bg-accent transition disabled:opacity-50"
+                        >
+                            Próxima
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AuditLogViewer;
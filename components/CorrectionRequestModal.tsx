@@ -0,0 +1,112 @@
+import React, { useState, useMemo } from 'react';
+import { TimeEntryType, CorrectionRequestType } from '../types';
+import Modal from './Modal';
+import { ProcessedDay, numberPunches, isPunchType, formatTime, resolvePunchTimestamp } from '../utils/workday';
+
+export interface CorrectionRequestDraft {
+    dateKey: string;
+    requestType: CorrectionRequestType;
+    entryType: TimeEntryType;
+    entryId?: string;
+    originalTimestamp?: Date;
+    requestedTimestamp: Date;
+    justification: string;
+}
+
+interface CorrectionRequestModalProps {
+    day: ProcessedDay;
+    onClose: () => void;
+    onSubmit: (request: CorrectionRequestDraft) => Promise<void>;
+}
+
+const PUNCH_TYPES = [TimeEntryType.ENTRADA, TimeEntryType.INICIO_INTERVALO, TimeEntryType.FIM_INTERVALO, TimeEntryType.SAIDA];
+
+const CorrectionRequestModal: React.FC<CorrectionRequestModalProps> = ({ day, onClose, onSubmit }) => {
+    const punches = useMemo(() => day.originalEntries.filter(e => isPunchType(e.type)), [day.originalEntries]);
+    const punchLabels = useMemo(() => numberPunches(day.originalEntries), [day.originalEntries]);
+
+    const [requestType, setRequestType] = useState(punches.length > 0 ? CorrectionRequestType.CHANGE_TIME : CorrectionRequestType.ADD_PUNCH);
+    const [entryId, setEntryId] = useState(punches[0]?.id ?? '');
+    const [entryType, setEntryType] = useState(TimeEntryType.ENTRADA);
+    const [time, setTime] = useState('');
+    const [justification, setJustification] = useState('');
+    const [isProcessing, setIsProcessing] = useState(false);
+
+    const selectedPunch = punches.find(p => p.id === entryId);
+    const isValid = !!time && !!justification.trim() && (requestType === CorrectionRequestType.ADD_PUNCH || !!selectedPunch);
+
+    const handleSubmit = async () => {
+        if (!isValid) return;
+        const type = requestType === CorrectionRequestType.CHANGE_TIME ? selectedPunch!.type : entryType;
+        setIsProcessing(true);
+        await onSubmit({
+            dateKey: day.dateKey,
+            requestType,
+            entryType: type,
+            ...(requestType === CorrectionRequestType.CHANGE_TIME ? { entryId: selectedPunch!.id, originalTimestamp: selectedPunch!.timestamp } : {}),
+            requestedTimestamp: resolvePunchTimestamp(day.dateKey, time, type, day.entrada),
+            justification: justification.trim(),
+        });
+        setIsProcessing(false);
+        onClose();
+    };
+
+    const inputClassName = "mt-1 block w-full bg-primary border border-accent rounded-md shadow-sm py-2 px-3 text-light focus:outline-none focus:ring-highlight focus:border-highlight sm:text-sm";
+
+    return (
+        <Modal isOpen={true} onClose={onClose} title={`Solicitar Ajuste - ${day.date}`}>
+            <div className="space-y-4">
+                <div>
+                    <label htmlFor="correction-type" className="block text-sm font-medium text-highlight">O que precisa ser corrigido?</label>
+                    <select id="correction-type" value={requestType} onChange={(e) => setRequestType(e.target.value as CorrectionRequestType)} className={inputClassName}>
+                        <option value={CorrectionRequestType.ADD_PUNCH}>Esqueci de registrar uma marcação</option>
+                        {punches.length > 0 && <option value={CorrectionRequestType.CHANGE_TIME}>Uma marcação está com horário errado</option>}
+                    </select>
+                </div>
+
+                {requestType === CorrectionRequestType.CHANGE_TIME ? (
+                    <div>
+                        <label htmlFor="correction-entry" className="block text-sm font-medium text-highlight">Marcação</label>
+                        <select id="correction-entry" value={entryId} onChange={(e) => setEntryId(e.target.value)} className={inputClassName}>
+                            {punches.map(p => <option key={p.id} value={p.id}>{punchLabels[p.id] || p.type} — {formatTime(p.timestamp)}</option>)}
+                        </select>
+                    </div>
+                ) : (
+                    <div>
+                        <label htmlFor="correction-entry-type" className="block text-sm font-medium text-highlight">Tipo de Marcação</label>
+                        <select id="correction-entry-type" value={entryType} onChange={(e) => setEntryType(e.target.value as TimeEntryType)} className={inputClassName}>
+                            {PUNCH_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                        </select>
+                    </div>
+                )}
+
+                <div>
+                    <label htmlFor="correction-time" className="block text-sm font-medium text-highlight">Horário Correto</label>
+                    <input id="correction-time" type="time" value={time} onChange={(e) => setTime(e.target.value)} className={inputClassName} />
+                </div>
+                <div>
+                    <label htmlFor="correction-justification" className="block text-sm font-medium text-highlight">Justificativa</label>
+                    <textarea id="correction-justification" rows={3} value={justification} onChange={(e) => setJustification(e.target.value)} className={inputClassName} placeholder="Ex: Esqueci de registrar a saída, saí às 17h" />
+                </div>
+            </div>
+            <div className="mt-6 flex justify-end space-x-4">
+                <button
+                    onClick={onClose}
+                    disabled={isProcessing}
+                    className="py-2 px-4 border border-accent rounded-md shadow-sm text-sm font-medium text-light hover:bg-accent focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-secondary focus:ring-highlight transition disabled:opacity-50"
+                >
+                    Cancelar
+                </button>
+                <button
+                    onClick={handleSubmit}
+                    disabled={isProcessing || !isValid}
+                    className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-accent hover:bg-highlight focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-secondary focus:ring-highlight transition disabled:bg-gray-500"
+                >
+                    {isProcessing ? 'Enviando...' : 'Enviar Solicitação'}
+                </button>
+            </div>
+        </Modal>
+    );
+};
+
+export default CorrectionRequestModal;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { User, CorrectionRequest, CorrectionRequestStatus, CorrectionRequestType } from '../types';
+import { formatTime } from '../utils/workday';
+import { dateKeyToDisplay } from '../utils/date';
+
+interface CorrectionRequestsProps {
+  users: User[];
+  requests: CorrectionRequest[];
+  onReview: (request: CorrectionRequest, approved: boolean, comment: string) => Promise<void>;
+}
+
+export const correctionStatusStyles: Record<CorrectionRequestStatus, string> = {
+  [CorrectionRequestStatus.PENDING]: 'bg-yellow-600',
+  [CorrectionRequestStatus.APPROVED]: 'bg-green-600',
+  [CorrectionRequestStatus.REJECTED]: 'bg-red-600',
+};
+
+// "Saída: 17:00 → 17:45" or "Saída: 17:45" for a new punch
+export const describeCorrection = (request: CorrectionRequest) => request.requestType === CorrectionRequestType.CHANGE_TIME
+  ? `${request.entryType}: ${formatTime(request.originalTimestamp)} → ${formatTime(request.requestedTimestamp)}`
+  : `${request.entryType}: ${formatTime(request.requestedTimestamp)}`;
+
+const CorrectionRequests: React.FC<CorrectionRequestsProps> = ({ users, requests, onReview }) => {
+  const [showAll, setShowAll] = useState(false);
+  const [comments, setComments] = useState<{ [requestId: string]: string }>({});
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const visibleRequests = requests
+    .filter(r => showAll || r.status === CorrectionRequestStatus.PENDING)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+  const handleReview = async (request: CorrectionRequest, approved: boolean) => {
+    const comment = (comments[request.id] || '').trim();
+    if (!approved && !comment) {
+      alert("Informe o motivo da rejeição.");
+      return;
+    }
+    setProcessingId(request.id);
+    await onReview(request, approved, comment);
+    setProcessingId(null);
+  };
+
+  return (
+    <div className="bg-secondary p-4 sm:p-6 rounded-lg shadow-lg space-y-6">
+      <div className="md:flex justify-between items-start gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-light">Solicitações de Ajuste</h2>
+          <p className="text-sm text-highlight">Marcações esquecidas ou com horário errado, enviadas pelos funcionários.</p>
+        </div>
+        <label className="flex items-center space-x-2 text-sm text-light mt-4 md:mt-0">
+          <input
+            type="checkbox"
+            checked={showAll}
+            onChange={(e) => setShowAll(e.target.checked)}
+            className="h-4 w-4 text-highlight bg-secondary border-accent rounded focus:ring-highlight"
+          />
+          <span>Mostrar já analisadas</span>
+        </label>
+      </div>
+
+      <div className="space-y-4">
+        {visibleRequests.map(request => {
+          const user = users.find(u => u.id === request.userId);
+          const isPending = request.status === CorrectionRequestStatus.PENDING;
+          return (
+            <div key={request.id} className="bg-primary p-4 rounded-lg shadow">
+              <div className="flex justify-between items-start gap-4">
+                <div>
+                  <h3 className="font-bold text-light">{user?.name || 'N/A'} <span className="text-sm font-normal text-highlight">· {dateKeyToDisplay(request.dateKey)}</span></h3>
+                  <p className="text-sm text-light mt-1">{request.requestType} — {describeCorrection(request)}</p>
+                  <p className="text-sm text-highlight italic mt-1">"{request.justification}"</p>
+                  <p className="text-xs text-gray-400 mt-1">Enviada em {request.createdAt.toLocaleString('pt-BR')}</p>
+                </div>
+                <span className={`${correctionStatusStyles[request.status]} text-white px-2 py-0.5 rounded text-xs font-bold whitespace-nowrap`}>{request.status}</span>
+              </div>
+
+              {isPending ? (
+                <div className="mt-3 flex flex-col sm:flex-row gap-2">
+                  <input
+                    type="text"
+                    value={comments[request.id] || ''}
+                    onChange={(e) => setComments(prev => ({ ...prev, [request.id]: e.target.value }))}
+                    className="flex-1 bg-secondary border border-accent rounded-md px-3 py-1.5 text-light text-sm focus:ring-highlight focus:border-highlight"
+                    placeholder="Comentário (obrigatório para rejeitar)"
+                  />
+                  <button
+                    onClick={() => handleReview(request, true)}
+                    disabled={processingId === request.id}
+                    className="py-1.5 px-4 rounded-md text-sm font-medium text-white bg-green-600 hover:bg-green-700 transition disabled:bg-gray-500"
+                  >
+                    Aprovar
+                  </button>
+                  <button
+                    onClick={() => handleReview(request, false)}
+                    disabled={processingId === request.id}
+                    className="py-1.5 px-4 rounded-md text-sm font-medium text-white bg-red-600 hover:bg-red-700 transition disabled:bg-gray-500"
+                  >
+                    Rejeitar
+                  </button>
+                </div>
+              ) : (
+                <p className="mt-3 text-xs text-highlight">
+                  {request.status} por {request.reviewedByName || 'N/A'}{request.reviewedAt ? ` em ${request.reviewedAt.toLocaleString('pt-BR')}` : ''}
+                  {request.reviewComment ? ` — "${request.reviewComment}"` : ''}
+                </p>
+              )}
+            </div>
+          );
+        })}
+        {visibleRequests.length === 0 && (
+          <div className="px-6 py-10 text-center text-highlight">Nenhuma solicitação {showAll ? '' : 'pendente'}.</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CorrectionRequests;
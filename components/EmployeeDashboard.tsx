@@ -1,60 +1,53 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { User, TimeEntry, TimeEntryType } from '../types';
-import { AppConfig } from '../App';
+import { User, TimeEntry, TimeEntryType, ShiftPattern, HolidayCalendar, HourBankAdjustment, HourBankClosing, EmployerInfo, TimesheetAcknowledgment, AcknowledgmentStatus, CorrectionRequest, WorkSite, LocationCheck, PunchReceipt, AppConfig } from '../types';
 import Modal from './Modal';
-import { EditIcon, ClockIcon, EyeIcon, EyeOffIcon, CalendarIcon } from './icons';
+import HourBankSummary from './HourBankSummary';
+import TimesheetAcknowledgmentCard from './TimesheetAcknowledgmentCard';
+import PunchReceiptsCard from './PunchReceiptsCard';
+import CorrectionRequestModal, { CorrectionRequestDraft } from './CorrectionRequestModal';
+import { correctionStatusStyles, describeCorrection } from './CorrectionRequests';
+import { ProcessedDay, DateRange, processWorkdaysInRange, sumWorkedHours, getCurrentWorkdayEntries, getAllowedNextTypes, getLastPunchType, formatTime, formatBreakTimes, numberPunches } from '../utils/workday';
+import { formatDateKey, dateKeyToDisplay, MONTH_NAMES } from '../utils/date';
+import { buildHourBankStatements, DEFAULT_HOUR_BANK_EXPIRY_MONTHS } from '../utils/hourBank';
+import { describePunchTreatment, TimeEntryLoader } from '../utils/punchAdjustments';
+import { PendingPunch } from '../utils/offlineQueue';
+import { matchSite } from '../utils/geo';
+import { DEFAULT_MAX_CLOCK_SKEW_MINUTES, isSkewExceeded, formatSkew } from '../utils/clock';
+import { EditIcon, ClockIcon, EyeIcon, EyeOffIcon, CalendarIcon, PlusCircleIcon } from './icons';
 
 interface EmployeeDashboardProps {
   user: User;
   timeEntries: TimeEntry[];
   onAddTimeEntry: (entry: Omit<TimeEntry, 'id'>) => void;
-  // FIX: Renamed prop to follow camelCase convention.
-  onUpdateTimeEntry: (entry: TimeEntry) => void;
+  pendingPunches: PendingPunch[];
+  punchReceipts: PunchReceipt[];
+  onUpdateObservation: (entry: TimeEntry) => void;
   onChangePassword: (currentPassword: string, newPassword: string) => Promise<{ success: boolean; message: string; }>;
+  shiftPatterns: ShiftPattern[];
+  holidays: HolidayCalendar;
+  hourBankAdjustments: HourBankAdjustment[];
+  hourBankClosings: HourBankClosing[];
+  employerInfo: EmployerInfo;
+  timesheetAcknowledgments: TimesheetAcknowledgment[];
+  onAcknowledgeTimesheet: (month: string, status: AcknowledgmentStatus, comment: string, contentHash: string) => Promise<{ success: boolean; message: string }>;
+  correctionRequests: CorrectionRequest[];
+  onSubmitCorrectionRequest: (request: CorrectionRequestDraft) => Promise<void>;
+  workSites: WorkSite[]; // Sites this employee may punch at
+  clockSkewMs?: number;
   appConfig: AppConfig;
+  onPeriodChange: (range: DateRange) => void; // Month being viewed, so only its punches are listened to
+  onLoadTimeEntries: TimeEntryLoader; // Punches of the espelho being acknowledged
 }
 
-interface ProcessedDayEntry {
-    date: string;
-    entrada?: Date;
-    inicioIntervalo?: Date;
-    fimIntervalo?: Date;
-    saida?: Date;
-    workedHours: number;
-    balance: number;
-    status: string;
-    observation: string;
-    originalEntries: TimeEntry[];
-}
-
-const isSameDay = (d1: Date, d2: Date) => {
-    return d1.getFullYear() === d2.getFullYear() &&
-           d1.getMonth() === d2.getMonth() &&
-           d1.getDate() === d2.getDate();
-}
-
-
-// Haversine formula to calculate distance
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number) {
-    const R = 6371e3; // metres
-    const φ1 = lat1 * Math.PI / 180;
-    const φ2 = lat2 * Math.PI / 180;
-    const Δφ = (lat2 - lat1) * Math.PI / 180;
-    const Δλ = (lon2 - lon1) * Math.PI / 180;
-
-    const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-              Math.cos(φ1) * Math.cos(φ2) *
-              Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c; // in metres
-}
-
-const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, timeEntries, onAddTimeEntry, onUpdateTimeEntry, onChangePassword, appConfig }) => {
+const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, timeEntries, onAddTimeEntry, pendingPunches, punchReceipts, onUpdateObservation, onChangePassword, shiftPatterns, holidays, hourBankAdjustments, hourBankClosings, employerInfo, timesheetAcknowledgments, onAcknowledgeTimesheet, correctionRequests, onSubmitCorrectionRequest, workSites, clockSkewMs, appConfig, onPeriodChange, onLoadTimeEntries }) => {
   const [observation, setObservation] = useState('');
-  const [editingDay, setEditingDay] = useState<ProcessedDayEntry | null>(null);
+  const [editingDay, setEditingDay] = useState<ProcessedDay | null>(null);
+  const [correctionDay, setCorrectionDay] = useState<ProcessedDay | null>(null);
   const [locationState, setLocationState] = useState<'checking' | 'allowed' | 'denied' | 'error'>('checking');
   const [locationError, setLocationError] = useState<string | null>(null);
+  const [locationCheck, setLocationCheck] = useState<LocationCheck | null>(null);
+  const [matchedSite, setMatchedSite] = useState<WorkSite | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [isChangePasswordModalOpen, setIsChangePasswordModalOpen] = useState(false);
   const [filters, setFilters] = useState(() => {
     const today = new Date();
@@ -71,23 +64,40 @@ const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, timeEntries
       return;
     }
 
-    const { latitude: targetLatitude, longitude: targetLongitude, radius: allowedRadius } = appConfig;
+    // Until sites are registered, the single point from the general settings is the workplace
+    const sites: WorkSite[] = workSites.length > 0
+      ? workSites
+      : [{ id: '', name: 'local de trabalho', latitude: appConfig.latitude, longitude: appConfig.longitude, radius: appConfig.radius }];
 
-    navigator.geolocation.getCurrentPosition(
+    // Watched rather than read once, so the evidence saved with a punch is the latest position
+    const watchId = navigator.geolocation.watchPosition(
       (position) => {
-        const { latitude, longitude } = position.coords;
-        const distance = calculateDistance(latitude, longitude, targetLatitude, targetLongitude);
+        const { latitude, longitude, accuracy } = position.coords;
+        const match = matchSite(latitude, longitude, sites)!;
+        setLocationCheck({
+          status: match.isInside ? 'allowed' : 'denied',
+          latitude,
+          longitude,
+          accuracy: Math.round(accuracy),
+          distance: Math.round(match.distance),
+          siteLatitude: match.site.latitude,
+          siteLongitude: match.site.longitude,
+          siteRadius: match.site.radius,
+        });
 
-        if (distance <= allowedRadius) {
+        if (match.isInside) {
           setLocationState('allowed');
           setLocationError(null);
+          setMatchedSite(match.site.id ? match.site : null);
         } else {
           setLocationState('denied');
-          setLocationError(`Você está a ${distance.toFixed(0)} metros do local de trabalho. O raio permitido é de ${allowedRadius}m.`);
+          setMatchedSite(null);
+          setLocationError(`Você está a ${match.distance.toFixed(0)} metros de ${match.site.name}. O raio permitido é de ${match.site.radius}m.`);
         }
       },
       (error) => {
         setLocationState('error');
+        setLocationCheck(null);
         switch (error.code) {
           case error.PERMISSION_DENIED:
             setLocationError('Permissão de localização negada. Habilite para registrar o ponto.');
@@ -105,18 +115,32 @@ const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, timeEntries
       },
       { timeout: 10000, enableHighAccuracy: true }
     );
-  }, [appConfig]);
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [appConfig, workSites]);
+
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
+  // Queued punches drop out once Firestore reports them, even before the queue is refreshed
+  const unsyncedPunches = useMemo(() => {
+    return pendingPunches.filter(p => !timeEntries.some(e => e.id === p.id));
+  }, [pendingPunches, timeEntries]);
   
-  const todayEntries = useMemo(() => {
-    const now = new Date();
-    return timeEntries
-      .filter(entry => isSameDay(entry.timestamp, now))
-      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-  }, [timeEntries]);
+  const currentShiftEntries = useMemo(() => {
+    const pendingEntries: TimeEntry[] = unsyncedPunches.map(p => ({ id: p.id, userId: p.userId, timestamp: p.capturedAt, type: p.type, observation: p.observation }));
+    return getCurrentWorkdayEntries([...timeEntries, ...pendingEntries]);
+  }, [timeEntries, unsyncedPunches]);
   
-  const lastAction = useMemo(() => {
-    return todayEntries.length > 0 ? todayEntries[todayEntries.length - 1].type : null;
-  }, [todayEntries]);
+  const allowedNextTypes = useMemo(() => {
+    return getAllowedNextTypes(getLastPunchType(currentShiftEntries));
+  }, [currentShiftEntries]);
 
   const handleRegister = (type: TimeEntryType) => {
     onAddTimeEntry({
@@ -124,93 +148,55 @@ const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, timeEntries
       timestamp: new Date(),
       type,
       observation,
+      ...(locationCheck ? { locationCheck } : {}),
+      ...(matchedSite ? { siteId: matchedSite.id, siteName: matchedSite.name } : {}),
     });
     setObservation('');
   };
 
-  const actionButtons = [
-    { type: TimeEntryType.ENTRADA, label: 'Registrar Entrada', enabled: !lastAction || lastAction === TimeEntryType.SAIDA },
-    { type: TimeEntryType.INICIO_INTERVALO, label: 'Início Intervalo', enabled: lastAction === TimeEntryType.ENTRADA },
-    { type: TimeEntryType.FIM_INTERVALO, label: 'Fim Intervalo', enabled: lastAction === TimeEntryType.INICIO_INTERVALO },
-    { type: TimeEntryType.SAIDA, label: 'Registrar Saída', enabled: lastAction === TimeEntryType.ENTRADA || lastAction === TimeEntryType.FIM_INTERVALO },
-  ];
-
-  const processedDailyEntries: ProcessedDayEntry[] = useMemo(() => {
-    const groupedByDay: { [key: string]: TimeEntry[] } = {};
-
-    const formatDateKey = (date: Date) => {
-        const y = date.getFullYear();
-        const m = String(date.getMonth() + 1).padStart(2, '0');
-        const d = String(date.getDate()).padStart(2, '0');
-        return `${y}-${m}-${d}`;
-    };
-
-    timeEntries.forEach(entry => {
-      const dateKey = formatDateKey(entry.timestamp);
-      if (!groupedByDay[dateKey]) {
-        groupedByDay[dateKey] = [];
-      }
-      groupedByDay[dateKey].push(entry);
-    });
-
-    const processed = Object.entries(groupedByDay).map(([dateKey, dayEntries]) => {
-        const sortedEntries = dayEntries.sort((a,b) => a.timestamp.getTime() - b.timestamp.getTime());
-        
-        const entrada = sortedEntries.find(e => e.type === TimeEntryType.ENTRADA);
-        const inicioIntervalo = sortedEntries.find(e => e.type === TimeEntryType.INICIO_INTERVALO);
-        const fimIntervalo = sortedEntries.find(e => e.type === TimeEntryType.FIM_INTERVALO);
-        const saida = sortedEntries.find(e => e.type === TimeEntryType.SAIDA);
-        
-        let workedMillis = 0;
-        if (entrada && saida) {
-            const totalMillis = saida.timestamp.getTime() - entrada.timestamp.getTime();
-            let breakMillis = 0;
-            if (inicioIntervalo && fimIntervalo) {
-            breakMillis = fimIntervalo.timestamp.getTime() - inicioIntervalo.timestamp.getTime();
-            }
-            workedMillis = totalMillis - breakMillis;
-        }
-        
-        const workedHours = workedMillis > 0 ? (workedMillis / (1000 * 60 * 60)) : 0;
-        const balance = (entrada && saida) ? workedHours - appConfig.workdayHours : 0;
+  const isClockSkewed = isSkewExceeded(clockSkewMs, appConfig.maxClockSkewMinutes ?? DEFAULT_MAX_CLOCK_SKEW_MINUTES);
+  const isBlockedByClock = isClockSkewed && !!appConfig.blockOnClockSkew;
 
-        const status = (entrada && saida) ? "Completo" : "Incompleto";
-        const observation = sortedEntries.map(e => e.observation).filter(Boolean).join('; ');
-        
-        const [y, m, d] = dateKey.split('-').map(Number);
-        const displayDate = `${String(d).padStart(2, '0')}/${String(m).padStart(2, '0')}/${y}`;
-
-        return {
-            date: displayDate,
-            entrada: entrada?.timestamp,
-            inicioIntervalo: inicioIntervalo?.timestamp,
-            fimIntervalo: fimIntervalo?.timestamp,
-            saida: saida?.timestamp,
-            workedHours,
-            balance,
-            status,
-            observation,
-            originalEntries: sortedEntries,
-        };
-    });
+  const actionButtons = [
+    { type: TimeEntryType.ENTRADA, label: 'Registrar Entrada' },
+    { type: TimeEntryType.INICIO_INTERVALO, label: 'Início Intervalo' },
+    { type: TimeEntryType.FIM_INTERVALO, label: 'Fim Intervalo' },
+    { type: TimeEntryType.SAIDA, label: 'Registrar Saída' },
+  ].map(btn => ({ ...btn, enabled: allowedNextTypes.includes(btn.type) }));
 
-    const filtered = processed.filter(entry => {
-        const [d, m, y] = entry.date.split('/').map(Number);
-        return (m - 1) === filters.month && y === filters.year;
-    });
+  const monthRange = useMemo(() => ({
+    startDate: formatDateKey(new Date(filters.year, filters.month, 1)),
+    endDate: formatDateKey(new Date(filters.year, filters.month + 1, 0)),
+  }), [filters]);
 
-    return filtered.sort((a, b) => {
-        const dateA = new Date(a.date.split('/').reverse().join('-'));
-        const dateB = new Date(b.date.split('/').reverse().join('-'));
-        return dateB.getTime() - dateA.getTime();
-    });
-  }, [timeEntries, appConfig.workdayHours, filters]);
+  useEffect(() => {
+    onPeriodChange(monthRange);
+  }, [monthRange, onPeriodChange]);
+
+  const processedDailyEntries: ProcessedDay[] = useMemo(() => {
+    return processWorkdaysInRange(timeEntries, { users: [user], workdayHours: appConfig.workdayHours, shiftPatterns, holidays }, monthRange)
+        .filter(day => day.dateKey >= monthRange.startDate && day.dateKey <= monthRange.endDate);
+  }, [timeEntries, user, appConfig.workdayHours, shiftPatterns, holidays, monthRange]);
+
+  const workdayContext = useMemo(() => ({
+    users: [user],
+    workdayHours: appConfig.workdayHours,
+    shiftPatterns,
+    holidays,
+  }), [user, appConfig.workdayHours, shiftPatterns, holidays]);
+  const hourBankExpiryMonths = appConfig.hourBankExpiryMonths ?? DEFAULT_HOUR_BANK_EXPIRY_MONTHS;
+
+  const hourBankStatement = useMemo(() => {
+    return buildHourBankStatements(timeEntries, hourBankAdjustments, hourBankClosings, workdayContext, monthRange, hourBankExpiryMonths)[user.id];
+  }, [timeEntries, hourBankAdjustments, hourBankClosings, user, workdayContext, monthRange, hourBankExpiryMonths]);
 
   const totalWorkedHours = useMemo(() => {
-    return processedDailyEntries.reduce((acc, curr) => acc + curr.workedHours, 0);
+    return sumWorkedHours(processedDailyEntries);
   }, [processedDailyEntries]);
 
-  const formatTime = (date?: Date) => date ? date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' }) : '--';
+  const sortedCorrectionRequests = useMemo(() => {
+    return [...correctionRequests].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }, [correctionRequests]);
 
   const renderLocationStatus = () => {
     if (locationState === 'checking') {
@@ -237,6 +223,20 @@ const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, timeEntries
           <div className="bg-secondary p-4 sm:p-6 rounded-lg shadow-lg">
               <h2 className="text-2xl font-bold mb-4 text-light">Registrar Ponto</h2>
               {renderLocationStatus()}
+              {locationState === 'allowed' && matchedSite && (
+                <p className="text-sm text-highlight mb-4">Local: <span className="text-light font-medium">{matchedSite.name}</span></p>
+              )}
+              {isClockSkewed && clockSkewMs !== undefined && (
+                <div className="text-center p-3 mb-4 bg-orange-900/70 rounded-md text-orange-200">
+                  O relógio deste dispositivo está {formatSkew(clockSkewMs)} em relação ao servidor.
+                  {isBlockedByClock ? ' Ajuste a data e hora do aparelho para registrar o ponto.' : ' As marcações serão sinalizadas para conferência.'}
+                </div>
+              )}
+              {!isOnline && (
+                <div className="text-center p-3 mb-4 bg-yellow-900/70 rounded-md text-yellow-200">
+                  Sem conexão. As marcações ficam salvas neste dispositivo e serão sincronizadas quando a conexão voltar.
+                </div>
+              )}
               <div className="mb-4">
                   <label htmlFor="observation" className="block text-sm font-medium text-highlight mb-1">
                       Observação (opcional)
@@ -255,9 +255,9 @@ const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, timeEntries
                   <button
                   key={btn.type}
                   onClick={() => handleRegister(btn.type)}
-                  disabled={!btn.enabled || locationState !== 'allowed'}
+                  disabled={!btn.enabled || locationState !== 'allowed' || isBlockedByClock}
                   className={`w-full text-white font-bold py-3 px-4 rounded-lg transition duration-300 ease-in-out transform hover:scale-105
-                      ${(btn.enabled && locationState === 'allowed')
+                      ${(btn.enabled && locationState === 'allowed' && !isBlockedByClock)
                       ? 'bg-accent hover:bg-highlight' 
                       : 'bg-gray-500 cursor-not-allowed opacity-50'}`}
                   >
@@ -265,10 +265,23 @@ const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, timeEntries
                   </button>
               ))}
               </div>
+              {unsyncedPunches.length > 0 && (
+                <div className="mt-4 p-3 bg-primary rounded-md">
+                  <h3 className="text-sm font-semibold text-highlight mb-2">Marcações pendentes de sincronização</h3>
+                  <ul className="space-y-1">
+                    {unsyncedPunches.map(punch => (
+                      <li key={punch.id} className="flex justify-between items-center text-sm text-light">
+                        <span>{punch.type} — {punch.capturedAt.toLocaleString('pt-BR')}</span>
+                        <span className="bg-yellow-600 text-white px-2 py-0.5 rounded text-xs font-bold">Pendente</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
           </div>
         </div>
 
-        <div className="lg:col-span-1">
+        <div className="lg:col-span-1 space-y-8">
           <div className="bg-secondary p-4 sm:p-6 rounded-lg shadow-lg">
             <h2 className="text-2xl font-bold mb-4 text-light">Minha Conta</h2>
             <button
@@ -278,6 +291,18 @@ const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, timeEntries
                 Alterar Senha
             </button>
           </div>
+          <TimesheetAcknowledgmentCard
+            user={user}
+            onLoadTimeEntries={onLoadTimeEntries}
+            hourBankAdjustments={hourBankAdjustments}
+            hourBankClosings={hourBankClosings}
+            context={workdayContext}
+            hourBankExpiryMonths={hourBankExpiryMonths}
+            employer={employerInfo}
+            acknowledgments={timesheetAcknowledgments}
+            onAcknowledge={onAcknowledgeTimesheet}
+          />
+          <PunchReceiptsCard receipts={punchReceipts} />
         </div>
       </div>
       
@@ -290,7 +315,7 @@ const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, timeEntries
                     onChange={(e) => setFilters(f => ({ ...f, month: parseInt(e.target.value) }))}
                     className="bg-primary border border-accent rounded-md px-3 py-1.5 text-light text-sm focus:ring-highlight focus:border-highlight"
                 >
-                    {['Janeiro', 'Fevereiro', 'Março', 'Abril', 'Maio', 'Junho', 'Julho', 'Agosto', 'Setembro', 'Outubro', 'Novembro', 'Dezembro'].map((m, i) => (
+                    {MONTH_NAMES.map((m, i) => (
                         <option key={i} value={i}>{m}</option>
                     ))}
                 </select>
@@ -305,6 +330,11 @@ const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, timeEntries
                 </select>
             </div>
         </div>
+
+        <div className="mb-6">
+            <h3 className="text-lg font-semibold text-light mb-3">Banco de Horas</h3>
+            <HourBankSummary statement={hourBankStatement} />
+        </div>
         
         {/* Mobile View: Card List */}
         <div className="md:hidden space-y-4">
@@ -315,15 +345,20 @@ const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, timeEntries
                     <CalendarIcon />
                     <span className="font-bold text-light">{day.date}</span>
                 </div>
-                <button onClick={() => setEditingDay(day)} className="text-highlight hover:text-light p-1 rounded-full hover:bg-accent transition">
-                    <EditIcon />
-                </button>
+                <div className="flex items-center space-x-1">
+                    <button onClick={() => setEditingDay(day)} title="Editar observação" className="text-highlight hover:text-light p-1 rounded-full hover:bg-accent transition">
+                        <EditIcon />
+                    </button>
+                    <button onClick={() => setCorrectionDay(day)} title="Solicitar ajuste" className="text-highlight hover:text-light p-1 rounded-full hover:bg-accent transition">
+                        <PlusCircleIcon />
+                    </button>
+                </div>
               </div>
               <div className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
                 <div><span className="text-highlight">Entrada:</span> <span className="text-light font-medium">{formatTime(day.entrada)}</span></div>
                 <div><span className="text-highlight">Saída:</span> <span className="text-light font-medium">{formatTime(day.saida)}</span></div>
-                <div><span className="text-highlight">In. Intervalo:</span> <span className="text-light font-medium">{formatTime(day.inicioIntervalo)}</span></div>
-                <div><span className="text-highlight">Fim Intervalo:</span> <span className="text-light font-medium">{formatTime(day.fimIntervalo)}</span></div>
+                <div><span className="text-highlight">In. Intervalo:</span> <span className="text-light font-medium">{formatBreakTimes(day.breaks, 'start')}</span></div>
+                <div><span className="text-highlight">Fim Intervalo:</span> <span className="text-light font-medium">{formatBreakTimes(day.breaks, 'end')}</span></div>
               </div>
               <div className="border-t border-accent my-3"></div>
               <div className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
@@ -370,16 +405,19 @@ const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, timeEntries
                 <tr key={day.date}>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-light">{day.date}</td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-light">{formatTime(day.entrada)}</td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-light">{formatTime(day.inicioIntervalo)}</td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-light">{formatTime(day.fimIntervalo)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-light">{formatBreakTimes(day.breaks, 'start')}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-light">{formatBreakTimes(day.breaks, 'end')}</td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-light">{formatTime(day.saida)}</td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-light">{day.workedHours.toFixed(2)}h</td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-light">{day.status}</td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-light max-w-xs truncate" title={day.observation}>{day.observation}</td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-light text-center">
-                    <button onClick={() => setEditingDay(day)} className="text-highlight hover:text-light p-1 rounded-full hover:bg-accent transition">
+                    <button onClick={() => setEditingDay(day)} title="Editar observação" className="text-highlight hover:text-light p-1 rounded-full hover:bg-accent transition">
                         <EditIcon />
                     </button>
+                    <button onClick={() => setCorrectionDay(day)} title="Solicitar ajuste" className="text-highlight hover:text-light p-1 rounded-full hover:bg-accent transition">
+                        <PlusCircleIcon />
+                    </button>
                   </td>
                 </tr>
               ))}
@@ -400,11 +438,43 @@ const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, timeEntries
         </div>
       </div>
       
+      <div className="bg-secondary p-4 sm:p-6 rounded-lg shadow-lg">
+        <h2 className="text-2xl font-bold mb-4 text-light">Minhas Solicitações</h2>
+        <div className="space-y-3">
+          {sortedCorrectionRequests.map(request => (
+            <div key={request.id} className="bg-primary p-4 rounded-lg">
+              <div className="flex justify-between items-start gap-4">
+                <div>
+                  <p className="font-semibold text-light">{dateKeyToDisplay(request.dateKey)} · {request.requestType}</p>
+                  <p className="text-sm text-light mt-1">{describeCorrection(request)}</p>
+                  <p className="text-sm text-highlight italic mt-1">"{request.justification}"</p>
+                </div>
+                <span className={`${correctionStatusStyles[request.status]} text-white px-2 py-0.5 rounded text-xs font-bold whitespace-nowrap`}>{request.status}</span>
+              </div>
+              {request.reviewComment && (
+                <p className="text-xs text-gray-400 mt-2">Resposta de {request.reviewedByName}: {request.reviewComment}</p>
+              )}
+            </div>
+          ))}
+          {sortedCorrectionRequests.length === 0 && (
+            <p className="text-highlight text-sm">Nenhuma solicitação de ajuste enviada.</p>
+          )}
+        </div>
+      </div>
+
       {editingDay && (
         <EditObservationModal
             day={editingDay}
             onClose={() => setEditingDay(null)}
-            onSave={onUpdateTimeEntry}
+            onSave={onUpdateObservation}
+        />
+      )}
+
+      {correctionDay && (
+        <CorrectionRequestModal
+            day={correctionDay}
+            onClose={() => setCorrectionDay(null)}
+            onSubmit={onSubmitCorrectionRequest}
         />
       )}
 
@@ -419,13 +489,14 @@ const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, timeEntries
 };
 
 interface EditObservationModalProps {
-    day: ProcessedDayEntry;
+    day: ProcessedDay;
     onClose: () => void;
     onSave: (entry: TimeEntry) => void;
 }
 
 const EditObservationModal: React.FC<EditObservationModalProps> = ({ day, onClose, onSave }) => {
     const [entries, setEntries] = useState<TimeEntry[]>(day.originalEntries);
+    const punchLabels = useMemo(() => numberPunches(day.originalEntries), [day.originalEntries]);
 
     const handleObservationChange = (id: string, newObservation: string) => {
         setEntries(prev => prev.map(e => e.id === id ? {...e, observation: newObservation} : e));
@@ -433,21 +504,25 @@ const EditObservationModal: React.FC<EditObservationModalProps> = ({ day, onClos
 
     const handleSave = () => {
         entries.forEach(entry => {
-            onSave(entry);
-});
+            const original = day.originalEntries.find(o => o.id === entry.id);
+            if (original?.observation !== entry.observation) {
+                onSave(entry);
+            }
+        });
         onClose();
     };
 
-    const formatTime = (date?: Date) => date ? date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' }) : '--';
-
     return (
         <Modal isOpen={true} onClose={onClose} title={`Editar Observações - ${day.date}`}>
             <div className="space-y-4 max-h-96 overflow-y-auto pr-2">
                 {entries.map(entry => (
                     <div key={entry.id} className="p-3 bg-primary rounded-md">
                         <div className="flex justify-between items-center mb-2">
-                            <h4 className="font-semibold text-highlight">{entry.type}</h4>
-                            <span className="text-sm text-gray-400">{formatTime(entry.timestamp)}</span>
+                            <h4 className="font-semibold text-highlight">{punchLabels[entry.id] || entry.type}</h4>
+                            <span className="text-sm text-gray-400">
+                                {formatTime(entry.timestamp)}
+                                {entry.adjustment && <span className="block text-xs text-cyan-400">{describePunchTreatment(entry)}</span>}
+                            </span>
                         </div>
                         <div>
                             <label htmlFor={`obs-${entry.id}`} className="block text-xs font-medium text-highlight">Observação</label>
@@ -0,0 +1,115 @@
+import React, { useState, useEffect } from 'react';
+import { EmployerInfo, EmployerIdType } from '../types';
+import { onlyDigits, isValidCpf, isValidCnpj } from '../utils/documents';
+
+interface EmployerSettingsProps {
+    employer: EmployerInfo;
+    onSave: (employer: EmployerInfo) => Promise<void>;
+}
+
+const inputClassName = "mt-1 block w-full bg-primary border border-accent rounded-md shadow-sm py-2 px-3 text-light focus:outline-none focus:ring-highlight focus:border-highlight sm:text-sm";
+
+const isValidId = (idType: EmployerIdType, value: string) => idType === EmployerIdType.CPF ? isValidCpf(value) : isValidCnpj(value);
+
+const EmployerSettings: React.FC<EmployerSettingsProps> = ({ employer, onSave }) => {
+    const [draft, setDraft] = useState<EmployerInfo>(employer);
+    const [statusMessage, setStatusMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+    useEffect(() => {
+        setDraft(employer);
+    }, [employer]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        setDraft({ ...draft, [e.target.name]: e.target.value });
+        setStatusMessage(null);
+    };
+
+    const handleSave = async () => {
+        if (!isValidId(draft.idType, draft.idNumber)) {
+            setStatusMessage({ type: 'error', text: `${draft.idType} do empregador inválido.` });
+            return;
+        }
+        if (draft.developerIdNumber && !isValidId(draft.developerIdType, draft.developerIdNumber)) {
+            setStatusMessage({ type: 'error', text: `${draft.developerIdType} do desenvolvedor inválido.` });
+            return;
+        }
+        await onSave({
+            ...draft,
+            name: draft.name.trim(),
+            developerName: draft.developerName.trim(),
+            developerEmail: draft.developerEmail.trim(),
+            idNumber: onlyDigits(draft.idNumber),
+            cnoCaepf: onlyDigits(draft.cnoCaepf),
+            inpiRegistration: onlyDigits(draft.inpiRegistration),
+            developerIdNumber: onlyDigits(draft.developerIdNumber),
+        });
+        setStatusMessage({ type: 'success', text: 'Dados do empregador salvos com sucesso!' });
+        setTimeout(() => setStatusMessage(null), 3000);
+    };
+
+    return (
+        <fieldset className="border border-accent rounded-lg p-4 mt-8">
+            <legend className="text-lg font-medium text-light px-2">Empregador (AFD/AEJ)</legend>
+            <p className="text-sm text-highlight mb-4">
+                Identificação exigida pela Portaria 671 nos arquivos entregues à fiscalização.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="sm:col-span-2">
+                    <label htmlFor="employer-name" className="block text-sm font-medium text-highlight">Razão Social</label>
+                    <input id="employer-name" name="name" type="text" value={draft.name} onChange={handleChange} className={inputClassName} />
+                </div>
+                <div>
+                    <label htmlFor="employer-id-type" className="block text-sm font-medium text-highlight">Tipo de Identificação</label>
+                    <select id="employer-id-type" name="idType" value={draft.idType} onChange={handleChange} className={inputClassName}>
+                        <option value={EmployerIdType.CNPJ}>CNPJ</option>
+                        <option value={EmployerIdType.CPF}>CPF</option>
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="employer-id-number" className="block text-sm font-medium text-highlight">{draft.idType}</label>
+                    <input id="employer-id-number" name="idNumber" type="text" inputMode="numeric" value={draft.idNumber} onChange={handleChange} className={inputClassName} />
+                </div>
+                <div>
+                    <label htmlFor="employer-cno" className="block text-sm font-medium text-highlight">CNO / CAEPF (opcional)</label>
+                    <input id="employer-cno" name="cnoCaepf" type="text" inputMode="numeric" value={draft.cnoCaepf} onChange={handleChange} className={inputClassName} />
+                </div>
+                <div>
+                    <label htmlFor="employer-inpi" className="block text-sm font-medium text-highlight">Registro do Programa no INPI</label>
+                    <input id="employer-inpi" name="inpiRegistration" type="text" inputMode="numeric" maxLength={17} value={draft.inpiRegistration} onChange={handleChange} className={inputClassName} />
+                </div>
+                <div>
+                    <label htmlFor="developer-id-type" className="block text-sm font-medium text-highlight">Desenvolvedor do Sistema</label>
+                    <select id="developer-id-type" name="developerIdType" value={draft.developerIdType} onChange={handleChange} className={inputClassName}>
+                        <option value={EmployerIdType.CNPJ}>CNPJ</option>
+                        <option value={EmployerIdType.CPF}>CPF</option>
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="developer-id-number" className="block text-sm font-medium text-highlight">{draft.developerIdType} do Desenvolvedor</label>
+                    <input id="developer-id-number" name="developerIdNumber" type="text" inputMode="numeric" value={draft.developerIdNumber} onChange={handleChange} className={inputClassName} />
+                </div>
+                <div>
+                    <label htmlFor="developer-name" className="block text-sm font-medium text-highlight">Nome do Desenvolvedor</label>
+                    <input id="developer-name" name="developerName" type="text" value={draft.developerName} onChange={handleChange} className={inputClassName} />
+                </div>
+                <div>
+                    <label htmlFor="developer-email" className="block text-sm font-medium text-highlight">E-mail do Desenvolvedor</label>
+                    <input id="developer-email" name="developerEmail" type="email" value={draft.developerEmail} onChange={handleChange} className={inputClassName} />
+                </div>
+            </div>
+
+            <div className="flex items-center justify-end pt-4">
+                {statusMessage && <p className={`${statusMessage.type === 'success' ? 'text-green-400' : 'text-red-400'} text-sm mr-4`}>{statusMessage.text}</p>}
+                <button
+                    type="button"
+                    onClick={handleSave}
+                    className="justify-center py-2 px-6 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-accent hover:bg-highlight focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-secondary focus:ring-highlight transition"
+                >
+                    Salvar Empregador
+                </button>
+            </div>
+        </fieldset>
+    );
+};
+
+export default EmployerSettings;
@@ -0,0 +1,192 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Holiday, HolidayCalendar, HolidayScope, WorkSite } from '../types';
+import { getNationalHolidays } from '../utils/holidays';
+import { dateKeyToDisplay } from '../utils/date';
+import { TrashIcon, PlusCircleIcon } from './icons';
+
+interface HolidayCalendarSettingsProps {
+    calendar: HolidayCalendar;
+    workSites: WorkSite[];
+    onSave: (calendar: HolidayCalendar) => Promise<void>;
+}
+
+const inputClassName = "mt-1 block w-full bg-primary border border-accent rounded-md shadow-sm py-2 px-3 text-light focus:outline-none focus:ring-highlight focus:border-highlight sm:text-sm";
+
+const emptyHoliday = (): Holiday => ({ date: '', name: '', scope: HolidayScope.MUNICIPAL, recurring: true, siteIds: [] });
+
+const HolidayCalendarSettings: React.FC<HolidayCalendarSettingsProps> = ({ calendar, workSites, onSave }) => {
+    const [draft, setDraft] = useState<HolidayCalendar>(calendar);
+    const [newHoliday, setNewHoliday] = useState<Holiday>(emptyHoliday);
+    const [year, setYear] = useState(new Date().getFullYear());
+    const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+    useEffect(() => {
+        setDraft(calendar);
+    }, [calendar]);
+
+    const nationalHolidays = useMemo(() => getNationalHolidays(year, draft.observeOptionalHolidays), [year, draft.observeOptionalHolidays]);
+
+    const handleAdd = () => {
+        if (!newHoliday.date || !newHoliday.name.trim()) return;
+        // Firestore rejects undefined values, so a holiday of every site has no siteIds at all
+        const { siteIds, ...holiday } = newHoliday;
+        setDraft({ ...draft, customHolidays: [...draft.customHolidays, { ...holiday, name: holiday.name.trim(), ...(siteIds?.length ? { siteIds } : {}) }] });
+        setNewHoliday(emptyHoliday());
+    };
+
+    const toggleSite = (siteId: string) => {
+        const siteIds = newHoliday.siteIds ?? [];
+        setNewHoliday({ ...newHoliday, siteIds: siteIds.includes(siteId) ? siteIds.filter(id => id !== siteId) : [...siteIds, siteId] });
+    };
+
+    const formatHolidaySites = (holiday: Holiday) => holiday.siteIds?.length
+        ? holiday.siteIds.map(siteId => workSites.find(site => site.id === siteId)?.name ?? 'Local removido').join(', ')
+        : 'Todos os locais';
+
+    const handleRemove = (index: number) => {
+        setDraft({ ...draft, customHolidays: draft.customHolidays.filter((_, i) => i !== index) });
+    };
+
+    const handleSave = async () => {
+        await onSave(draft);
+        setStatusMessage('Calendário de feriados salvo com sucesso!');
+        setTimeout(() => setStatusMessage(null), 3000);
+    };
+
+    const formatHolidayDate = (holiday: Holiday) => holiday.recurring
+        ? `${holiday.date.slice(8, 10)}/${holiday.date.slice(5, 7)} (anual)`
+        : dateKeyToDisplay(holiday.date);
+
+    return (
+        <fieldset className="border border-accent rounded-lg p-4 mt-8">
+            <legend className="text-lg font-medium text-light px-2">Feriados</legend>
+            <p className="text-sm text-highlight mb-4">
+                Feriados não contam como dia de trabalho previsto. Trabalho em feriado é computado integralmente como hora extra.
+            </p>
+
+            <div className="flex items-center space-x-3 mb-4">
+                <input
+                    type="checkbox"
+                    id="observe-optional-holidays"
+                    checked={draft.observeOptionalHolidays}
+                    onChange={(e) => setDraft({ ...draft, observeOptionalHolidays: e.target.checked })}
+                    className="h-4 w-4 text-highlight bg-secondary border-accent rounded focus:ring-highlight"
+                />
+                <label htmlFor="observe-optional-holidays" className="text-sm font-medium text-light">Considerar Carnaval e Corpus Christi como feriados</label>
+            </div>
+
+            <div className="mb-6">
+                <div className="flex justify-between items-center mb-2">
+                    <h4 className="font-semibold text-light">Feriados Nacionais</h4>
+                    <select
+                        value={year}
+                        onChange={(e) => setYear(parseInt(e.target.value, 10))}
+                        className="bg-primary border border-accent rounded-md px-3 py-1 text-light text-sm focus:ring-highlight focus:border-highlight"
+                    >
+                        {[year - 1, year, year + 1].map(y => <option key={y} value={y}>{y}</option>)}
+                    </select>
+                </div>
+                <ul className="text-sm divide-y divide-accent bg-primary rounded-md">
+                    {nationalHolidays.map(h => (
+                        <li key={h.date} className="px-3 py-1.5 flex justify-between">
+                            <span className="text-light">{h.name}</span>
+                            <span className="text-highlight">{dateKeyToDisplay(h.date)}</span>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+
+            <h4 className="font-semibold text-light mb-2">Feriados Estaduais e Municipais</h4>
+            <ul className="text-sm divide-y divide-accent bg-primary rounded-md mb-4">
+                {draft.customHolidays.map((h, i) => (
+                    <li key={`${h.date}-${h.name}-${i}`} className="px-3 py-1.5 flex justify-between items-center">
+                        <div>
+                            <span className="text-light">{h.name}</span>
+                            <span className="text-xs text-highlight ml-2">{h.scope} · {formatHolidaySites(h)}</span>
+                        </div>
+                        <div className="flex items-center space-x-3">
+                            <span className="text-highlight">{formatHolidayDate(h)}</span>
+                            <button type="button" onClick={() => handleRemove(i)} className="text-red-400 hover:text-red-300" aria-label={`Remover ${h.name}`}>
+                                <TrashIcon />
+                            </button>
+                        </div>
+                    </li>
+                ))}
+                {draft.customHolidays.length === 0 && (
+                    <li className="px-3 py-3 text-center text-highlight">Nenhum feriado local cadastrado.</li>
+                )}
+            </ul>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 p-3 border border-dashed border-accent rounded-md">
+                <div>
+                    <label htmlFor="holiday-name" className="block text-xs font-medium text-highlight">Nome</label>
+                    <input id="holiday-name" type="text" value={newHoliday.name} onChange={(e) => setNewHoliday({ ...newHoliday, name: e.target.value })} className={inputClassName} placeholder="Aniversário da cidade" />
+                </div>
+                <div>
+                    <label htmlFor="holiday-date" className="block text-xs font-medium text-highlight">Data</label>
+                    <input id="holiday-date" type="date" value={newHoliday.date} onChange={(e) => setNewHoliday({ ...newHoliday, date: e.target.value })} className={inputClassName} />
+                </div>
+                <div>
+                    <label htmlFor="holiday-scope" className="block text-xs font-medium text-highlight">Abrangência</label>
+                    <select id="holiday-scope" value={newHoliday.scope} onChange={(e) => setNewHoliday({ ...newHoliday, scope: e.target.value as HolidayScope })} className={inputClassName}>
+                        <option value={HolidayScope.STATE}>{HolidayScope.STATE}</option>
+                        <option value={HolidayScope.MUNICIPAL}>{HolidayScope.MUNICIPAL}</option>
+                    </select>
+                </div>
+                <div>
+                    <span className="block text-xs font-medium text-highlight">Locais de trabalho</span>
+                    <div className="mt-1 space-y-1">
+                        {workSites.map(site => (
+                            <label key={site.id} className="flex items-center space-x-2 text-sm text-light">
+                                <input
+                                    type="checkbox"
+                                    checked={newHoliday.siteIds?.includes(site.id) ?? false}
+                                    onChange={() => toggleSite(site.id)}
+                                    className="h-4 w-4 text-highlight bg-secondary border-accent rounded focus:ring-highlight"
+                                />
+                                <span>{site.name}</span>
+                            </label>
+                        ))}
+                        <p className="text-xs text-highlight">
+                            {newHoliday.siteIds?.length ? 'Só para os funcionários desses locais.' : 'Nenhum marcado: vale para todos os funcionários.'}
+                        </p>
+                    </div>
+                </div>
+                <div className="flex items-center space-x-3">
+                    <input
+                        type="checkbox"
+                        id="holiday-recurring"
+                        checked={newHoliday.recurring}
+                        onChange={(e) => setNewHoliday({ ...newHoliday, recurring: e.target.checked })}
+                        className="h-4 w-4 text-highlight bg-secondary border-accent rounded focus:ring-highlight"
+                    />
+                    <label htmlFor="holiday-recurring" className="text-sm text-light">Repete todo ano</label>
+                </div>
+                <div className="flex justify-end items-end">
+                    <button
+                        type="button"
+                        onClick={handleAdd}
+                        disabled={!newHoliday.date || !newHoliday.name.trim()}
+                        className="flex items-center space-x-2 py-1.5 px-3 bg-accent rounded-md text-sm text-white hover:bg-highlight disabled:bg-gray-500"
+                    >
+                        <PlusCircleIcon />
+                        <span>Adicionar</span>
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex items-center justify-end pt-4">
+                {statusMessage && <p className="text-green-400 text-sm mr-4">{statusMessage}</p>}
+                <button
+                    type="button"
+                    onClick={handleSave}
+                    className="justify-center py-2 px-6 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-accent hover:bg-highlight focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-secondary focus:ring-highlight transition"
+                >
+                    Salvar Feriados
+                </button>
+            </div>
+        </fieldset>
+    );
+};
+
+export default HolidayCalendarSettings;
@@ -0,0 +1,246 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { User, TimeEntry, ShiftPattern, HolidayCalendar, HourBankAdjustment, HourBankClosing } from '../types';
+import Modal from './Modal';
+import HourBankSummary from './HourBankSummary';
+import { buildHourBankStatements } from '../utils/hourBank';
+import { DateRange, formatHours } from '../utils/workday';
+import { formatDateKey, getMonthRange, formatMonthLabel } from '../utils/date';
+import { PlusCircleIcon, EyeIcon, CheckCircleIcon } from './icons';
+
+export type HourBankAdjustmentDraft = Omit<HourBankAdjustment, 'id' | 'createdById' | 'createdByName' | 'createdAt'>;
+
+interface HourBankProps {
+  users: User[];
+  timeEntries: TimeEntry[];
+  adjustments: HourBankAdjustment[];
+  closings: HourBankClosing[];
+  workdayHours: number;
+  shiftPatterns: ShiftPattern[];
+  holidays: HolidayCalendar;
+  expiryMonths: number;
+  onAddAdjustment: (adjustment: HourBankAdjustmentDraft) => Promise<void>;
+  onClose: (untilMonth: string) => Promise<{ success: boolean; message: string }>;
+  onPeriodChange: (range: DateRange) => void; // Month being viewed, so only its punches are listened to
+}
+
+const balanceColor = (hours: number) => hours < 0 ? 'text-red-400' : 'text-green-400';
+
+const HourBank: React.FC<HourBankProps> = ({ users, timeEntries, adjustments, closings, workdayHours, shiftPatterns, holidays, expiryMonths, onAddAdjustment, onClose, onPeriodChange }) => {
+  const [month, setMonth] = useState(() => formatDateKey(new Date()).slice(0, 7));
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const [isAdjustmentModalOpen, setIsAdjustmentModalOpen] = useState(false);
+  const [closeStatus, setCloseStatus] = useState<{ type: 'success' | 'error' | 'loading'; text: string } | null>(null);
+
+  const range = useMemo(() => getMonthRange(month), [month]);
+
+  useEffect(() => {
+    onPeriodChange(range);
+  }, [range, onPeriodChange]);
+
+  const statements = useMemo(() => {
+    return buildHourBankStatements(timeEntries, adjustments, closings, { users, workdayHours, shiftPatterns, holidays }, range, expiryMonths);
+  }, [timeEntries, adjustments, closings, users, workdayHours, shiftPatterns, holidays, range, expiryMonths]);
+
+  const selectedUser = users.find(u => u.id === selectedUserId);
+  // Only months that are over can be closed
+  const canClose = month < formatDateKey(new Date()).slice(0, 7);
+
+  const lastClosedMonth = (userId: string): string | undefined => closings
+    .filter(c => c.userId === userId)
+    .map(c => c.month)
+    .sort()
+    .pop();
+
+  const handleClose = async () => {
+    if (!window.confirm(`Fechar o banco de horas de todos os funcionários até ${formatMonthLabel(month)}? Os saldos fechados passam a ser o ponto de partida dos meses seguintes.`)) return;
+    setCloseStatus({ type: 'loading', text: 'Fechando banco de horas...' });
+    const result = await onClose(month);
+    setCloseStatus({ type: result.success ? 'success' : 'error', text: result.message });
+  };
+
+  return (
+    <>
+      <div className="bg-secondary p-4 sm:p-6 rounded-lg shadow-lg space-y-6">
+        <div className="md:flex justify-between items-start gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-light">Banco de Horas</h2>
+            <p className="text-sm text-highlight">
+              Horas extras geram créditos e faltas ou saídas antecipadas geram débitos.
+              {expiryMonths > 0 ? ` Créditos expiram após ${expiryMonths} ${expiryMonths === 1 ? 'mês' : 'meses'} sem compensação.` : ' Créditos não expiram.'}
+            </p>
+          </div>
+          <div className="flex gap-2 mt-4 md:mt-0">
+            <input
+              type="month"
+              value={month}
+              onChange={(e) => e.target.value && setMonth(e.target.value)}
+              className="bg-primary border border-accent rounded-md px-3 py-1.5 text-light text-sm focus:ring-highlight focus:border-highlight"
+            />
+            <button
+              onClick={handleClose}
+              disabled={!canClose || closeStatus?.type === 'loading'}
+              title={canClose ? `Fechar até ${formatMonthLabel(month)}` : 'Só é possível fechar meses encerrados'}
+              className="flex items-center space-x-2 py-2 px-4 rounded-md text-sm font-medium text-white bg-accent hover:bg-highlight transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <CheckCircleIcon />
+              <span>Fechar Mês</span>
+            </button>
+            <button
+              onClick={() => setIsAdjustmentModalOpen(true)}
+              className="flex items-center space-x-2 py-2 px-4 rounded-md text-sm font-medium text-white bg-accent hover:bg-highlight transition"
+            >
+              <PlusCircleIcon />
+              <span>Lançamento Manual</span>
+            </button>
+          </div>
+        </div>
+
+        {closeStatus && (
+          <p className={`text-sm ${closeStatus.type === 'error' ? 'text-red-400' : closeStatus.type === 'loading' ? 'text-yellow-400' : 'text-green-400'}`}>{closeStatus.text}</p>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-accent">
+            <thead className="bg-primary">
+              <tr>
+                {['Funcionário', 'Saldo Inicial', 'Créditos', 'Débitos', 'Ajustes', 'Expirado', 'Saldo Final', 'Fechado até', ''].map(header => (
+                  <th key={header} scope="col" className="px-4 py-3 text-left text-xs font-medium text-highlight uppercase tracking-wider">{header}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-secondary divide-y divide-accent">
+              {users.map(user => {
+                const statement = statements[user.id];
+                const closedUntil = lastClosedMonth(user.id);
+                return (
+                  <tr key={user.id} className={selectedUserId === user.id ? 'bg-primary/50' : ''}>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-light">{user.name}</td>
+                    <td className={`px-4 py-3 whitespace-nowrap text-sm ${balanceColor(statement.openingBalance)}`}>{formatHours(statement.openingBalance)}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-green-400">{formatHours(statement.credits)}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-red-400">{formatHours(statement.debits)}</td>
+                    <td className={`px-4 py-3 whitespace-nowrap text-sm ${balanceColor(statement.adjustments)}`}>{formatHours(statement.adjustments)}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-400">{formatHours(statement.expired)}</td>
+                    <td className={`px-4 py-3 whitespace-nowrap text-sm font-bold ${balanceColor(statement.closingBalance)}`}>{formatHours(statement.closingBalance)}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-400">{closedUntil ? formatMonthLabel(closedUntil) : '—'}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-right text-sm">
+                      <button onClick={() => setSelectedUserId(selectedUserId === user.id ? null : user.id)} className="text-highlight hover:text-light" aria-label={`Ver extrato de ${user.name}`}>
+                        <EyeIcon />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+              {users.length === 0 && (
+                <tr>
+                  <td colSpan={9} className="px-6 py-10 text-center text-highlight">Nenhum funcionário cadastrado.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {selectedUser && statements[selectedUser.id] && (
+          <div>
+            <h3 className="text-lg font-semibold text-light mb-3">Extrato de {selectedUser.name}</h3>
+            <HourBankSummary statement={statements[selectedUser.id]} />
+          </div>
+        )}
+      </div>
+
+      {isAdjustmentModalOpen && (
+        <AddAdjustmentModal
+          users={users}
+          defaultUserId={selectedUserId}
+          onClose={() => setIsAdjustmentModalOpen(false)}
+          onSave={onAddAdjustment}
+        />
+      )}
+    </>
+  );
+};
+
+interface AddAdjustmentModalProps {
+  users: User[];
+  defaultUserId: string | null;
+  onClose: () => void;
+  onSave: (adjustment: HourBankAdjustmentDraft) => Promise<void>;
+}
+
+const AddAdjustmentModal: React.FC<AddAdjustmentModalProps> = ({ users, defaultUserId, onClose, onSave }) => {
+  const [userId, setUserId] = useState(defaultUserId ?? users[0]?.id ?? '');
+  const [date, setDate] = useState(formatDateKey(new Date()));
+  const [kind, setKind] = useState<'credit' | 'debit'>('credit');
+  const [hours, setHours] = useState('');
+  const [reason, setReason] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const parsedHours = parseFloat(hours.replace(',', '.'));
+  const isValid = userId && date && parsedHours > 0 && reason.trim();
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    setIsProcessing(true);
+    await onSave({
+      userId,
+      date,
+      hours: kind === 'credit' ? parsedHours : -parsedHours,
+      reason: reason.trim(),
+    });
+    setIsProcessing(false);
+    onClose();
+  };
+
+  const inputClassName = "mt-1 block w-full bg-primary border border-accent rounded-md shadow-sm py-2 px-3 text-light focus:outline-none focus:ring-highlight focus:border-highlight sm:text-sm";
+
+  return (
+    <Modal isOpen={true} onClose={onClose} title="Lançamento Manual no Banco de Horas">
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="adjustment-user" className="block text-sm font-medium text-highlight">Funcionário</label>
+          <select id="adjustment-user" value={userId} onChange={(e) => setUserId(e.target.value)} className={inputClassName}>
+            {users.map(user => <option key={user.id} value={user.id}>{user.name}</option>)}
+          </select>
+        </div>
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="adjustment-kind" className="block text-sm font-medium text-highlight">Tipo</label>
+            <select id="adjustment-kind" value={kind} onChange={(e) => setKind(e.target.value as 'credit' | 'debit')} className={inputClassName}>
+              <option value="credit">Crédito</option>
+              <option value="debit">Débito</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="adjustment-hours" className="block text-sm font-medium text-highlight">Horas</label>
+            <input id="adjustment-hours" type="number" min="0" step="0.25" value={hours} onChange={(e) => setHours(e.target.value)} className={inputClassName} placeholder="2.5" />
+          </div>
+          <div>
+            <label htmlFor="adjustment-date" className="block text-sm font-medium text-highlight">Data</label>
+            <input id="adjustment-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClassName} />
+          </div>
+        </div>
+        <div>
+          <label htmlFor="adjustment-reason" className="block text-sm font-medium text-highlight">Motivo</label>
+          <textarea id="adjustment-reason" rows={3} value={reason} onChange={(e) => setReason(e.target.value)} className={inputClassName} placeholder="Ex: Folga compensatória acordada" />
+        </div>
+      </div>
+      <div className="mt-6 flex justify-end space-x-4">
+        <button
+          onClick={onClose}
+          disabled={isProcessing}
+          className="py-2 px-4 border border-accent rounded-md shadow-sm text-sm font-medium text-light hover:bg-accent focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-secondary focus:ring-highlight transition disabled:opacity-50"
+        >
+          Cancelar
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isProcessing || !isValid}
+          className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-accent hover:bg-highlight focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-secondary focus:ring-highlight transition disabled:bg-gray-500"
+        >
+          {isProcessing ? 'Salvando...' : 'Lançar'}
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+export default HourBank;
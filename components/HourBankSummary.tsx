@@ -0,0 +1,65 @@
+import React from 'react';
+import { HourBankStatement, HourBankMovementType } from '../utils/hourBank';
+import { formatHours } from '../utils/workday';
+import { dateKeyToDisplay } from '../utils/date';
+
+interface HourBankSummaryProps {
+    statement: HourBankStatement;
+    showMovements?: boolean;
+}
+
+const movementColors: Record<HourBankMovementType, string> = {
+    [HourBankMovementType.CREDIT]: 'bg-green-600',
+    [HourBankMovementType.DEBIT]: 'bg-red-600',
+    [HourBankMovementType.ADJUSTMENT]: 'bg-blue-600',
+    [HourBankMovementType.EXPIRY]: 'bg-gray-600',
+};
+
+const balanceColor = (hours: number) => hours < 0 ? 'text-red-400' : 'text-green-400';
+
+const HourBankSummary: React.FC<HourBankSummaryProps> = ({ statement, showMovements = true }) => {
+    const items = [
+        { label: 'Saldo Inicial', value: statement.openingBalance, bold: true },
+        { label: 'Créditos', value: statement.credits },
+        { label: 'Débitos', value: statement.debits },
+        { label: 'Ajustes', value: statement.adjustments },
+        { label: 'Expirado', value: statement.expired },
+        { label: 'Saldo Final', value: statement.closingBalance, bold: true },
+    ];
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-3 md:grid-cols-6 gap-2 text-center">
+                {items.map(item => (
+                    <div key={item.label} className="bg-primary rounded-md p-2">
+                        <div className="text-xs text-highlight">{item.label}</div>
+                        <div className={`${item.bold ? 'font-bold' : 'font-semibold'} ${balanceColor(item.value)}`}>{formatHours(item.value)}</div>
+                    </div>
+                ))}
+            </div>
+
+            {showMovements && (
+                <ul className="text-sm divide-y divide-accent bg-primary rounded-md max-h-64 overflow-y-auto">
+                    {statement.movements.map((movement, i) => (
+                        <li key={`${movement.dateKey}-${movement.type}-${i}`} className="px-3 py-1.5 flex justify-between items-center gap-2">
+                            <div className="flex items-center gap-2 min-w-0">
+                                <span className="text-highlight whitespace-nowrap">{dateKeyToDisplay(movement.dateKey)}</span>
+                                <span className={`${movementColors[movement.type]} text-white px-1.5 py-0.5 rounded text-[10px] font-bold whitespace-nowrap`}>{movement.type}</span>
+                                <span className="text-light truncate" title={movement.description}>{movement.description}</span>
+                            </div>
+                            <div className="flex items-center gap-3 whitespace-nowrap">
+                                <span className={balanceColor(movement.hours)}>{formatHours(movement.hours)}</span>
+                                <span className="text-xs text-highlight">Saldo {formatHours(movement.balanceAfter)}</span>
+                            </div>
+                        </li>
+                    ))}
+                    {statement.movements.length === 0 && (
+                        <li className="px-3 py-3 text-center text-highlight">Nenhuma movimentação no período.</li>
+                    )}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default HourBankSummary;
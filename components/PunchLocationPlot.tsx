@@ -0,0 +1,49 @@
+import React from 'react';
+import { LocationCheck } from '../types';
+import { offsetInMetres } from '../utils/geo';
+
+interface PunchLocationPlotProps {
+    check: LocationCheck;
+}
+
+const VIEW_SIZE = 100; // Half of the SVG viewBox; the plot is centred on the site
+
+// Top-down sketch of the punch position, with its accuracy circle, against the site geofence
+const PunchLocationPlot: React.FC<PunchLocationPlotProps> = ({ check }) => {
+    if (check.latitude === undefined || check.longitude === undefined) {
+        return <p className="text-xs text-gray-400">Coordenadas não registradas para esta marcação.</p>;
+    }
+    const osmLink = `https://www.openstreetmap.org/?mlat=${check.latitude}&mlon=${check.longitude}#map=18/${check.latitude}/${check.longitude}`;
+    if (check.siteLatitude === undefined || check.siteLongitude === undefined || !check.siteRadius) {
+        return <a href={osmLink} target="_blank" rel="noopener noreferrer" className="text-xs text-highlight underline">Abrir no mapa</a>;
+    }
+
+    const { x, y } = offsetInMetres(check.siteLatitude, check.siteLongitude, check.latitude, check.longitude);
+    const accuracy = check.accuracy ?? 0;
+    const extent = Math.max(check.siteRadius * 1.3, Math.hypot(x, y) + accuracy, 20);
+    const scale = (VIEW_SIZE * 0.9) / extent;
+    const isInside = check.status === 'allowed';
+
+    return (
+        <div className="flex items-start gap-4">
+            <svg viewBox={`${-VIEW_SIZE} ${-VIEW_SIZE} ${VIEW_SIZE * 2} ${VIEW_SIZE * 2}`} className="w-32 h-32 bg-secondary rounded-md flex-shrink-0" role="img" aria-label="Posição da marcação em relação à cerca do local">
+                <circle cx={0} cy={0} r={check.siteRadius * scale} fill="rgba(119, 141, 169, 0.15)" stroke="#778DA9" strokeWidth={1.5} strokeDasharray="4 3" />
+                <line x1={-4} y1={0} x2={4} y2={0} stroke="#E0E1DD" strokeWidth={1} />
+                <line x1={0} y1={-4} x2={0} y2={4} stroke="#E0E1DD" strokeWidth={1} />
+                {accuracy > 0 && (
+                    <circle cx={x * scale} cy={-y * scale} r={accuracy * scale} fill={isInside ? 'rgba(74, 222, 128, 0.2)' : 'rgba(248, 113, 113, 0.2)'} />
+                )}
+                <circle cx={x * scale} cy={-y * scale} r={4} fill={isInside ? '#4ADE80' : '#F87171'} />
+                <text x={0} y={-VIEW_SIZE + 12} textAnchor="middle" fontSize={10} fill="#778DA9">N</text>
+            </svg>
+            <div className="text-xs text-highlight space-y-1">
+                <p>Posição: <span className="text-light">{check.latitude.toFixed(6)}, {check.longitude.toFixed(6)}</span></p>
+                <p>Precisão: <span className="text-light">±{accuracy}m</span></p>
+                <p>Distância do local: <span className="text-light">{check.distance ?? '--'}m</span> (raio de {check.siteRadius}m)</p>
+                <a href={osmLink} target="_blank" rel="noopener noreferrer" className="underline">Abrir no mapa</a>
+            </div>
+        </div>
+    );
+};
+
+export default PunchLocationPlot;
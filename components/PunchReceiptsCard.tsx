@@ -0,0 +1,127 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { PunchReceipt } from '../types';
+import Modal from './Modal';
+import { RECEIPT_TITLE, renderPunchReceiptPdf, formatNsr, formatReceiptDateTime, splitHash } from '../utils/receipt';
+import { formatCpf } from '../utils/documents';
+import { PdfIcon } from './icons';
+
+interface PunchReceiptsCardProps {
+    receipts: PunchReceipt[];
+}
+
+const RECENT_COUNT = 5;
+const NEW_RECEIPT_WINDOW_MS = 5 * 60 * 1000;
+
+const PunchReceiptsCard: React.FC<PunchReceiptsCardProps> = ({ receipts }) => {
+    const [viewingReceipt, setViewingReceipt] = useState<PunchReceipt | null>(null);
+    const [showAll, setShowAll] = useState(false);
+    const lastSeenIdRef = useRef<string | null | undefined>(undefined);
+
+    const sortedReceipts = useMemo(() => [...receipts].sort((a, b) => b.nsr - a.nsr), [receipts]);
+
+    // A receipt issued while the dashboard is open is shown right away, as a REP would print it
+    useEffect(() => {
+        const latest = sortedReceipts[0];
+        if (lastSeenIdRef.current !== undefined && latest && latest.id !== lastSeenIdRef.current
+            && Date.now() - latest.issuedAt.getTime() <= NEW_RECEIPT_WINDOW_MS) {
+            setViewingReceipt(latest);
+        }
+        lastSeenIdRef.current = latest?.id ?? null;
+    }, [sortedReceipts]);
+
+    const visibleReceipts = showAll ? sortedReceipts : sortedReceipts.slice(0, RECENT_COUNT);
+
+    return (
+        <div className="bg-secondary p-4 sm:p-6 rounded-lg shadow-lg">
+            <h2 className="text-2xl font-bold mb-4 text-light">Comprovantes</h2>
+            <div className="space-y-2">
+                {visibleReceipts.map(receipt => (
+                    <button
+                        key={receipt.id}
+                        type="button"
+                        onClick={() => setViewingReceipt(receipt)}
+                        className="w-full bg-primary p-3 rounded-md flex justify-between items-center text-left hover:bg-accent transition"
+                    >
+                        <div>
+                            <p className="text-sm text-light">{receipt.entryType} — {formatReceiptDateTime(receipt.timestamp)}</p>
+                            <p className="text-xs text-highlight">NSR {formatNsr(receipt.nsr)}</p>
+                        </div>
+                        <span className="text-xs text-highlight underline">Ver</span>
+                    </button>
+                ))}
+                {sortedReceipts.length === 0 && (
+                    <p className="text-sm text-highlight text-center py-4">Nenhum comprovante emitido.</p>
+                )}
+            </div>
+            {sortedReceipts.length > RECENT_COUNT && (
+                <button type="button" onClick={() => setShowAll(!showAll)} className="mt-3 text-sm text-highlight hover:text-light underline">
+                    {showAll ? 'Mostrar apenas os recentes' : `Ver todos (${sortedReceipts.length})`}
+                </button>
+            )}
+
+            {viewingReceipt && (
+                <PunchReceiptModal receipt={viewingReceipt} onClose={() => setViewingReceipt(null)} />
+            )}
+        </div>
+    );
+};
+
+interface PunchReceiptModalProps {
+    receipt: PunchReceipt;
+    onClose: () => void;
+}
+
+const PunchReceiptModal: React.FC<PunchReceiptModalProps> = ({ receipt, onClose }) => {
+    const handleDownload = () => {
+        if (!window.jspdf) {
+            alert("Não foi possível gerar o PDF. A biblioteca jsPDF não foi carregada.");
+            return;
+        }
+        renderPunchReceiptPdf(receipt).save(`comprovante_${formatNsr(receipt.nsr)}.pdf`);
+    };
+
+    return (
+        <Modal isOpen={true} onClose={onClose} title="Comprovante de Registro">
+            <div className="bg-primary p-4 rounded-md text-sm space-y-3">
+                <p className="text-center font-semibold text-light">{RECEIPT_TITLE}</p>
+                <div>
+                    <p className="text-light">{receipt.employerName || 'Empresa'}</p>
+                    <p className="text-highlight">{receipt.employerIdType}: {receipt.employerIdNumber}</p>
+                    {receipt.siteName && <p className="text-highlight">Local: {receipt.siteName}</p>}
+                </div>
+                <div>
+                    <p className="text-light">{receipt.userName}</p>
+                    <p className="text-highlight">CPF: {formatCpf(receipt.cpf)}</p>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                    <div><span className="text-highlight">Data e hora:</span> <span className="text-light">{formatReceiptDateTime(receipt.timestamp)}</span></div>
+                    <div><span className="text-highlight">Marcação:</span> <span className="text-light">{receipt.entryType}</span></div>
+                    <div><span className="text-highlight">NSR:</span> <span className="text-light font-mono">{formatNsr(receipt.nsr)}</span></div>
+                </div>
+                <div>
+                    <p className="text-highlight">Código hash (SHA-256):</p>
+                    {splitHash(receipt.hash).map(part => (
+                        <p key={part} className="text-light font-mono text-xs break-all">{part}</p>
+                    ))}
+                </div>
+            </div>
+            <div className="mt-6 flex justify-end space-x-4">
+                <button
+                    onClick={onClose}
+                    className="py-2 px-4 border border-accent rounded-md shadow-sm text-sm font-medium text-light hover:bg-accent focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-secondary focus:ring-highlight transition"
+                >
+                    Fechar
+                </button>
+                <button
+                    onClick={handleDownload}
+                    className="flex items-center space-x-2 py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-accent hover:bg-highlight focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-secondary focus:ring-highlight transition"
+                >
+                    <PdfIcon />
+                    <span>Baixar PDF</span>
+                </button>
+            </div>
+        </Modal>
+    );
+};
+
+export default PunchReceiptsCard;
@@ -1,14 +1,27 @@
 import React, { useState } from 'react';
-import { AppConfig } from '../App';
+import { AppConfig, HolidayCalendar, EmployerInfo, User, WorkSite } from '../types';
+import HolidayCalendarSettings from './HolidayCalendarSettings';
+import EmployerSettings from './EmployerSettings';
+import WorkSiteSettings, { WorkSiteDraft } from './WorkSiteSettings';
+import { DEFAULT_HOUR_BANK_EXPIRY_MONTHS } from '../utils/hourBank';
+import { DEFAULT_MAX_CLOCK_SKEW_MINUTES } from '../utils/clock';
 
 interface SettingsProps {
     initialConfig: AppConfig;
     onSave: (config: AppConfig) => void;
     onExport: () => Promise<void>;
     onImport: (fileContent: string) => Promise<{ success: boolean, message: string }>;
+    holidayCalendar: HolidayCalendar;
+    onSaveHolidayCalendar: (calendar: HolidayCalendar) => Promise<void>;
+    employer: EmployerInfo;
+    onSaveEmployer: (employer: EmployerInfo) => Promise<void>;
+    workSites: WorkSite[];
+    users: User[];
+    onSaveWorkSite: (site: WorkSiteDraft, assignedUserIds: string[]) => Promise<void>;
+    onDeleteWorkSite: (siteId: string) => Promise<void>;
 }
 
-const Settings: React.FC<SettingsProps> = ({ initialConfig, onSave, onExport, onImport }) => {
+const Settings: React.FC<SettingsProps> = ({ initialConfig, onSave, onExport, onImport, holidayCalendar, onSaveHolidayCalendar, employer, onSaveEmployer, workSites, users, onSaveWorkSite, onDeleteWorkSite }) => {
     const [config, setConfig] = useState(initialConfig);
     const [statusMessage, setStatusMessage] = useState<{ type: 'success' | 'error' | 'loading', text: string } | null>(null);
 
@@ -86,6 +99,7 @@ const Settings: React.FC<SettingsProps> = ({ initialConfig, onSave, onExport, on
                     <legend className="text-lg font-medium text-light px-2">Geolocalização</legend>
                     <p className="text-sm text-highlight mb-4">
                         Garanta que os funcionários só possam registrar o ponto quando estiverem fisicamente no local de trabalho.
+                        Este local padrão só é usado enquanto não houver locais de trabalho cadastrados.
                     </p>
                     <div className="space-y-4">
                         <div>
@@ -138,6 +152,7 @@ const Settings: React.FC<SettingsProps> = ({ initialConfig, onSave, onExport, on
                      <p className="text-sm text-highlight mb-4">
                         Defina a carga horária padrão para o cálculo do banco de horas.
                     </p>
+                    <div className="space-y-4">
                     <div>
                         <label htmlFor="workdayHours" className="block text-sm font-medium text-highlight">Jornada de Trabalho Padrão (em horas)</label>
                         <input
@@ -153,8 +168,60 @@ const Settings: React.FC<SettingsProps> = ({ initialConfig, onSave, onExport, on
                             placeholder="8"
                         />
                     </div>
+                    <div>
+                        <label htmlFor="hourBankExpiryMonths" className="block text-sm font-medium text-highlight">Validade dos Créditos do Banco de Horas (em meses)</label>
+                        <input
+                            type="number"
+                            id="hourBankExpiryMonths"
+                            name="hourBankExpiryMonths"
+                            value={config.hourBankExpiryMonths ?? DEFAULT_HOUR_BANK_EXPIRY_MONTHS}
+                            onChange={handleChange}
+                            min="0"
+                            step="1"
+                            className="mt-1 block w-full bg-primary border border-accent rounded-md shadow-sm py-2 px-3 text-light focus:outline-none focus:ring-highlight focus:border-highlight sm:text-sm"
+                            placeholder="6"
+                        />
+                        <p className="mt-1 text-xs text-highlight">Créditos não compensados nesse prazo expiram. Use 0 para não expirar.</p>
+                    </div>
+                    </div>
                  </fieldset>
 
+                <fieldset className="border border-accent rounded-lg p-4">
+                    <legend className="text-lg font-medium text-light px-2">Relógio do Dispositivo</legend>
+                    <p className="text-sm text-highlight mb-4">
+                        O horário das marcações é definido pelo servidor. Aparelhos com relógio divergente têm as marcações sinalizadas no relatório.
+                    </p>
+                    <div className="space-y-4">
+                        <div>
+                            <label htmlFor="maxClockSkewMinutes" className="block text-sm font-medium text-highlight">Diferença Máxima Tolerada (em minutos)</label>
+                            <input
+                                type="number"
+                                id="maxClockSkewMinutes"
+                                name="maxClockSkewMinutes"
+                                value={config.maxClockSkewMinutes ?? DEFAULT_MAX_CLOCK_SKEW_MINUTES}
+                                onChange={handleChange}
+                                min="0"
+                                step="0.5"
+                                className="mt-1 block w-full bg-primary border border-accent rounded-md shadow-sm py-2 px-3 text-light focus:outline-none focus:ring-highlight focus:border-highlight sm:text-sm"
+                                placeholder="2"
+                            />
+                        </div>
+                        <div className="flex items-center space-x-3">
+                            <input
+                                type="checkbox"
+                                id="blockOnClockSkew"
+                                checked={config.blockOnClockSkew ?? false}
+                                onChange={(e) => {
+                                    setConfig({ ...config, blockOnClockSkew: e.target.checked });
+                                    setStatusMessage(null);
+                                }}
+                                className="h-4 w-4 text-highlight bg-primary border-accent rounded focus:ring-highlight"
+                            />
+                            <label htmlFor="blockOnClockSkew" className="text-sm text-light">Bloquear marcações acima da diferença tolerada</label>
+                        </div>
+                    </div>
+                </fieldset>
+
                 <div className="flex items-center justify-end pt-2">
                     {statusMessage && statusMessage.type === 'success' && <p className="text-green-400 text-sm mr-4">{statusMessage.text}</p>}
                     <button
@@ -166,6 +233,12 @@ const Settings: React.FC<SettingsProps> = ({ initialConfig, onSave, onExport, on
                 </div>
             </form>
 
+            <WorkSiteSettings sites={workSites} users={users} onSave={onSaveWorkSite} onDelete={onDeleteWorkSite} />
+
+            <HolidayCalendarSettings calendar={holidayCalendar} workSites={workSites} onSave={onSaveHolidayCalendar} />
+
+            <EmployerSettings employer={employer} onSave={onSaveEmployer} />
+
             <fieldset className="border border-accent rounded-lg p-4 mt-8">
                 <legend className="text-lg font-medium text-light px-2">Backup e Restauração</legend>
                 <p className="text-sm text-highlight mb-4">
@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { User, ShiftPattern, WorkScheduleDay } from '../types';
+import Modal from './Modal';
+import WorkScheduleEditor from './WorkScheduleEditor';
+import { SHIFT_PATTERN_PRESETS, getCycleIndex } from '../utils/schedule';
+import { formatDateKey, dateKeyToDisplay } from '../utils/date';
+import { EditIcon, TrashIcon, PlusCircleIcon } from './icons';
+
+export type ShiftPatternDraft = Omit<ShiftPattern, 'id'> & { id?: string };
+
+interface ShiftPatternsProps {
+  users: User[];
+  shiftPatterns: ShiftPattern[];
+  onSave: (pattern: ShiftPatternDraft, assignedUserIds: string[]) => Promise<void>;
+  onDelete: (patternId: string) => Promise<void>;
+}
+
+const emptyStep = (): WorkScheduleDay => ({ isWorkday: true, expectedHours: 8, startTime: '08:00', endTime: '17:00' });
+
+const ShiftPatterns: React.FC<ShiftPatternsProps> = ({ users, shiftPatterns, onSave, onDelete }) => {
+  const [editingPattern, setEditingPattern] = useState<ShiftPatternDraft | null>(null);
+
+  const handleNew = () => {
+    const preset = SHIFT_PATTERN_PRESETS[0];
+    setEditingPattern({
+      name: preset.name,
+      days: preset.days.map(d => ({ ...d })),
+      anchorDate: formatDateKey(new Date()),
+      lateToleranceMinutes: 0,
+    });
+  };
+
+  const handleDelete = async (pattern: ShiftPattern) => {
+    if (!window.confirm(`Excluir a escala "${pattern.name}"? Os funcionários atribuídos voltarão à jornada semanal.`)) return;
+    await onDelete(pattern.id);
+  };
+
+  const todayKey = formatDateKey(new Date());
+
+  return (
+    <>
+      <div className="bg-secondary p-4 sm:p-6 rounded-lg shadow-lg">
+        <div className="flex justify-between items-start mb-4 gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-light">Escalas de Revezamento</h2>
+            <p className="text-sm text-highlight">Defina ciclos como 12x36, 6x1 ou 5x2 e atribua aos funcionários.</p>
+          </div>
+          <button
+            onClick={handleNew}
+            className="flex items-center space-x-2 py-2 px-4 rounded-md text-sm font-medium text-white bg-accent hover:bg-highlight transition"
+          >
+            <PlusCircleIcon />
+            <span>Nova Escala</span>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {shiftPatterns.map(pattern => {
+            const assigned = users.filter(u => u.shiftPatternId === pattern.id);
+            const todayStep = pattern.days[getCycleIndex(pattern, todayKey)];
+            return (
+              <div key={pattern.id} className="bg-primary p-4 rounded-lg shadow">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="font-bold text-light">{pattern.name}</h3>
+                    <p className="text-xs text-highlight">Ciclo de {pattern.days.length} dias · início em {dateKeyToDisplay(pattern.anchorDate)}</p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <button onClick={() => setEditingPattern(pattern)} className="text-highlight hover:text-light" aria-label={`Editar ${pattern.name}`}>
+                      <EditIcon />
+                    </button>
+                    <button onClick={() => handleDelete(pattern)} className="text-red-400 hover:text-red-300" aria-label={`Excluir ${pattern.name}`}>
+                      <TrashIcon />
+                    </button>
+                  </div>
+                </div>
+                <div className="mt-3 flex flex-wrap gap-1">
+                  {pattern.days.map((step, i) => (
+                    <span key={i} className={`px-2 py-0.5 rounded text-xs font-bold ${step.isWorkday ? 'bg-green-900 text-green-200' : 'bg-gray-700 text-gray-300'}`}>
+                      {step.isWorkday ? 'T' : 'F'}
+                    </span>
+                  ))}
+                </div>
+                <p className="mt-2 text-xs text-highlight">Hoje: <span className="text-light">{todayStep?.isWorkday ? `Trabalho (${todayStep.startTime}–${todayStep.endTime})` : 'Folga'}</span></p>
+                <p className="mt-1 text-xs text-highlight">Funcionários: <span className="text-light">{assigned.length > 0 ? assigned.map(u => u.name).join(', ') : 'nenhum'}</span></p>
+              </div>
+            );
+          })}
+          {shiftPatterns.length === 0 && (
+            <div className="col-span-full px-6 py-10 text-center text-highlight">Nenhuma escala cadastrada.</div>
+          )}
+        </div>
+      </div>
+
+      {editingPattern && (
+        <EditShiftPatternModal
+          pattern={editingPattern}
+          users={users}
+          onClose={() => setEditingPattern(null)}
+          onSave={onSave}
+        />
+      )}
+    </>
+  );
+};
+
+interface EditShiftPatternModalProps {
+    pattern: ShiftPatternDraft;
+    users: User[];
+    onClose: () => void;
+    onSave: (pattern: ShiftPatternDraft, assignedUserIds: string[]) => Promise<void>;
+}
+
+const EditShiftPatternModal: React.FC<EditShiftPatternModalProps> = ({ pattern, users, onClose, onSave }) => {
+    const [draft, setDraft] = useState<ShiftPatternDraft>(pattern);
+    const [assignedUserIds, setAssignedUserIds] = useState<string[]>(
+        pattern.id ? users.filter(u => u.shiftPatternId === pattern.id).map(u => u.id) : []
+    );
+    const [isProcessing, setIsProcessing] = useState(false);
+
+    const handlePresetChange = (presetName: string) => {
+        const preset = SHIFT_PATTERN_PRESETS.find(p => p.name === presetName);
+        if (!preset) return;
+        setDraft({ ...draft, name: draft.name || preset.name, days: preset.days.map(d => ({ ...d })) });
+    };
+
+    const handleCycleLengthChange = (length: number) => {
+        if (length < 1 || length > 31) return;
+        const days = Array.from({ length }, (_, i) => draft.days[i] ?? emptyStep());
+        setDraft({ ...draft, days });
+    };
+
+    const toggleUser = (userId: string) => {
+        setAssignedUserIds(prev => prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]);
+    };
+
+    const handleSave = async () => {
+        if (!draft.name.trim() || !draft.anchorDate) return;
+        setIsProcessing(true);
+        await onSave({ ...draft, name: draft.name.trim() }, assignedUserIds);
+        setIsProcessing(false);
+        onClose();
+    };
+
+    const inputClassName = "mt-1 block w-full bg-primary border border-accent rounded-md shadow-sm py-2 px-3 text-light focus:outline-none focus:ring-highlight focus:border-highlight sm:text-sm";
+
+    return (
+        <Modal isOpen={true} onClose={onClose} title={pattern.id ? `Editar Escala ${pattern.name}` : 'Nova Escala'}>
+            <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-2">
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label htmlFor="pattern-name" className="block text-sm font-medium text-highlight">Nome</label>
+                        <input id="pattern-name" type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="pattern-preset" className="block text-sm font-medium text-highlight">Modelo</label>
+                        <select id="pattern-preset" defaultValue="" onChange={(e) => handlePresetChange(e.target.value)} className={inputClassName}>
+                            <option value="" disabled>Aplicar modelo...</option>
+                            {SHIFT_PATTERN_PRESETS.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="pattern-anchor" className="block text-sm font-medium text-highlight">Data do Dia 1</label>
+                        <input id="pattern-anchor" type="date" value={draft.anchorDate} onChange={(e) => setDraft({ ...draft, anchorDate: e.target.value })} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="pattern-length" className="block text-sm font-medium text-highlight">Dias no ciclo</label>
+                        <input id="pattern-length" type="number" min="1" max="31" value={draft.days.length} onChange={(e) => handleCycleLengthChange(parseInt(e.target.value, 10) || 0)} className={inputClassName} />
+                    </div>
+                </div>
+
+                <WorkScheduleEditor
+                    schedule={draft}
+                    onChange={(schedule) => setDraft({ ...draft, ...schedule })}
+                    dayLabels={draft.days.map((_, i) => `Dia ${i + 1}`)}
+                />
+
+                <div className="border-t border-accent pt-4">
+                    <h4 className="text-sm font-semibold text-highlight mb-2">Funcionários nesta escala</h4>
+                    <div className="space-y-1">
+                        {users.map(user => (
+                            <label key={user.id} className="flex items-center space-x-2 text-sm text-light">
+                                <input
+                                    type="checkbox"
+                                    checked={assignedUserIds.includes(user.id)}
+                                    onChange={() => toggleUser(user.id)}
+                                    className="h-4 w-4 text-highlight bg-secondary border-accent rounded focus:ring-highlight"
+                                />
+                                <span>{user.name}</span>
+                                {user.shiftPatternId && user.shiftPatternId !== pattern.id && (
+                                    <span className="text-xs text-yellow-400">(em outra escala)</span>
+                                )}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            </div>
+            <div className="mt-6 flex justify-end space-x-4">
+                <button
+                    onClick={onClose}
+                    disabled={isProcessing}
+                    className="py-2 px-4 border border-accent rounded-md shadow-sm text-sm font-medium text-light hover:bg-accent focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-secondary focus:ring-highlight transition disabled:opacity-50"
+                >
+                    Cancelar
+                </button>
+                <button
+                    onClick={handleSave}
+                    disabled={isProcessing || !draft.name.trim() || !draft.anchorDate}
+                    className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-accent hover:bg-highlight focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-secondary focus:ring-highlight transition disabled:bg-gray-500"
+                >
+                    {isProcessing ? 'Salvando...' : 'Salvar Escala'}
+                </button>
+            </div>
+        </Modal>
+    );
+};
+
+export default ShiftPatterns;
@@ -1,41 +1,47 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { User, TimeEntry, TimeEntryType } from '../types';
+import { User, TimeEntry, TimeEntryType, ShiftPattern, HolidayCalendar, HourBankAdjustment, HourBankClosing, EmployerInfo, PunchAdjustment, PunchAdjustmentType, PunchReceipt } from '../types';
 import Modal from './Modal';
-import { EditIcon, ChartBarIcon, TargetIcon, ClockIcon, WarningIcon, PrintIcon, ExcelIcon, PdfIcon, UserGroupIcon, TrashIcon, PlusCircleIcon } from './icons';
-
-// Add jsPDF and XLSX types to the global window object for use with CDN script
+import TimesheetExportModal from './TimesheetExportModal';
+import PunchLocationPlot from './PunchLocationPlot';
+import { ProcessedDay, DayTag, DateRange, processWorkdaysInRange, sumWorkedHours, formatHours, getCurrentWorkdayEntries, getLastPunchType, formatTime, formatBreakTimes, numberPunches } from '../utils/workday';
+import { formatDateKey } from '../utils/date';
+import { buildHourBankStatements, getBalanceOn } from '../utils/hourBank';
+import { generateAfd, validateAfd } from '../utils/afd';
+import { generateAej } from '../utils/aej';
+import { downloadLatin1File } from '../utils/portaria671';
+import { resolvePunchAdjustments, describePunchTreatment, TimeEntryLoader } from '../utils/punchAdjustments';
+import { formatSkew } from '../utils/clock';
+import { EditIcon, ChartBarIcon, TargetIcon, ClockIcon, WarningIcon, PrintIcon, ExcelIcon, PdfIcon, UserGroupIcon, TrashIcon, PlusCircleIcon, DownloadIcon } from './icons';
+
+// Add jsPDF, XLSX and JSZip types to the global window object for use with CDN script
 declare global {
   interface Window {
     jspdf: any;
     XLSX: any;
+    JSZip: any;
   }
 }
 
 interface TimeReportProps {
   users: User[];
   timeEntries: TimeEntry[];
-  // FIX: Renamed prop to follow camelCase convention.
-  onUpdateTimeEntry: (entry: TimeEntry) => void;
-  onDeleteTimeEntry: (entryId: string) => void;
-  onAddTimeEntry: (entry: Omit<TimeEntry, 'id'>) => void;
+  originalTimeEntries: TimeEntry[];
+  punchAdjustments: PunchAdjustment[];
+  punchReceipts: PunchReceipt[];
+  onUpdateObservation: (entry: TimeEntry) => void;
+  onAddPunchAdjustment: (adjustment: PunchAdjustmentDraft) => Promise<void>;
   workdayHours: number;
+  shiftPatterns: ShiftPattern[];
+  holidays: HolidayCalendar;
+  hourBankAdjustments: HourBankAdjustment[];
+  hourBankClosings: HourBankClosing[];
+  hourBankExpiryMonths: number;
+  employerInfo: EmployerInfo;
+  onPeriodChange: (range: DateRange) => void; // Filtered range, so only its punches are listened to
+  onLoadTimeEntries: TimeEntryLoader; // Punches outside the filtered range, for espelhos and the AFD
 }
 
-interface ProcessedEntry {
-    id: string;
-    userId: string;
-    date: string;
-    entrada?: Date;
-    inicioIntervalo?: Date;
-    fimIntervalo?: Date;
-    saida?: Date;
-    workedHours: number;
-    balance: number;
-    status: string;
-    observation: string;
-    originalEntries: TimeEntry[];
-    tags: { text: string; color: string }[];
-}
+export type PunchAdjustmentDraft = Omit<PunchAdjustment, 'id' | 'createdById' | 'createdByName' | 'createdAt'>;
 
 const StatCard: React.FC<{ icon: React.ReactNode; title: string; value: string; subtitle?: string;}> = ({ icon, title, value, subtitle }) => (
     <div className="bg-primary p-4 rounded-lg flex items-center space-x-4">
@@ -48,144 +54,51 @@ const StatCard: React.FC<{ icon: React.ReactNode; title: string; value: string;
     </div>
 );
 
-const isSameDay = (d1: Date, d2: Date) => {
-    return d1.getFullYear() === d2.getFullYear() &&
-           d1.getMonth() === d2.getMonth() &&
-           d1.getDate() === d2.getDate();
-}
+const DayTags: React.FC<{ tags: DayTag[] }> = ({ tags }) => (
+    <div className="flex flex-wrap gap-1 mt-1">
+        {tags.map(tag => (
+            <span key={tag.text} className={`${tag.color} text-white px-1.5 py-0.5 rounded text-[10px] font-bold`}>{tag.text}</span>
+        ))}
+    </div>
+);
 
-const TimeReport: React.FC<TimeReportProps> = ({ users, timeEntries, onUpdateTimeEntry, onDeleteTimeEntry, onAddTimeEntry, workdayHours }) => {
-  const [editingDay, setEditingDay] = useState<ProcessedEntry | null>(null);
+const TimeReport: React.FC<TimeReportProps> = ({ users, timeEntries, originalTimeEntries, punchAdjustments, punchReceipts, onUpdateObservation, onAddPunchAdjustment, workdayHours, shiftPatterns, holidays, hourBankAdjustments, hourBankClosings, hourBankExpiryMonths, employerInfo, onPeriodChange, onLoadTimeEntries }) => {
+  const [editingDay, setEditingDay] = useState<ProcessedDay | null>(null);
+  const [isTimesheetModalOpen, setIsTimesheetModalOpen] = useState(false);
   const [filters, setFilters] = useState(() => {
     const today = new Date();
     const firstDay = new Date(today.getFullYear(), today.getMonth(), 1);
     const lastDay = new Date(today.getFullYear(), today.getMonth() + 1, 0);
     
-    const formatDate = (date: Date) => {
-      const year = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const day = String(date.getDate()).padStart(2, '0');
-      return `${year}-${month}-${day}`;
-    };
-
     return {
       userId: 'all',
       reportType: 'daily',
-      startDate: formatDate(firstDay),
-      endDate: formatDate(lastDay),
+      startDate: formatDateKey(firstDay),
+      endDate: formatDateKey(lastDay),
     };
   });
 
-  const processedEntries = useMemo(() => {
-    const groupedByDay: { [key: string]: { userId: string; date: string; entries: TimeEntry[] } } = {};
-
-    const formatDateKey = (date: Date) => {
-      const y = date.getFullYear();
-      const m = String(date.getMonth() + 1).padStart(2, '0');
-      const d = String(date.getDate()).padStart(2, '0');
-      return `${y}-${m}-${d}`;
-    };
+  const deactivatedEntries = useMemo(() => {
+    return resolvePunchAdjustments(originalTimeEntries, punchAdjustments).deactivated;
+  }, [originalTimeEntries, punchAdjustments]);
 
-    timeEntries.forEach(entry => {
-      const dateStr = formatDateKey(entry.timestamp);
-      const dayKey = `${entry.userId}-${dateStr}`;
-      if (!groupedByDay[dayKey]) {
-        groupedByDay[dayKey] = {
-          userId: entry.userId,
-          date: dateStr,
-          entries: [],
-        };
-      }
-      groupedByDay[dayKey].entries.push(entry);
-    });
+  const reportRange = useMemo(() => ({
+    startDate: filters.startDate,
+    endDate: filters.endDate || formatDateKey(new Date()),
+  }), [filters.startDate, filters.endDate]);
 
-    return Object.values(groupedByDay).map((dayGroup): ProcessedEntry => {
-      const sortedEntries = dayGroup.entries.sort((a,b) => a.timestamp.getTime() - b.timestamp.getTime());
-      
-      const entrada = sortedEntries.find(e => e.type === TimeEntryType.ENTRADA);
-      const inicioIntervalo = sortedEntries.find(e => e.type === TimeEntryType.INICIO_INTERVALO);
-      const fimIntervalo = sortedEntries.find(e => e.type === TimeEntryType.FIM_INTERVALO);
-      const saida = sortedEntries.find(e => e.type === TimeEntryType.SAIDA);
-      const feriasManual = sortedEntries.find(e => e.type === TimeEntryType.FERIAS);
-
-      // Check if user is on vacation according to their profile
-      const user = users.find(u => u.id === dayGroup.userId);
-      const entryDate = new Date(dayGroup.date.split('/').reverse().join('-'));
-      
-      let isVacation = !!feriasManual;
-      if (user?.vacationStart && user?.vacationEnd) {
-          const vStart = new Date(user.vacationStart);
-          const vEnd = new Date(user.vacationEnd);
-          if (entryDate >= vStart && entryDate <= vEnd) {
-              isVacation = true;
-          }
-      }
-      
-      let workedMillis = 0;
-      if (entrada && saida) {
-        const totalMillis = saida.timestamp.getTime() - entrada.timestamp.getTime();
-        let breakMillis = 0;
-        if (inicioIntervalo && fimIntervalo) {
-          breakMillis = fimIntervalo.timestamp.getTime() - inicioIntervalo.timestamp.getTime();
-        }
-        workedMillis = totalMillis - breakMillis;
-      }
-      
-      const workedHours = workedMillis > 0 ? (workedMillis / (1000 * 60 * 60)) : 0;
-      
-      // Calculate balance: if vacation, balance is 0 unless worked (then it's all extra)
-      // Actually, usually on vacation you don't lose hours. 
-      // If it's a vacation day, we treat it as if target was 0.
-      const targetHours = isVacation ? 0 : workdayHours;
-      const balance = (entrada && saida) ? workedHours - targetHours : (isVacation ? 0 : 0);
-      
-      const status = isVacation ? "Férias" : ((entrada && saida) ? "Completo" : "Incompleto");
-      const observation = sortedEntries.map(e => e.observation).filter(Boolean).join('; ');
-
-      const tags: {text: string, color: string}[] = [];
-      if (isVacation) {
-        tags.push({text: 'Férias', color: 'bg-blue-600'});
-        if (workedHours > 0) {
-            tags.push({text: 'Trabalho em Férias', color: 'bg-purple-600'});
-        }
-      } else if (status === 'Completo') {
-        tags.push({text: 'Completo', color: 'bg-green-600'});
-        if (workedHours > (workdayHours + 0.5)) { // 0.5 for tolerance
-            tags.push({text: 'Hora Extra', color: 'bg-blue-600'});
-        }
-        if (entrada && entrada.timestamp.getHours() >= 9) {
-            tags.push({text: 'Atraso', color: 'bg-red-600'});
-        }
-      } else {
-        tags.push({text: 'Incompleto', color: 'bg-yellow-600'});
-      }
+  useEffect(() => {
+    onPeriodChange(reportRange);
+  }, [reportRange, onPeriodChange]);
 
+  const processedEntries = useMemo(() => {
+    return processWorkdaysInRange(timeEntries, { users, workdayHours, shiftPatterns, holidays }, reportRange);
+  }, [timeEntries, users, workdayHours, shiftPatterns, holidays, reportRange]);
 
-      const [y, m, d] = dayGroup.date.split('-').map(Number);
-      const displayDate = `${String(d).padStart(2, '0')}/${String(m).padStart(2, '0')}/${y}`;
-
-      return {
-        id: `${dayGroup.userId}-${dayGroup.date}`,
-        userId: dayGroup.userId,
-        date: displayDate,
-        entrada: entrada?.timestamp,
-        inicioIntervalo: inicioIntervalo?.timestamp,
-        fimIntervalo: fimIntervalo?.timestamp,
-        saida: saida?.timestamp,
-        workedHours,
-        balance,
-        status,
-        observation,
-        originalEntries: sortedEntries,
-        tags
-      };
-    })
-    .sort((a, b) => {
-        const dateA = new Date(a.date.split('/').reverse().join('-'));
-        const dateB = new Date(b.date.split('/').reverse().join('-'));
-        return dateB.getTime() - dateA.getTime();
-    });
-  }, [timeEntries, workdayHours]);
+  // The hour bank continues from the latest closing, so balances don't reset with the filters
+  const hourBankStatements = useMemo(() => {
+    return buildHourBankStatements(timeEntries, hourBankAdjustments, hourBankClosings, { users, workdayHours, shiftPatterns, holidays }, reportRange, hourBankExpiryMonths);
+  }, [timeEntries, hourBankAdjustments, hourBankClosings, users, workdayHours, shiftPatterns, holidays, reportRange, hourBankExpiryMonths]);
 
   useEffect(() => {
     if (editingDay) {
@@ -203,72 +116,37 @@ const TimeReport: React.FC<TimeReportProps> = ({ users, timeEntries, onUpdateTim
       if (filters.userId !== 'all' && entry.userId !== filters.userId) {
         return false;
       }
-      if (filters.startDate) {
-        const entryDate = new Date(entry.date.split('/').reverse().join('-'));
-        const filterDate = new Date(filters.startDate);
-        if (entryDate < filterDate) return false;
-      }
-      if (filters.endDate) {
-        const entryDate = new Date(entry.date.split('/').reverse().join('-'));
-        const filterDate = new Date(filters.endDate);
-        if (entryDate > filterDate) return false;
-      }
+      if (filters.startDate && entry.dateKey < filters.startDate) return false;
+      if (filters.endDate && entry.dateKey > filters.endDate) return false;
       return true;
     });
   }, [processedEntries, filters]);
 
   const entriesWithAccumulatedBalance = useMemo(() => {
-    // Use a map to track balance per user
-    const accumulatedBalances: { [key: string]: number } = {};
-    
-    // We sort the filtered entries by date to correctly calculate the running total
-    const sorted = [...filteredEntries].sort((a, b) => new Date(a.date.split('/').reverse().join('-')).getTime() - new Date(b.date.split('/').reverse().join('-')).getTime());
-
-    const entries = sorted.map(entry => {
-        // Get the current balance for the user, or 0 if it's the first entry for them
-        const currentBalance = accumulatedBalances[entry.userId] || 0;
-        
-        // Calculate the new accumulated balance
-        const newAccumulatedBalance = currentBalance + entry.balance;
-        
-        // Update the balance for the user in our tracking map
-        accumulatedBalances[entry.userId] = newAccumulatedBalance;
-        
-        // Return the entry with the new property
-        return { ...entry, accumulatedBalance: newAccumulatedBalance };
-    });
-    
-    // Return to descending order for display
-    return entries.reverse();
-  }, [filteredEntries]);
+    return filteredEntries.map(entry => ({
+        ...entry,
+        accumulatedBalance: getBalanceOn(hourBankStatements[entry.userId], entry.dateKey),
+    }));
+  }, [filteredEntries, hourBankStatements]);
 
   const summaryStats = useMemo(() => {
-    const currentMonthEntries = processedEntries.filter(e => {
-        const entryDate = new Date(e.date.split('/').reverse().join('-'));
-        const today = new Date();
-        return entryDate.getMonth() === today.getMonth() && entryDate.getFullYear() === today.getFullYear();
-    });
-
-    const totalHoursMonth = currentMonthEntries.reduce((acc, curr) => acc + curr.workedHours, 0);
-    const totalBalance = processedEntries.reduce((acc, curr) => acc + curr.balance, 0);
-    const overtime = currentMonthEntries.reduce((acc, curr) => acc + (curr.workedHours > workdayHours ? curr.workedHours - workdayHours : 0), 0);
-    const lateness = currentMonthEntries.filter(e => e.entrada && e.entrada.getHours() >= 9).length;
+    const currentMonthKey = formatDateKey(new Date()).slice(0, 7);
+    const currentMonthEntries = processedEntries.filter(e => e.dateKey.startsWith(currentMonthKey));
 
-    const today = new Date();
-    const entriesToday = timeEntries.filter(entry => isSameDay(entry.timestamp, today));
-    
-    const userStatus: { [userId: string]: TimeEntryType | null } = {};
+    const totalHoursMonth = sumWorkedHours(currentMonthEntries);
+    const totalBalance = users.reduce((acc, user) => acc + (hourBankStatements[user.id]?.closingBalance ?? 0), 0);
+    const overtime = currentMonthEntries.reduce((acc, curr) => acc + curr.overtimeHours, 0);
+    const lateness = currentMonthEntries.filter(e => e.tags.some(t => t.text === 'Atraso')).length;
 
-    entriesToday
-        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
-        .forEach(entry => {
-            userStatus[entry.userId] = entry.type;
-        });
-    
-    const currentlyWorking = Object.values(userStatus).filter(
-        status => status && status !== TimeEntryType.SAIDA
-    ).length;
+    const entriesByUser: { [userId: string]: TimeEntry[] } = {};
+    timeEntries.forEach(entry => {
+        (entriesByUser[entry.userId] = entriesByUser[entry.userId] || []).push(entry);
+    });
 
+    const currentlyWorking = Object.values(entriesByUser).filter(userEntries => {
+        const lastType = getLastPunchType(getCurrentWorkdayEntries(userEntries));
+        return lastType !== null && lastType !== TimeEntryType.SAIDA;
+    }).length;
 
     return {
         totalHoursMonth: totalHoursMonth.toFixed(2) + 'h',
@@ -277,26 +155,16 @@ const TimeReport: React.FC<TimeReportProps> = ({ users, timeEntries, onUpdateTim
         lateness,
         currentlyWorking
     };
-  }, [processedEntries, timeEntries, workdayHours]);
+  }, [processedEntries, hourBankStatements, users, timeEntries]);
 
   const totalWorkedHours = useMemo(() => {
-    return filteredEntries.reduce((acc, curr) => acc + curr.workedHours, 0);
+    return sumWorkedHours(filteredEntries);
   }, [filteredEntries]);
 
   const handleFilterChange = (e: React.ChangeEvent<HTMLSelectElement | HTMLInputElement>) => {
     const { name, value } = e.target;
     setFilters(prev => ({ ...prev, [name]: value }));
   };
-
-  const formatHours = (hours: number) => {
-    const sign = hours < 0 ? "-" : "+";
-    const absoluteHours = Math.abs(hours);
-    const h = Math.floor(absoluteHours);
-    const m = Math.round((absoluteHours * 60) % 60);
-    return `${sign}${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
-  };
-
-  const formatTime = (date?: Date) => date ? date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' }) : '--';
   
   const handleExportExcel = () => {
     if (!window.XLSX) {
@@ -311,9 +179,10 @@ const TimeReport: React.FC<TimeReportProps> = ({ users, timeEntries, onUpdateTim
             "Funcionário": user?.name || 'N/A',
             "Data": entry.date,
             "Entrada": formatTime(entry.entrada),
-            "Início Intervalo": formatTime(entry.inicioIntervalo),
-            "Fim Intervalo": formatTime(entry.fimIntervalo),
+            "Início Intervalo": formatBreakTimes(entry.breaks, 'start'),
+            "Fim Intervalo": formatBreakTimes(entry.breaks, 'end'),
             "Saída": formatTime(entry.saida),
+            "Horas Previstas": parseFloat(entry.expectedHours.toFixed(2)),
             "Horas Trabalhadas": parseFloat(entry.workedHours.toFixed(2)),
             "Saldo Dia": formatHours(entry.balance),
             "Status": entry.status,
@@ -325,7 +194,7 @@ const TimeReport: React.FC<TimeReportProps> = ({ users, timeEntries, onUpdateTim
     
     // Adicionar linha de total ao final
     window.XLSX.utils.sheet_add_aoa(worksheet, [
-        ["Total", "", "", "", "", "", parseFloat(totalWorkedHours.toFixed(2))]
+        ["Total", "", "", "", "", "", "", parseFloat(totalWorkedHours.toFixed(2))]
     ], { origin: -1 });
 
     const workbook = window.XLSX.utils.book_new();
@@ -391,13 +260,85 @@ const TimeReport: React.FC<TimeReportProps> = ({ users, timeEntries, onUpdateTim
       doc.save("relatorio_ponto.pdf");
   };
 
+  const handleExportAfd = async () => {
+      if (!employerInfo.idNumber || !employerInfo.name || !employerInfo.inpiRegistration) {
+          alert("Preencha os dados do empregador em Configurações antes de gerar o AFD.");
+          return;
+      }
+      if (!filters.startDate) {
+          alert("Informe a data de início do período do AFD.");
+          return;
+      }
+
+      // NSRs of punches from before the receipts existed come from their chain over the whole
+      // history, so those are read now; later punches are numbered by their receipts
+      const firstReceipt: PunchReceipt | undefined = [...punchReceipts].sort((a, b) => a.nsr - b.nsr)[0];
+      let legacyEntries: TimeEntry[];
+      try {
+          const legacyEnd = firstReceipt ? formatDateKey(firstReceipt.timestamp) : reportRange.endDate;
+          legacyEntries = (await onLoadTimeEntries({ startDate: '', endDate: legacyEnd })).originals;
+      } catch (error) {
+          console.error("Error loading time entries for the AFD:", error);
+          alert("Não foi possível carregar as marcações para o AFD.");
+          return;
+      }
+      const entriesById = new Map([...legacyEntries, ...originalTimeEntries].map(entry => [entry.id, entry]));
+
+      // The AFD carries the original marks only; adjustments are reported in the AEJ
+      const { content, fileName, warnings } = await generateAfd({
+          employer: employerInfo,
+          users,
+          timeEntries: Array.from(entriesById.values()),
+          receipts: punchReceipts,
+          startDate: reportRange.startDate,
+          endDate: reportRange.endDate,
+      });
+      const errors = await validateAfd(content);
+      if (errors.length > 0) {
+          console.error("AFD validation errors:", errors);
+          alert(`O AFD gerado não passou na validação do leiaute:\n${errors.slice(0, 10).join('\n')}`);
+          return;
+      }
+      if (warnings.length > 0) {
+          alert(`AFD gerado com avisos:\n${warnings.join('\n')}`);
+      }
+      downloadLatin1File(content, fileName);
+  };
+
+  const handleExportAej = () => {
+      if (!employerInfo.idNumber || !employerInfo.name || !employerInfo.inpiRegistration) {
+          alert("Preencha os dados do empregador em Configurações antes de gerar o AEJ.");
+          return;
+      }
+      if (!filters.startDate) {
+          alert("Informe a data de início do período do AEJ.");
+          return;
+      }
+
+      const { content, fileName, warnings } = generateAej({
+          employer: employerInfo,
+          users: filters.userId === 'all' ? users : users.filter(u => u.id === filters.userId),
+          // Built from the original marks, so adjustments show up as disregarded and included marks
+          timeEntries: originalTimeEntries,
+          punchAdjustments,
+          hourBankAdjustments,
+          context: { users, workdayHours, shiftPatterns, holidays },
+          startDate: reportRange.startDate,
+          endDate: reportRange.endDate,
+      });
+      if (warnings.length > 0) {
+          alert(`AEJ gerado com avisos:\n${warnings.join('\n')}`);
+      }
+      downloadLatin1File(content, fileName);
+  };
+
   return (
     <div className="space-y-6">
         {/* Stats Cards */}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-6 print:hidden">
             <StatCard icon={<UserGroupIcon />} title="Trabalhando Agora" value={summaryStats.currentlyWorking.toString()} />
             <StatCard icon={<ChartBarIcon />} title="Horas no Mês" value={summaryStats.totalHoursMonth} />
-            <StatCard icon={<ClockIcon />} title="Saldo Geral (Banco)" value={summaryStats.totalBalance} subtitle="Todos os funcionários" />
+            <StatCard icon={<ClockIcon />} title="Saldo Geral (Banco)" value={summaryStats.totalBalance} subtitle="Todos, ao fim do período" />
             <StatCard icon={<TargetIcon />} title="Horas Extras" value={summaryStats.overtime} subtitle="Este mês" />
             <StatCard icon={<WarningIcon />} title="Atrasos" value={summaryStats.lateness.toString()} subtitle="Este mês" />
         </div>
@@ -413,6 +354,9 @@ const TimeReport: React.FC<TimeReportProps> = ({ users, timeEntries, onUpdateTim
                     <button onClick={() => window.print()} className="flex items-center bg-purple-600 hover:bg-purple-700 text-white text-sm font-medium py-2 px-3 rounded-md transition"><PrintIcon/> <span className="hidden sm:inline ml-1">Imprimir</span></button>
                     <button onClick={handleExportExcel} className="flex items-center bg-green-600 hover:bg-green-700 text-white text-sm font-medium py-2 px-3 rounded-md transition"><ExcelIcon/> <span className="hidden sm:inline ml-1">Excel</span></button>
                     <button onClick={handleExportPdf} className="flex items-center bg-yellow-600 hover:bg-yellow-700 text-white text-sm font-medium py-2 px-3 rounded-md transition"><PdfIcon/> <span className="hidden sm:inline ml-1">PDF</span></button>
+                    <button onClick={() => setIsTimesheetModalOpen(true)} title="Espelho de ponto mensal por funcionário" className="flex items-center bg-orange-600 hover:bg-orange-700 text-white text-sm font-medium py-2 px-3 rounded-md transition"><PdfIcon/> <span className="hidden sm:inline ml-1">Espelhos</span></button>
+                    <button onClick={handleExportAfd} title="Arquivo Fonte de Dados (Portaria 671)" className="flex items-center bg-teal-600 hover:bg-teal-700 text-white text-sm font-medium py-2 px-3 rounded-md transition"><DownloadIcon/> <span className="hidden sm:inline ml-1">AFD</span></button>
+                    <button onClick={handleExportAej} title="Arquivo Eletrônico de Jornada (Portaria 671)" className="flex items-center bg-cyan-600 hover:bg-cyan-700 text-white text-sm font-medium py-2 px-3 rounded-md transition"><DownloadIcon/> <span className="hidden sm:inline ml-1">AEJ</span></button>
                 </div>
             </div>
 
@@ -453,6 +397,7 @@ const TimeReport: React.FC<TimeReportProps> = ({ users, timeEntries, onUpdateTim
                                 <div>
                                     <h4 className="font-bold text-light">{user?.name || 'N/A'}</h4>
                                     <p className="text-sm text-highlight">{entry.date}</p>
+                                    <DayTags tags={entry.tags} />
                                 </div>
                                 <button onClick={() => setEditingDay(entry)} className="text-highlight hover:text-light p-1 rounded-full hover:bg-accent transition">
                                     <EditIcon />
@@ -462,8 +407,8 @@ const TimeReport: React.FC<TimeReportProps> = ({ users, timeEntries, onUpdateTim
                             <div className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm mb-3">
                                 <div><span className="text-highlight">Entrada:</span> <span className="text-light">{formatTime(entry.entrada)}</span></div>
                                 <div><span className="text-highlight">Saída:</span> <span className="text-light">{formatTime(entry.saida)}</span></div>
-                                <div><span className="text-highlight">In. Intervalo:</span> <span className="text-light">{formatTime(entry.inicioIntervalo)}</span></div>
-                                <div><span className="text-highlight">Fim Intervalo:</span> <span className="text-light">{formatTime(entry.fimIntervalo)}</span></div>
+                                <div><span className="text-highlight">In. Intervalo:</span> <span className="text-light">{formatBreakTimes(entry.breaks, 'start')}</span></div>
+                                <div><span className="text-highlight">Fim Intervalo:</span> <span className="text-light">{formatBreakTimes(entry.breaks, 'end')}</span></div>
                             </div>
 
                             <div className="border-t border-accent pt-3 grid grid-cols-3 gap-2 text-center">
@@ -521,10 +466,13 @@ const TimeReport: React.FC<TimeReportProps> = ({ users, timeEntries, onUpdateTim
                     return (
                       <tr key={entry.id}>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-light">{user?.name || 'N/A'}</td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-light">{entry.date}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-light">
+                          {entry.date}
+                          <DayTags tags={entry.tags} />
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-light">{formatTime(entry.entrada)}</td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-light">{formatTime(entry.inicioIntervalo)}</td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-light">{formatTime(entry.fimIntervalo)}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-light">{formatBreakTimes(entry.breaks, 'start')}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-light">{formatBreakTimes(entry.breaks, 'end')}</td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-light">{formatTime(entry.saida)}</td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-light">{entry.workedHours.toFixed(2)}h</td>
                         <td className={`px-6 py-4 whitespace-nowrap text-sm font-semibold ${balanceColor}`}>{formatHours(entry.balance)}</td>
@@ -559,10 +507,23 @@ const TimeReport: React.FC<TimeReportProps> = ({ users, timeEntries, onUpdateTim
         {editingDay && (
             <EditDayModal 
                 day={editingDay} 
+                deactivatedEntries={deactivatedEntries}
                 onClose={() => setEditingDay(null)} 
-                onSave={onUpdateTimeEntry}
-                onDelete={onDeleteTimeEntry}
-                onAdd={onAddTimeEntry}
+                onUpdateObservation={onUpdateObservation}
+                onAdjust={onAddPunchAdjustment}
+            />
+        )}
+
+        {isTimesheetModalOpen && (
+            <TimesheetExportModal
+                users={filters.userId === 'all' ? users : users.filter(u => u.id === filters.userId)}
+                onLoadTimeEntries={onLoadTimeEntries}
+                hourBankAdjustments={hourBankAdjustments}
+                hourBankClosings={hourBankClosings}
+                context={{ users, workdayHours, shiftPatterns, holidays }}
+                hourBankExpiryMonths={hourBankExpiryMonths}
+                employer={employerInfo}
+                onClose={() => setIsTimesheetModalOpen(false)}
             />
         )}
     </div>
@@ -570,15 +531,20 @@ const TimeReport: React.FC<TimeReportProps> = ({ users, timeEntries, onUpdateTim
 };
 
 interface EditDayModalProps {
-    day: ProcessedEntry;
+    day: ProcessedDay;
+    deactivatedEntries: TimeEntry[];
     onClose: () => void;
-    onSave: (entry: TimeEntry) => void;
-    onDelete: (entryId: string) => void;
-    onAdd: (entry: Omit<TimeEntry, 'id'>) => void;
+    onUpdateObservation: (entry: TimeEntry) => void;
+    onAdjust: (adjustment: PunchAdjustmentDraft) => Promise<void>;
 }
 
-const EditDayModal: React.FC<EditDayModalProps> = ({ day, onClose, onSave, onDelete, onAdd }) => {
+// Original punches are never edited: time changes, removals and new punches are recorded as adjustments
+const EditDayModal: React.FC<EditDayModalProps> = ({ day, deactivatedEntries, onClose, onUpdateObservation, onAdjust }) => {
     const [entries, setEntries] = useState<TimeEntry[]>(day.originalEntries);
+    const punchLabels = useMemo(() => numberPunches(day.originalEntries), [day.originalEntries]);
+    const [reason, setReason] = useState('');
+    const [error, setError] = useState('');
+    const [locationEntryId, setLocationEntryId] = useState<string | null>(null);
     const [isAdding, setIsAdding] = useState(false);
     const [newEntryData, setNewEntryData] = useState({
         type: TimeEntryType.ENTRADA,
@@ -589,6 +555,15 @@ const EditDayModal: React.FC<EditDayModalProps> = ({ day, onClose, onSave, onDel
     useEffect(() => {
         setEntries(day.originalEntries);
     }, [day.originalEntries]);
+
+    // Deactivated punches from the same calendar day or within the span of the workday (overnight shifts)
+    const dayDeactivatedEntries = useMemo(() => {
+        const first = day.originalEntries[0]?.timestamp;
+        const last = day.originalEntries[day.originalEntries.length - 1]?.timestamp;
+        return deactivatedEntries
+            .filter(e => e.userId === day.userId && (formatDateKey(e.timestamp) === day.dateKey || (first && last && e.timestamp >= first && e.timestamp <= last)))
+            .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    }, [deactivatedEntries, day]);
     
     const handleTimeChange = (id: string, newDateTime: string) => {
         setEntries(prev => prev.map(e => e.id === id ? {...e, timestamp: new Date(newDateTime)} : e));
@@ -597,36 +572,74 @@ const EditDayModal: React.FC<EditDayModalProps> = ({ day, onClose, onSave, onDel
     const handleObservationChange = (id: string, newObservation: string) => {
         setEntries(prev => prev.map(e => e.id === id ? {...e, observation: newObservation} : e));
     };
+
+    const requireReason = () => {
+        if (!reason.trim()) {
+            setError('Informe o motivo do ajuste.');
+            return false;
+        }
+        setError('');
+        return true;
+    };
     
     const handleSaveUpdates = () => {
+        const changedTimes = entries.filter(entry => {
+            const original = day.originalEntries.find(o => o.id === entry.id);
+            return original && original.timestamp.getTime() !== entry.timestamp.getTime();
+        });
+        if (changedTimes.length > 0 && !requireReason()) return;
+
+        changedTimes.forEach(entry => {
+            onAdjust({
+                userId: entry.userId,
+                adjustmentType: PunchAdjustmentType.TIME_CHANGE,
+                entryType: entry.type,
+                entryId: entry.id,
+                timestamp: entry.timestamp,
+                reason: reason.trim(),
+            });
+        });
         entries.forEach(entry => {
             const original = day.originalEntries.find(o => o.id === entry.id);
-            if (original?.timestamp !== entry.timestamp || original?.observation !== entry.observation) {
-                onSave(entry);
+            if (original && original.observation !== entry.observation) {
+                onUpdateObservation(entry);
             }
         });
         onClose();
     };
 
-    const handleDelete = (entryId: string) => {
-        // The confirm dialog was removed because it was being blocked by the execution environment's sandbox,
-        // preventing the delete action from ever running.
-        // The optimistic UI update was also removed to rely on the single source of truth from props,
-        // ensuring the UI only reflects the confirmed state of the database.
-        onDelete(entryId);
+    const handleDeactivate = (entry: TimeEntry) => {
+        if (!requireReason()) return;
+        // The confirm dialog was removed because it was being blocked by the execution environment's sandbox.
+        // The UI relies on the single source of truth from props, so the punch moves to the
+        // deactivated list once the adjustment is confirmed by the database.
+        onAdjust({
+            userId: entry.userId,
+            adjustmentType: PunchAdjustmentType.DEACTIVATION,
+            entryType: entry.type,
+            entryId: entry.id,
+            reason: reason.trim(),
+        });
     };
 
     const handleAddNewEntry = () => {
+        if (!requireReason()) return;
         const [dayDate, month, year] = day.date.split('/').map(Number);
         const newTimestamp = new Date(newEntryData.timestamp);
         // Set the date from the day being edited, preserving the new time
         newTimestamp.setFullYear(year, month - 1, dayDate);
+        // In an overnight shift, punches earlier than the Entrada belong to the next calendar day
+        if (day.entrada && newEntryData.type !== TimeEntryType.ENTRADA && newTimestamp < day.entrada) {
+            newTimestamp.setDate(newTimestamp.getDate() + 1);
+        }
 
-        onAdd({
+        onAdjust({
             userId: day.userId,
+            adjustmentType: PunchAdjustmentType.INCLUSION,
+            entryType: newEntryData.type,
             timestamp: newTimestamp,
-            type: newEntryData.type,
             observation: newEntryData.observation,
+            reason: reason.trim(),
         });
         setIsAdding(false);
         setNewEntryData({type: TimeEntryType.ENTRADA, timestamp: new Date(), observation: ''});
@@ -642,14 +655,58 @@ const EditDayModal: React.FC<EditDayModalProps> = ({ day, onClose, onSave, onDel
     return (
         <Modal isOpen={true} onClose={onClose} title={`Editar Dia: ${day.date}`}>
              <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-2">
+                <div className="p-3 bg-primary rounded-md text-sm space-y-1">
+                    <p><span className="text-highlight">Períodos trabalhados:</span> <span className="text-light">{day.workPeriods.map(p => `${formatTime(p.start)}–${formatTime(p.end)}`).join(', ') || '--'}</span></p>
+                    <p><span className="text-highlight">Intervalos:</span> <span className="text-light">{day.breaks.map(b => `${formatTime(b.start)}–${formatTime(b.end)}`).join(', ') || '--'}</span></p>
+                    {!day.isConsistent && (
+                        <p className="text-orange-400 text-xs">Há marcações fora da sequência Entrada → Intervalo → Saída. Elas foram ignoradas no cálculo.</p>
+                    )}
+                </div>
+                <div>
+                    <label htmlFor="adjustment-reason" className="block text-xs font-medium text-highlight">Motivo do ajuste</label>
+                    <input
+                        id="adjustment-reason"
+                        type="text"
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        placeholder="Obrigatório para incluir, alterar ou desconsiderar marcações"
+                        className="mt-1 block w-full bg-secondary border border-accent rounded-md shadow-sm py-2 px-3 text-light focus:outline-none focus:ring-highlight focus:border-highlight sm:text-sm"
+                    />
+                    <p className="text-xs text-gray-400 mt-1">As marcações originais são preservadas; cada alteração fica registrada como ajuste.</p>
+                    {error && <p className="text-red-400 text-sm mt-1">{error}</p>}
+                </div>
                 {entries.sort((a,b) => a.timestamp.getTime() - b.timestamp.getTime()).map(entry => (
                     <div key={entry.id} className="p-3 bg-primary rounded-md">
                         <div className="flex justify-between items-center mb-2">
-                            <h4 className="font-semibold text-highlight">{entry.type}</h4>
-                            <button onClick={() => handleDelete(entry.id)} className="text-red-400 hover:text-red-300 transition-colors" aria-label="Excluir registro">
+                            <div>
+                                <h4 className="font-semibold text-highlight">{punchLabels[entry.id] || entry.type}</h4>
+                                {entry.adjustment && (
+                                    <p className="text-xs text-cyan-400" title={entry.adjustment.reason}>{describePunchTreatment(entry)} por {entry.adjustment.createdByName}</p>
+                                )}
+                                {entry.siteName && <p className="text-xs text-gray-400">Local: {entry.siteName}</p>}
+                                {entry.clockSkewMs !== undefined && (
+                                    <p className={`text-xs ${entry.clockSkewFlagged ? 'text-orange-400 font-semibold' : 'text-gray-400'}`}>
+                                        Relógio do aparelho: {entry.deviceTimestamp?.toLocaleTimeString('pt-BR') ?? '--'} ({formatSkew(entry.clockSkewMs)})
+                                    </p>
+                                )}
+                                {entry.locationCheck && (
+                                    <button
+                                        onClick={() => setLocationEntryId(locationEntryId === entry.id ? null : entry.id)}
+                                        className={`text-xs underline ${entry.locationCheck.status === 'allowed' ? 'text-green-400' : 'text-red-400'}`}
+                                    >
+                                        {entry.locationCheck.status === 'allowed' ? 'Dentro da cerca' : 'Fora da cerca'} · {entry.locationCheck.distance ?? '--'}m
+                                    </button>
+                                )}
+                            </div>
+                            <button onClick={() => handleDeactivate(entry)} className="text-red-400 hover:text-red-300 transition-colors" aria-label="Desconsiderar marcação" title="Desconsiderar marcação">
                                 <TrashIcon />
                             </button>
                         </div>
+                        {locationEntryId === entry.id && entry.locationCheck && (
+                            <div className="mb-3">
+                                <PunchLocationPlot check={entry.locationCheck} />
+                            </div>
+                        )}
                          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                             <div>
                                 <label className="block text-xs font-medium text-highlight">Data e Hora</label>
@@ -673,6 +730,18 @@ const EditDayModal: React.FC<EditDayModalProps> = ({ day, onClose, onSave, onDel
                     </div>
                 ))}
 
+                {dayDeactivatedEntries.length > 0 && (
+                    <div className="space-y-2">
+                        <h4 className="text-sm font-semibold text-highlight">Marcações desconsideradas</h4>
+                        {dayDeactivatedEntries.map(entry => (
+                            <div key={entry.id} className="p-3 bg-primary rounded-md text-sm opacity-70">
+                                <p className="text-light line-through">{entry.type} — {entry.timestamp.toLocaleString('pt-BR')}</p>
+                                <p className="text-xs text-gray-400">Motivo: {entry.adjustment?.reason} ({entry.adjustment?.createdByName})</p>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
                 {isAdding && (
                     <div className="p-3 bg-primary border border-dashed border-accent rounded-md mt-4">
                         <h4 className="font-semibold text-light mb-2">Novo Registro</h4>
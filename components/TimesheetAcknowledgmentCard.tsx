@@ -0,0 +1,175 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { User, TimeEntry, HourBankAdjustment, HourBankClosing, EmployerInfo, TimesheetAcknowledgment, AcknowledgmentStatus } from '../types';
+import { WorkdayContext, formatHours } from '../utils/workday';
+import { buildTimesheet, renderTimesheetPdf, hashTimesheet, getClosedMonths, getTimesheetRange, formatDuration } from '../utils/timesheet';
+import { TimeEntryLoader } from '../utils/punchAdjustments';
+import { formatMonthLabel } from '../utils/date';
+import { CheckCircleIcon, WarningIcon, PdfIcon } from './icons';
+
+interface TimesheetAcknowledgmentCardProps {
+    user: User;
+    onLoadTimeEntries: TimeEntryLoader; // The month's punches are read when it is selected
+    hourBankAdjustments: HourBankAdjustment[];
+    hourBankClosings: HourBankClosing[];
+    context: WorkdayContext;
+    hourBankExpiryMonths: number;
+    employer: EmployerInfo;
+    acknowledgments: TimesheetAcknowledgment[];
+    onAcknowledge: (month: string, status: AcknowledgmentStatus, comment: string, contentHash: string) => Promise<{ success: boolean; message: string }>;
+}
+
+const TimesheetAcknowledgmentCard: React.FC<TimesheetAcknowledgmentCardProps> = ({ user, onLoadTimeEntries, hourBankAdjustments, hourBankClosings, context, hourBankExpiryMonths, employer, acknowledgments, onAcknowledge }) => {
+    const closedMonths = useMemo(() => getClosedMonths(12), []);
+    const [month, setMonth] = useState(closedMonths[0]);
+    const [contentHash, setContentHash] = useState<string | null>(null);
+    const [isContesting, setIsContesting] = useState(false);
+    const [comment, setComment] = useState('');
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [timeEntries, setTimeEntries] = useState<TimeEntry[] | null>(null);
+    const [loadError, setLoadError] = useState(false);
+    const [submitStatus, setSubmitStatus] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    const loadRange = useMemo(() => getTimesheetRange([user], month, hourBankClosings), [user, month, hourBankClosings]);
+
+    useEffect(() => {
+        let cancelled = false;
+        setTimeEntries(null);
+        setLoadError(false);
+        onLoadTimeEntries(loadRange, user.id)
+            .then(loaded => { if (!cancelled) setTimeEntries(loaded.treated); })
+            .catch(error => {
+                console.error("Error loading the espelho time entries:", error);
+                if (!cancelled) setLoadError(true);
+            });
+        return () => { cancelled = true; };
+    }, [loadRange, user.id, onLoadTimeEntries]);
+
+    const timesheet = useMemo(() => {
+        if (!timeEntries) return null;
+        return buildTimesheet({ user, month, timeEntries, hourBankAdjustments, hourBankClosings, context, hourBankExpiryMonths });
+    }, [user, month, timeEntries, hourBankAdjustments, hourBankClosings, context, hourBankExpiryMonths]);
+
+    useEffect(() => {
+        let cancelled = false;
+        setContentHash(null);
+        if (timesheet) hashTimesheet(timesheet).then(hash => { if (!cancelled) setContentHash(hash); });
+        return () => { cancelled = true; };
+    }, [timesheet]);
+
+    const acknowledgment = acknowledgments.find(a => a.month === month);
+    const isOutdated = !!acknowledgment && !!contentHash && acknowledgment.contentHash !== contentHash;
+
+    const handleView = () => {
+        if (!timesheet) return;
+        if (!window.jspdf) {
+            alert("Não foi possível gerar o PDF. A biblioteca jsPDF não foi carregada.");
+            return;
+        }
+        window.open(renderTimesheetPdf(timesheet, employer).output('bloburl'), '_blank');
+    };
+
+    const handleSubmit = async (status: AcknowledgmentStatus) => {
+        if (!contentHash) return;
+        if (status === AcknowledgmentStatus.CONTESTED && !comment.trim()) return;
+        setIsProcessing(true);
+        setSubmitStatus(null);
+        const result = await onAcknowledge(month, status, status === AcknowledgmentStatus.CONTESTED ? comment.trim() : '', contentHash);
+        setIsProcessing(false);
+        setSubmitStatus({ type: result.success ? 'success' : 'error', text: result.message });
+        // The comment is kept so a failed contestation can be sent again
+        if (!result.success) return;
+        setIsContesting(false);
+        setComment('');
+    };
+
+    return (
+        <div className="bg-secondary p-4 sm:p-6 rounded-lg shadow-lg">
+            <div className="flex justify-between items-center mb-4 gap-4">
+                <h2 className="text-2xl font-bold text-light">Espelho de Ponto</h2>
+                <select
+                    value={month}
+                    onChange={(e) => { setMonth(e.target.value); setIsContesting(false); setSubmitStatus(null); }}
+                    className="bg-primary border border-accent rounded-md px-3 py-1.5 text-light text-sm focus:ring-highlight focus:border-highlight"
+                >
+                    {closedMonths.map(m => <option key={m} value={m}>{formatMonthLabel(m)}</option>)}
+                </select>
+            </div>
+
+            {timesheet ? (
+                <div className="grid grid-cols-2 gap-2 text-sm mb-4">
+                    <div><span className="text-highlight">Trabalhado:</span> <span className="text-light">{formatDuration(timesheet.totals.workedHours)}</span></div>
+                    <div><span className="text-highlight">Previsto:</span> <span className="text-light">{formatDuration(timesheet.totals.expectedHours)}</span></div>
+                    <div><span className="text-highlight">Faltas:</span> <span className="text-light">{timesheet.totals.absences}</span></div>
+                    <div><span className="text-highlight">Banco:</span> <span className="text-light">{formatHours(timesheet.hourBank.closingBalance)}</span></div>
+                </div>
+            ) : (
+                <p className={`text-sm mb-4 ${loadError ? 'text-red-400' : 'text-highlight'}`}>
+                    {loadError ? 'Não foi possível carregar as marcações do mês.' : 'Carregando marcações...'}
+                </p>
+            )}
+
+            <button onClick={handleView} disabled={!timesheet} className="w-full flex items-center justify-center space-x-2 text-white font-bold py-2 px-4 rounded-lg transition bg-accent hover:bg-highlight mb-4 disabled:bg-gray-500">
+                <PdfIcon />
+                <span>Visualizar Espelho</span>
+            </button>
+
+            {acknowledgment && (
+                <div className={`p-3 rounded-md text-sm mb-4 ${acknowledgment.status === AcknowledgmentStatus.ACCEPTED ? 'bg-green-900/70 text-green-200' : 'bg-yellow-900/70 text-yellow-200'}`}>
+                    <div className="flex items-center space-x-2 font-semibold">
+                        {acknowledgment.status === AcknowledgmentStatus.ACCEPTED ? <CheckCircleIcon /> : <WarningIcon />}
+                        <span>{acknowledgment.status} em {acknowledgment.acknowledgedAt.toLocaleString('pt-BR')}</span>
+                    </div>
+                    {acknowledgment.comment && <p className="mt-1 italic">"{acknowledgment.comment}"</p>}
+                    {isOutdated && <p className="mt-2 text-red-300">O espelho foi alterado depois da sua ciência. Revise e confirme novamente.</p>}
+                </div>
+            )}
+
+            {submitStatus && (
+                <p className={`text-sm mb-4 ${submitStatus.type === 'error' ? 'text-red-400' : 'text-green-400'}`}>{submitStatus.text}</p>
+            )}
+
+            {(!acknowledgment || isOutdated) && (
+                isContesting ? (
+                    <div className="space-y-3">
+                        <textarea
+                            value={comment}
+                            onChange={(e) => setComment(e.target.value)}
+                            rows={3}
+                            className="w-full bg-primary border border-accent rounded-md px-3 py-2 text-light text-sm focus:ring-highlight focus:border-highlight"
+                            placeholder="Descreva o que está incorreto no espelho"
+                        />
+                        <div className="flex justify-end space-x-2">
+                            <button onClick={() => setIsContesting(false)} disabled={isProcessing} className="py-2 px-4 border border-accent rounded-md text-sm text-light hover:bg-accent transition">Cancelar</button>
+                            <button
+                                onClick={() => handleSubmit(AcknowledgmentStatus.CONTESTED)}
+                                disabled={isProcessing || !comment.trim() || !contentHash}
+                                className="py-2 px-4 rounded-md text-sm font-medium text-white bg-yellow-600 hover:bg-yellow-700 transition disabled:bg-gray-500"
+                            >
+                                Enviar Contestação
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="grid grid-cols-2 gap-2">
+                        <button
+                            onClick={() => handleSubmit(AcknowledgmentStatus.ACCEPTED)}
+                            disabled={isProcessing || !contentHash}
+                            className="py-2 px-4 rounded-lg text-sm font-bold text-white bg-green-600 hover:bg-green-700 transition disabled:bg-gray-500"
+                        >
+                            Aceitar
+                        </button>
+                        <button
+                            onClick={() => setIsContesting(true)}
+                            disabled={isProcessing}
+                            className="py-2 px-4 rounded-lg text-sm font-bold text-white bg-yellow-600 hover:bg-yellow-700 transition disabled:bg-gray-500"
+                        >
+                            Contestar
+                        </button>
+                    </div>
+                )
+            )}
+        </div>
+    );
+};
+
+export default TimesheetAcknowledgmentCard;
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { User, TimeEntry, HourBankAdjustment, HourBankClosing, EmployerInfo } from '../types';
+import Modal from './Modal';
+import { WorkdayContext } from '../utils/workday';
+import { buildTimesheet, renderTimesheetPdf, timesheetFileName, getClosedMonths, getTimesheetRange } from '../utils/timesheet';
+import { TimeEntryLoader } from '../utils/punchAdjustments';
+
+interface TimesheetExportModalProps {
+    users: User[];
+    onLoadTimeEntries: TimeEntryLoader; // The month is read when the espelhos are generated
+    hourBankAdjustments: HourBankAdjustment[];
+    hourBankClosings: HourBankClosing[];
+    context: WorkdayContext;
+    hourBankExpiryMonths: number;
+    employer: EmployerInfo;
+    onClose: () => void;
+}
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
+const TimesheetExportModal: React.FC<TimesheetExportModalProps> = ({ users, onLoadTimeEntries, hourBankAdjustments, hourBankClosings, context, hourBankExpiryMonths, employer, onClose }) => {
+    // Espelhos are usually issued for the month that just closed
+    const [month, setMonth] = useState(() => getClosedMonths(1)[0]);
+    const [selectedUserIds, setSelectedUserIds] = useState<string[]>(users.map(u => u.id));
+    const [isProcessing, setIsProcessing] = useState(false);
+
+    const toggleUser = (userId: string) => {
+        setSelectedUserIds(prev => prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]);
+    };
+
+    const handleGenerate = async () => {
+        if (!window.jspdf) {
+            alert("Não foi possível gerar o PDF. A biblioteca jsPDF não foi carregada.");
+            return;
+        }
+        setIsProcessing(true);
+        const selectedUsers = users.filter(u => selectedUserIds.includes(u.id));
+        let timeEntries: TimeEntry[];
+        try {
+            const range = getTimesheetRange(selectedUsers, month, hourBankClosings);
+            timeEntries = (await onLoadTimeEntries(range, selectedUsers.length === 1 ? selectedUsers[0].id : undefined)).treated;
+        } catch (error) {
+            console.error("Error loading time entries for the espelhos:", error);
+            alert("Não foi possível carregar as marcações do mês.");
+            setIsProcessing(false);
+            return;
+        }
+        const documents = selectedUsers
+            .map(user => {
+                const timesheet = buildTimesheet({ user, month, timeEntries, hourBankAdjustments, hourBankClosings, context, hourBankExpiryMonths });
+                return { fileName: timesheetFileName(timesheet), doc: renderTimesheetPdf(timesheet, employer) };
+            });
+
+        if (documents.length === 1) {
+            documents[0].doc.save(documents[0].fileName);
+        } else if (window.JSZip) {
+            const zip = new window.JSZip();
+            documents.forEach(({ fileName, doc }) => zip.file(fileName, doc.output('blob')));
+            downloadBlob(await zip.generateAsync({ type: 'blob' }), `espelhos_${month}.zip`);
+        } else {
+            // Without JSZip each espelho is downloaded on its own
+            documents.forEach(({ fileName, doc }) => doc.save(fileName));
+        }
+        setIsProcessing(false);
+        onClose();
+    };
+
+    const inputClassName = "mt-1 block w-full bg-primary border border-accent rounded-md shadow-sm py-2 px-3 text-light focus:outline-none focus:ring-highlight focus:border-highlight sm:text-sm";
+
+    return (
+        <Modal isOpen={true} onClose={onClose} title="Espelho de Ponto Mensal">
+            <div className="space-y-4">
+                <div>
+                    <label htmlFor="timesheet-month" className="block text-sm font-medium text-highlight">Mês</label>
+                    <input id="timesheet-month" type="month" value={month} onChange={(e) => e.target.value && setMonth(e.target.value)} className={inputClassName} />
+                </div>
+                <div>
+                    <div className="flex justify-between items-center mb-2">
+                        <h4 className="text-sm font-semibold text-highlight">Funcionários</h4>
+                        <button
+                            type="button"
+                            onClick={() => setSelectedUserIds(selectedUserIds.length === users.length ? [] : users.map(u => u.id))}
+                            className="text-xs text-highlight hover:text-light"
+                        >
+                            {selectedUserIds.length === users.length ? 'Desmarcar todos' : 'Marcar todos'}
+                        </button>
+                    </div>
+                    <div className="space-y-1 max-h-60 overflow-y-auto">
+                        {users.map(user => (
+                            <label key={user.id} className="flex items-center space-x-2 text-sm text-light">
+                                <input
+                                    type="checkbox"
+                                    checked={selectedUserIds.includes(user.id)}
+                                    onChange={() => toggleUser(user.id)}
+                                    className="h-4 w-4 text-highlight bg-secondary border-accent rounded focus:ring-highlight"
+                                />
+                                <span>{user.name}</span>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+                <p className="text-xs text-highlight">Um PDF por funcionário. Com mais de um selecionado, os arquivos são reunidos em um .zip.</p>
+            </div>
+            <div className="mt-6 flex justify-end space-x-4">
+                <button
+                    onClick={onClose}
+                    disabled={isProcessing}
+                    className="py-2 px-4 border border-accent rounded-md shadow-sm text-sm font-medium text-light hover:bg-accent focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-secondary focus:ring-highlight transition disabled:opacity-50"
+                >
+                    Cancelar
+                </button>
+                <button
+                    onClick={handleGenerate}
+                    disabled={isProcessing || selectedUserIds.length === 0}
+                    className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-accent hover:bg-highlight focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-secondary focus:ring-highlight transition disabled:bg-gray-500"
+                >
+                    {isProcessing ? 'Gerando...' : 'Gerar Espelhos'}
+                </button>
+            </div>
+        </Modal>
+    );
+};
+
+export default TimesheetExportModal;
@@ -1,6 +1,11 @@
-import React, { useState } from 'react';
-import { User, Role } from '../types';
+import React, { useState, useMemo } from 'react';
+import { User, Role, WorkSchedule } from '../types';
 import Modal from './Modal';
+import WorkScheduleEditor from './WorkScheduleEditor';
+import { getDefaultSchedule } from '../utils/schedule';
+import { formatDateKey } from '../utils/date';
+import { onlyDigits, isValidCpf, formatCpf } from '../utils/documents';
+import { findDuplicateUsernames } from '../utils/username';
 import { EditIcon, KeyIcon } from './icons';
 
 interface UserManagementProps {
@@ -9,22 +14,35 @@ interface UserManagementProps {
   onAddUser: (user: Omit<User, 'id'>, password: string) => void;
   onUpdateUser: (user: User) => void;
   onTriggerPasswordReset: (email: string) => Promise<{ success: boolean; message: string }>;
+  onRebuildUsernameIndex: () => Promise<{ success: boolean; message: string }>;
+  workdayHours: number;
 }
 
-const UserManagement: React.FC<UserManagementProps> = ({ users, onAddUser, onUpdateUser, onTriggerPasswordReset }) => {
+const UserManagement: React.FC<UserManagementProps> = ({ users, onAddUser, onUpdateUser, onTriggerPasswordReset, onRebuildUsernameIndex, workdayHours }) => {
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
+  const [cpf, setCpf] = useState('');
+  const [admissionDate, setAdmissionDate] = useState(() => formatDateKey(new Date()));
   const [password, setPassword] = useState('');
   const [role, setRole] = useState<Role>(Role.EMPLOYEE);
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [notification, setNotification] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const [isRebuildingIndex, setIsRebuildingIndex] = useState(false);
+  // Names that only differ in accents, case or spaces cannot be used to log in
+  const duplicateUsernames = useMemo(() => findDuplicateUsernames(users), [users]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (cpf && !isValidCpf(cpf)) {
+      alert("CPF inválido.");
+      return;
+    }
     if (name && password && email) {
-      onAddUser({ name, email, role }, password);
+      onAddUser({ name, email, role, admissionDate, ...(cpf ? { cpf: onlyDigits(cpf) } : {}) }, password);
       setName('');
       setEmail('');
+      setCpf('');
+      setAdmissionDate(formatDateKey(new Date()));
       setPassword('');
       setRole(Role.EMPLOYEE);
     }
@@ -35,6 +53,14 @@ const UserManagement: React.FC<UserManagementProps> = ({ users, onAddUser, onUpd
     setEditingUser(null);
   };
 
+  const handleRebuildIndex = async () => {
+    setNotification(null);
+    setIsRebuildingIndex(true);
+    const result = await onRebuildUsernameIndex();
+    setIsRebuildingIndex(false);
+    setNotification({ type: result.success ? 'success' : 'error', text: result.message });
+  };
+
   const handleTriggerReset = async (userEmail: string) => {
     setNotification(null);
     const result = await onTriggerPasswordReset(userEmail);
@@ -73,6 +99,29 @@ const UserManagement: React.FC<UserManagementProps> = ({ users, onAddUser, onUpd
                 className="mt-1 block w-full bg-primary border border-accent rounded-md shadow-sm py-2 px-3 text-light focus:outline-none focus:ring-highlight focus:border-highlight sm:text-sm"
               />
             </div>
+            <div>
+              <label htmlFor="new-user-cpf" className="block text-sm font-medium text-highlight">CPF</label>
+              <input
+                type="text"
+                id="new-user-cpf"
+                value={cpf}
+                onChange={(e) => setCpf(e.target.value)}
+                inputMode="numeric"
+                placeholder="000.000.000-00"
+                className="mt-1 block w-full bg-primary border border-accent rounded-md shadow-sm py-2 px-3 text-light focus:outline-none focus:ring-highlight focus:border-highlight sm:text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="new-user-admission" className="block text-sm font-medium text-highlight">Data de Admissão</label>
+              <input
+                type="date"
+                id="new-user-admission"
+                value={admissionDate}
+                onChange={(e) => setAdmissionDate(e.target.value)}
+                required
+                className="mt-1 block w-full bg-primary border border-accent rounded-md shadow-sm py-2 px-3 text-light focus:outline-none focus:ring-highlight focus:border-highlight sm:text-sm"
+              />
+            </div>
             <div>
               <label htmlFor="new-user-password" className="block text-sm font-medium text-highlight">Senha</label>
               <input
@@ -108,12 +157,31 @@ const UserManagement: React.FC<UserManagementProps> = ({ users, onAddUser, onUpd
         <div className="lg:col-span-2 bg-secondary p-4 sm:p-6 rounded-lg shadow-lg">
           <div className="flex justify-between items-start">
             <h2 className="text-2xl font-bold mb-4 text-light">Usuários Cadastrados</h2>
+            {/* For profiles created before the name login or changed outside the app */}
+            <button
+              onClick={handleRebuildIndex}
+              disabled={isRebuildingIndex}
+              title="Atualiza os nomes aceitos no login a partir dos usuários cadastrados"
+              className="py-1.5 px-3 rounded-md text-sm font-medium text-white bg-accent hover:bg-highlight transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isRebuildingIndex ? 'Reconstruindo...' : 'Reconstruir índice de nomes'}
+            </button>
           </div>
           {notification && (
               <div className={`mb-4 p-3 rounded-md text-sm ${notification.type === 'success' ? 'bg-green-900/70 text-green-200' : 'bg-red-900/70 text-red-200'}`}>
                   {notification.text}
               </div>
           )}
+          {duplicateUsernames.length > 0 && (
+              <div className="mb-4 p-3 rounded-md text-sm bg-yellow-900/70 text-yellow-200">
+                  <p className="font-bold">Nomes repetidos não podem ser usados no login. Diferencie-os ou entre com o e-mail:</p>
+                  <ul className="list-disc list-inside mt-1">
+                      {duplicateUsernames.map(group => (
+                          <li key={group[0].id}>{group.map(user => `${user.name} (${user.email})`).join(', ')}</li>
+                      ))}
+                  </ul>
+              </div>
+          )}
           
           {/* Mobile View: Card List */}
           <div className="md:hidden space-y-3">
@@ -207,6 +275,7 @@ const UserManagement: React.FC<UserManagementProps> = ({ users, onAddUser, onUpd
             onClose={() => setEditingUser(null)}
             onSave={handleSaveUser}
             onTriggerPasswordReset={onTriggerPasswordReset}
+            workdayHours={workdayHours}
         />
       )}
     </>
@@ -218,23 +287,32 @@ interface EditUserModalProps {
     onClose: () => void;
     onSave: (user: User) => void;
     onTriggerPasswordReset: (email: string) => Promise<{ success: boolean; message: string }>;
+    workdayHours: number;
 }
 
-const EditUserModal: React.FC<EditUserModalProps> = ({ user, onClose, onSave, onTriggerPasswordReset }) => {
+const EditUserModal: React.FC<EditUserModalProps> = ({ user, onClose, onSave, onTriggerPasswordReset, workdayHours }) => {
     const [name, setName] = useState(user.name);
     const [role, setRole] = useState(user.role);
+    const [cpf, setCpf] = useState(user.cpf ? formatCpf(user.cpf) : '');
+    const [admissionDate, setAdmissionDate] = useState(user.admissionDate || '');
     const [isActive, setIsActive] = useState(user.isActive !== false);
     const [vacationStart, setVacationStart] = useState(user.vacationStart || '');
     const [vacationEnd, setVacationEnd] = useState(user.vacationEnd || '');
+    const [useCustomSchedule, setUseCustomSchedule] = useState(!!user.schedule);
+    const [schedule, setSchedule] = useState<WorkSchedule>(user.schedule ?? getDefaultSchedule(workdayHours));
     const [status, setStatus] = useState<{ type: 'success' | 'error', text: string } | null>(null);
     const [isProcessing, setIsProcessing] = useState(false);
     
     const handleSave = async () => {
         setStatus(null);
+        if (cpf && !isValidCpf(cpf)) {
+            setStatus({ type: 'error', text: 'CPF inválido.' });
+            return;
+        }
         setIsProcessing(true);
         
         // Create a new object for the updated user to ensure reactivity
-        const updatedUser = { ...user, name, role, isActive, vacationStart, vacationEnd };
+        const updatedUser = { ...user, name, cpf: cpf ? onlyDigits(cpf) : undefined, admissionDate: admissionDate || undefined, role, isActive, vacationStart, vacationEnd, schedule: useCustomSchedule ? schedule : undefined };
         // FIX: The prop is `onSave`, not `onUpdateUser`. This was causing an error.
         onSave(updatedUser);
         
@@ -279,6 +357,29 @@ const EditUserModal: React.FC<EditUserModalProps> = ({ user, onClose, onSave, on
                         required
                         className="mt-1 block w-full bg-primary border border-accent rounded-md shadow-sm py-2 px-3 text-light focus:outline-none focus:ring-highlight focus:border-highlight sm:text-sm"
                     />
+                </div>
+                <div>
+                    <label htmlFor="edit-user-cpf" className="block text-sm font-medium text-highlight">CPF</label>
+                    <input
+                        type="text"
+                        id="edit-user-cpf"
+                        value={cpf}
+                        onChange={(e) => setCpf(e.target.value)}
+                        inputMode="numeric"
+                        placeholder="000.000.000-00"
+                        className="mt-1 block w-full bg-primary border border-accent rounded-md shadow-sm py-2 px-3 text-light focus:outline-none focus:ring-highlight focus:border-highlight sm:text-sm"
+                    />
+                </div>
+                <div>
+                    <label htmlFor="edit-user-admission" className="block text-sm font-medium text-highlight">Data de Admissão</label>
+                    <input
+                        type="date"
+                        id="edit-user-admission"
+                        value={admissionDate}
+                        onChange={(e) => setAdmissionDate(e.target.value)}
+                        className="mt-1 block w-full bg-primary border border-accent rounded-md shadow-sm py-2 px-3 text-light focus:outline-none focus:ring-highlight focus:border-highlight sm:text-sm"
+                    />
+                    {!admissionDate && <p className="mt-1 text-xs text-yellow-400">Sem data de admissão, as faltas só são apontadas dentro do período filtrado.</p>}
                 </div>
                  <div>
                     <label htmlFor="edit-user-role" className="block text-sm font-medium text-highlight">Cargo</label>
@@ -337,6 +438,28 @@ const EditUserModal: React.FC<EditUserModalProps> = ({ user, onClose, onSave, on
                         </button>
                     )}
                 </div>
+
+                <div className="border-t border-accent pt-4">
+                    <h4 className="text-sm font-semibold text-highlight mb-3">Jornada de Trabalho</h4>
+                    {user.shiftPatternId && (
+                        <p className="text-xs text-yellow-400 mb-3">Este funcionário está em uma escala de revezamento (aba Escalas), que tem prioridade sobre a jornada semanal.</p>
+                    )}
+                    <div className="flex items-center space-x-3 mb-3">
+                        <input
+                            type="checkbox"
+                            id="edit-user-custom-schedule"
+                            checked={useCustomSchedule}
+                            onChange={(e) => setUseCustomSchedule(e.target.checked)}
+                            className="h-4 w-4 text-highlight bg-secondary border-accent rounded focus:ring-highlight"
+                        />
+                        <label htmlFor="edit-user-custom-schedule" className="text-sm font-medium text-light">Jornada personalizada</label>
+                    </div>
+                    {useCustomSchedule ? (
+                        <WorkScheduleEditor schedule={schedule} onChange={setSchedule} />
+                    ) : (
+                        <p className="text-xs text-highlight">Segunda a sexta, {workdayHours}h por dia (padrão da empresa).</p>
+                    )}
+                </div>
             </div>
 
             <div className="border-t border-accent my-6"></div>
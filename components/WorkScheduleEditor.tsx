@@ -0,0 +1,79 @@
+import React from 'react';
+import { WorkSchedule, WorkScheduleDay } from '../types';
+import { WEEKDAY_LABELS } from '../utils/schedule';
+
+interface WorkScheduleEditorProps {
+    schedule: WorkSchedule;
+    onChange: (schedule: WorkSchedule) => void;
+    dayLabels?: string[]; // Defaults to weekday names; rotating patterns pass "Dia 1", "Dia 2"...
+}
+
+const inputClassName = "block w-full bg-secondary border border-accent rounded-md shadow-sm py-1 px-2 text-light focus:outline-none focus:ring-highlight focus:border-highlight text-sm disabled:opacity-50";
+
+const WorkScheduleEditor: React.FC<WorkScheduleEditorProps> = ({ schedule, onChange, dayLabels }) => {
+    const handleDayChange = (index: number, changes: Partial<WorkScheduleDay>) => {
+        const days = schedule.days.map((day, i) => i === index ? { ...day, ...changes } : day);
+        onChange({ ...schedule, days });
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="grid grid-cols-12 gap-2 text-xs font-medium text-highlight">
+                <span className="col-span-3">Dia</span>
+                <span className="col-span-3">Entrada</span>
+                <span className="col-span-3">Saída</span>
+                <span className="col-span-3">Horas</span>
+            </div>
+            {schedule.days.map((day, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <label className="col-span-3 flex items-center space-x-2 text-sm text-light">
+                        <input
+                            type="checkbox"
+                            checked={day.isWorkday}
+                            onChange={(e) => handleDayChange(index, { isWorkday: e.target.checked, expectedHours: e.target.checked ? day.expectedHours : 0 })}
+                            className="h-4 w-4 text-highlight bg-secondary border-accent rounded focus:ring-highlight"
+                        />
+                        <span>{dayLabels ? dayLabels[index] : WEEKDAY_LABELS[index].slice(0, 3)}</span>
+                    </label>
+                    <input
+                        type="time"
+                        value={day.startTime}
+                        disabled={!day.isWorkday}
+                        onChange={(e) => handleDayChange(index, { startTime: e.target.value })}
+                        className={`col-span-3 ${inputClassName}`}
+                    />
+                    <input
+                        type="time"
+                        value={day.endTime}
+                        disabled={!day.isWorkday}
+                        onChange={(e) => handleDayChange(index, { endTime: e.target.value })}
+                        className={`col-span-3 ${inputClassName}`}
+                    />
+                    <input
+                        type="number"
+                        min="0"
+                        max="24"
+                        step="0.25"
+                        value={day.expectedHours}
+                        disabled={!day.isWorkday}
+                        onChange={(e) => handleDayChange(index, { expectedHours: parseFloat(e.target.value) || 0 })}
+                        className={`col-span-3 ${inputClassName}`}
+                    />
+                </div>
+            ))}
+            <div className="flex items-center space-x-2 pt-2">
+                <label htmlFor="late-tolerance" className="text-xs font-medium text-highlight">Tolerância de atraso (min)</label>
+                <input
+                    id="late-tolerance"
+                    type="number"
+                    min="0"
+                    value={schedule.lateToleranceMinutes}
+                    onChange={(e) => onChange({ ...schedule, lateToleranceMinutes: parseInt(e.target.value, 10) || 0 })}
+                    className={`w-20 ${inputClassName}`}
+                />
+            </div>
+        </div>
+    );
+};
+
+export default WorkScheduleEditor;
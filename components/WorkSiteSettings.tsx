@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { User, WorkSite } from '../types';
+import Modal from './Modal';
+import { isValidTimezone } from '../utils/geo';
+import { EditIcon, TrashIcon, PlusCircleIcon } from './icons';
+
+export type WorkSiteDraft = Omit<WorkSite, 'id'> & { id?: string };
+
+interface WorkSiteSettingsProps {
+    sites: WorkSite[];
+    users: User[];
+    onSave: (site: WorkSiteDraft, assignedUserIds: string[]) => Promise<void>;
+    onDelete: (siteId: string) => Promise<void>;
+}
+
+const inputClassName = "mt-1 block w-full bg-primary border border-accent rounded-md shadow-sm py-2 px-3 text-light focus:outline-none focus:ring-highlight focus:border-highlight sm:text-sm";
+
+const WorkSiteSettings: React.FC<WorkSiteSettingsProps> = ({ sites, users, onSave, onDelete }) => {
+    const [editingSite, setEditingSite] = useState<WorkSiteDraft | null>(null);
+
+    const handleDelete = async (site: WorkSite) => {
+        if (!window.confirm(`Excluir o local "${site.name}"? Os funcionários atribuídos perderão esse local.`)) return;
+        await onDelete(site.id);
+    };
+
+    return (
+        <fieldset className="border border-accent rounded-lg p-4 mt-8">
+            <legend className="text-lg font-medium text-light px-2">Locais de Trabalho</legend>
+            <div className="flex justify-between items-start gap-4 mb-4">
+                <p className="text-sm text-highlight">
+                    Filiais e pátios onde o ponto pode ser registrado. Funcionários sem local atribuído podem registrar em qualquer um deles.
+                </p>
+                <button
+                    type="button"
+                    onClick={() => setEditingSite({ name: '', latitude: 0, longitude: 0, radius: 100 })}
+                    className="flex items-center space-x-2 py-2 px-4 rounded-md text-sm font-medium text-white bg-accent hover:bg-highlight transition whitespace-nowrap"
+                >
+                    <PlusCircleIcon />
+                    <span>Novo Local</span>
+                </button>
+            </div>
+            <div className="space-y-2">
+                {sites.map(site => {
+                    const assigned = users.filter(u => u.siteIds?.includes(site.id));
+                    return (
+                        <div key={site.id} className="bg-primary p-3 rounded-md flex justify-between items-start gap-4">
+                            <div>
+                                <p className="font-semibold text-light">{site.name}</p>
+                                <p className="text-xs text-highlight">
+                                    {site.latitude.toFixed(5)}, {site.longitude.toFixed(5)} · raio de {site.radius}m{site.timezone ? ` · ${site.timezone}` : ''}
+                                </p>
+                                <p className="text-xs text-highlight mt-1">Funcionários: <span className="text-light">{assigned.length > 0 ? assigned.map(u => u.name).join(', ') : 'nenhum'}</span></p>
+                            </div>
+                            <div className="flex items-center space-x-3">
+                                <button type="button" onClick={() => setEditingSite(site)} className="text-highlight hover:text-light" aria-label={`Editar ${site.name}`}>
+                                    <EditIcon />
+                                </button>
+                                <button type="button" onClick={() => handleDelete(site)} className="text-red-400 hover:text-red-300" aria-label={`Excluir ${site.name}`}>
+                                    <TrashIcon />
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })}
+                {sites.length === 0 && (
+                    <p className="text-sm text-highlight text-center py-4">Nenhum local cadastrado. O local padrão acima é usado para todos.</p>
+                )}
+            </div>
+
+            {editingSite && (
+                <EditWorkSiteModal
+                    site={editingSite}
+                    users={users}
+                    onClose={() => setEditingSite(null)}
+                    onSave={onSave}
+                />
+            )}
+        </fieldset>
+    );
+};
+
+interface EditWorkSiteModalProps {
+    site: WorkSiteDraft;
+    users: User[];
+    onClose: () => void;
+    onSave: (site: WorkSiteDraft, assignedUserIds: string[]) => Promise<void>;
+}
+
+const EditWorkSiteModal: React.FC<EditWorkSiteModalProps> = ({ site, users, onClose, onSave }) => {
+    const [draft, setDraft] = useState<WorkSiteDraft>(site);
+    const [assignedUserIds, setAssignedUserIds] = useState<string[]>(
+        site.id ? users.filter(u => u.siteIds?.includes(site.id!)).map(u => u.id) : []
+    );
+    const [error, setError] = useState('');
+    const [isProcessing, setIsProcessing] = useState(false);
+
+    const handleNumberChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setDraft({ ...draft, [e.target.name]: parseFloat(e.target.value) || 0 });
+    };
+
+    const handleUseCurrentLocation = () => {
+        navigator.geolocation?.getCurrentPosition(
+            (position) => setDraft({ ...draft, latitude: position.coords.latitude, longitude: position.coords.longitude }),
+            () => setError('Não foi possível obter a localização atual.'),
+            { timeout: 10000, enableHighAccuracy: true }
+        );
+    };
+
+    const toggleUser = (userId: string) => {
+        setAssignedUserIds(prev => prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]);
+    };
+
+    const handleSave = async () => {
+        const timezone = draft.timezone?.trim();
+        if (!draft.name.trim()) {
+            setError('Informe o nome do local.');
+            return;
+        }
+        if (draft.radius < 1) {
+            setError('O raio deve ser de pelo menos 1 metro.');
+            return;
+        }
+        if (timezone && !isValidTimezone(timezone)) {
+            setError('Fuso horário inválido. Use o formato America/Sao_Paulo.');
+            return;
+        }
+        const { timezone: _, ...rest } = draft;
+        setIsProcessing(true);
+        await onSave({ ...rest, name: draft.name.trim(), ...(timezone ? { timezone } : {}) }, assignedUserIds);
+        setIsProcessing(false);
+        onClose();
+    };
+
+    return (
+        <Modal isOpen={true} onClose={onClose} title={site.id ? `Editar Local ${site.name}` : 'Novo Local'}>
+            <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-2">
+                <div>
+                    <label htmlFor="site-name" className="block text-sm font-medium text-highlight">Nome</label>
+                    <input id="site-name" type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClassName} placeholder="Filial Centro" />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label htmlFor="site-latitude" className="block text-sm font-medium text-highlight">Latitude</label>
+                        <input id="site-latitude" name="latitude" type="number" step="any" value={draft.latitude} onChange={handleNumberChange} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="site-longitude" className="block text-sm font-medium text-highlight">Longitude</label>
+                        <input id="site-longitude" name="longitude" type="number" step="any" value={draft.longitude} onChange={handleNumberChange} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="site-radius" className="block text-sm font-medium text-highlight">Raio Permitido (em metros)</label>
+                        <input id="site-radius" name="radius" type="number" min="1" value={draft.radius} onChange={handleNumberChange} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="site-timezone" className="block text-sm font-medium text-highlight">Fuso Horário (opcional)</label>
+                        <input id="site-timezone" type="text" value={draft.timezone ?? ''} onChange={(e) => setDraft({ ...draft, timezone: e.target.value })} className={inputClassName} placeholder="America/Sao_Paulo" />
+                    </div>
+                </div>
+                <button type="button" onClick={handleUseCurrentLocation} className="text-sm text-highlight hover:text-light underline">
+                    Usar minha localização atual
+                </button>
+
+                <div className="border-t border-accent pt-4">
+                    <h4 className="text-sm font-semibold text-highlight mb-2">Funcionários neste local</h4>
+                    <div className="space-y-1">
+                        {users.map(user => (
+                            <label key={user.id} className="flex items-center space-x-2 text-sm text-light">
+                                <input
+                                    type="checkbox"
+                                    checked={assignedUserIds.includes(user.id)}
+                                    onChange={() => toggleUser(user.id)}
+                                    className="h-4 w-4 text-highlight bg-secondary border-accent rounded focus:ring-highlight"
+                                />
+                                <span>{user.name}</span>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+                {error && <p className="text-red-400 text-sm">{error}</p>}
+            </div>
+            <div className="mt-6 flex justify-end space-x-4">
+                <button
+                    onClick={onClose}
+                    disabled={isProcessing}
+                    className="py-2 px-4 border border-accent rounded-md shadow-sm text-sm font-medium text-light hover:bg-accent focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-secondary focus:ring-highlight transition disabled:opacity-50"
+                >
+                    Cancelar
+                </button>
+                <button
+                    onClick={handleSave}
+                    disabled={isProcessing}
+                    className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-accent hover:bg-highlight focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-secondary focus:ring-highlight transition disabled:bg-gray-500"
+                >
+                    {isProcessing ? 'Salvando...' : 'Salvar Local'}
+                </button>
+            </div>
+        </Modal>
+    );
+};
+
+export default WorkSiteSettings;
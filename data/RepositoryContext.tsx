@@ -0,0 +1,23 @@
+import React, { createContext, useContext } from 'react';
+import { Repositories } from './repositories';
+
+const RepositoryContext = createContext<Repositories | null>(null);
+
+interface RepositoryProviderProps {
+    repositories: Repositories;
+    children: React.ReactNode;
+}
+
+export const RepositoryProvider: React.FC<RepositoryProviderProps> = ({ repositories, children }) => (
+    <RepositoryContext.Provider value={repositories}>
+        {children}
+    </RepositoryContext.Provider>
+);
+
+export const useRepositories = () => {
+    const repositories = useContext(RepositoryContext);
+    if (!repositories) {
+        throw new Error("useRepositories must be used within a RepositoryProvider");
+    }
+    return repositories;
+};
@@ -0,0 +1,29 @@
+import { Role, EmployerIdType } from '../types';
+import { DEFAULT_EMPLOYER_INFO } from '../utils/portaria671';
+import { MemorySeed } from './memory';
+
+// Accounts and settings of the local demo (DATA_SOURCE=memory). Both log in with "demo123".
+export const DEMO_SEED: MemorySeed = {
+    accounts: [
+        { uid: 'demo-admin', email: 'admin@demo.local', password: 'demo123' },
+        { uid: 'demo-employee', email: 'funcionario@demo.local', password: 'demo123' },
+    ],
+    users: [
+        { id: 'demo-admin', name: 'Administrador', email: 'admin@demo.local', role: Role.ADMIN, isActive: true },
+        { id: 'demo-employee', name: 'Funcionário Demo', email: 'funcionario@demo.local', cpf: '52998224725', role: Role.EMPLOYEE, isActive: true },
+    ],
+    appConfig: {
+        latitude: -20.85411,
+        longitude: -49.34039,
+        radius: 10,
+        workdayHours: 8,
+    },
+    employerInfo: {
+        ...DEFAULT_EMPLOYER_INFO,
+        idType: EmployerIdType.CNPJ,
+        idNumber: '11222333000181',
+        name: 'Empresa Demonstração Ltda',
+    },
+    // No punches before the demo, so receipts start at NSR 1
+    afdCounter: { nsr: 0, lastHash: '' },
+};
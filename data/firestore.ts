@@ -0,0 +1,514 @@
+import { User, TimeEntry, ShiftPattern, WorkSite, HolidayCalendar, EmployerInfo, HourBankAdjustment, HourBankClosing, TimesheetAcknowledgment, CorrectionRequest, PunchAdjustment, PunchReceipt, AuditLog, AppConfig } from '../types';
+import { AuditChainHead, computeAuditHash } from '../utils/audit';
+import { UsernameEntry, normalizeUsername, buildUsernameIndex } from '../utils/username';
+import { auth, db, userCreationAuth } from '../firebase';
+import { Repositories, Unsubscribe, AuthSession, AfdCounter, BackupData, TimeEntryRange } from './repositories';
+import {
+    User as FirebaseAuthUser,
+    onAuthStateChanged,
+    signInWithEmailAndPassword,
+    signOut,
+    createUserWithEmailAndPassword,
+    setPersistence,
+    browserLocalPersistence,
+    browserSessionPersistence,
+    sendPasswordResetEmail,
+    EmailAuthProvider,
+    reauthenticateWithCredential,
+    updatePassword,
+} from 'firebase/auth';
+import {
+    collection,
+    onSnapshot,
+    addDoc,
+    updateDoc,
+    doc,
+    getDocs,
+    getDoc,
+    getDocFromServer,
+    serverTimestamp,
+    setDoc,
+    query,
+    where,
+    orderBy,
+    Timestamp,
+    writeBatch,
+    deleteField,
+    arrayUnion,
+    arrayRemove,
+    runTransaction,
+    Query,
+    QueryDocumentSnapshot,
+    DocumentSnapshot,
+} from 'firebase/firestore';
+
+// Repositories backed by Firebase Auth and Firestore. Dates are stored as Timestamps and
+// converted back on read.
+
+const toDate = (value: unknown) => (value as Timestamp).toDate();
+const toOptionalDate = (value: unknown) => value ? (value as Timestamp).toDate() : undefined;
+
+const toSession = (user: FirebaseAuthUser): AuthSession => ({ uid: user.uid, email: user.email });
+
+// Attempts at chaining an audit record before the failure is thrown, on top of the transaction's own retries
+const AUDIT_APPEND_ATTEMPTS = 3;
+
+// Applies each snapshot's docChanges to the previous result, so only added and modified documents
+// are converted again
+const subscribeQuery = <T>(source: Query, fromDoc: (doc: QueryDocumentSnapshot) => T, onChange: (items: T[]) => void): Unsubscribe => {
+    const items = new Map<string, T>();
+    return onSnapshot(source, snapshot => {
+        snapshot.docChanges().forEach(change => {
+            if (change.type === 'removed') {
+                items.delete(change.doc.id);
+            } else {
+                items.set(change.doc.id, fromDoc(change.doc));
+            }
+        });
+        onChange(Array.from(items.values()));
+    });
+};
+
+// Employees may only read their own records (see firestore.rules), so their queries filter on userId
+const ownedBy = (collectionName: string, userId: string | undefined): Query => userId
+    ? query(collection(db, collectionName), where("userId", "==", userId))
+    : collection(db, collectionName);
+
+const timestampConstraints = (range: TimeEntryRange) => [
+    ...(range.from ? [where("timestamp", ">=", range.from)] : []),
+    ...(range.before ? [where("timestamp", "<", range.before)] : []),
+];
+
+const userFromDoc = (doc: DocumentSnapshot) => ({ id: doc.id, ...doc.data() } as User);
+
+// Username lookup entries are stored under the normalized name, escaped since ids cannot hold "/"
+const usernameId = (name: string) => encodeURIComponent(normalizeUsername(name));
+const usernameRef = (name: string) => doc(db, "usernames", usernameId(name));
+
+const timeEntryFromDoc = (doc: DocumentSnapshot): TimeEntry => {
+    // Server timestamps of writes not yet acknowledged are estimated locally
+    const data = doc.data({ serverTimestamps: 'estimate' })!;
+    return {
+        id: doc.id,
+        ...data,
+        timestamp: toDate(data.timestamp),
+        syncedAt: toOptionalDate(data.syncedAt),
+        deviceTimestamp: toOptionalDate(data.deviceTimestamp),
+    } as TimeEntry;
+};
+
+const punchAdjustmentFromDoc = (doc: QueryDocumentSnapshot): PunchAdjustment => {
+    const data = doc.data();
+    return {
+        id: doc.id,
+        ...data,
+        timestamp: toOptionalDate(data.timestamp),
+        createdAt: toDate(data.createdAt),
+    } as PunchAdjustment;
+};
+
+const punchReceiptFromDoc = (doc: QueryDocumentSnapshot): PunchReceipt => {
+    const data = doc.data({ serverTimestamps: 'estimate' });
+    return {
+        id: doc.id,
+        ...data,
+        timestamp: toDate(data.timestamp),
+        issuedAt: toDate(data.issuedAt),
+    } as PunchReceipt;
+};
+
+const hourBankAdjustmentFromDoc = (doc: QueryDocumentSnapshot): HourBankAdjustment => {
+    const data = doc.data();
+    return { id: doc.id, ...data, createdAt: toDate(data.createdAt) } as HourBankAdjustment;
+};
+
+const hourBankClosingFromDoc = (doc: QueryDocumentSnapshot): HourBankClosing => {
+    const data = doc.data();
+    return { id: doc.id, ...data, closedAt: toDate(data.closedAt) } as HourBankClosing;
+};
+
+const acknowledgmentFromDoc = (doc: QueryDocumentSnapshot): TimesheetAcknowledgment => {
+    const data = doc.data({ serverTimestamps: 'estimate' });
+    return { id: doc.id, ...data, acknowledgedAt: toDate(data.acknowledgedAt) } as TimesheetAcknowledgment;
+};
+
+const correctionRequestFromDoc = (doc: QueryDocumentSnapshot): CorrectionRequest => {
+    const data = doc.data();
+    return {
+        id: doc.id,
+        ...data,
+        requestedTimestamp: toDate(data.requestedTimestamp),
+        originalTimestamp: toOptionalDate(data.originalTimestamp),
+        createdAt: toDate(data.createdAt),
+        reviewedAt: toOptionalDate(data.reviewedAt),
+    } as CorrectionRequest;
+};
+
+const auditLogFromDoc = (doc: QueryDocumentSnapshot): AuditLog => {
+    const data = doc.data();
+    return {
+        id: doc.id,
+        ...data,
+        timestamp: toDate(data.timestamp),
+        details: data.details ?? {},
+    } as AuditLog;
+};
+
+export const createFirestoreRepositories = (): Repositories => ({
+    auth: {
+        onSessionChange: (onChange) => onAuthStateChanged(auth, user => onChange(user ? toSession(user) : null)),
+        currentSession: () => auth.currentUser ? toSession(auth.currentUser) : null,
+        signIn: async (email, password, rememberMe) => {
+            // Persistence must be set before signing in for it to apply to this session
+            await setPersistence(auth, rememberMe ? browserLocalPersistence : browserSessionPersistence);
+            const credential = await signInWithEmailAndPassword(auth, email, password);
+            return toSession(credential.user);
+        },
+        signOut: () => signOut(auth),
+        createAccount: async (email, password) => {
+            const credential = await createUserWithEmailAndPassword(userCreationAuth, email, password);
+            await signOut(userCreationAuth);
+            return credential.user.uid;
+        },
+        sendPasswordReset: (email) => sendPasswordResetEmail(auth, email),
+        changePassword: async (currentPassword, newPassword) => {
+            const user = auth.currentUser;
+            if (!user || !user.email) throw Object.assign(new Error('Usuário não autenticado.'), { code: 'auth/no-current-user' });
+            await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email, currentPassword));
+            await updatePassword(user, newPassword);
+        },
+    },
+
+    users: {
+        subscribeAll: (onChange) => subscribeQuery(collection(db, "users"), userFromDoc, onChange),
+        subscribe: (userId, onChange) => onSnapshot(doc(db, "users", userId), snapshot => onChange(snapshot.exists() ? userFromDoc(snapshot) : null)),
+        get: async (userId) => {
+            const snapshot = await getDoc(doc(db, "users", userId));
+            return snapshot.exists() ? userFromDoc(snapshot) : null;
+        },
+        findByEmail: async (email) => {
+            const snapshot = await getDocs(query(collection(db, "users"), where("email", "==", email)));
+            return snapshot.empty ? null : userFromDoc(snapshot.docs[0]);
+        },
+        list: async () => (await getDocs(collection(db, "users"))).docs.map(userFromDoc),
+        create: async ({ id, ...data }) => {
+            const batch = writeBatch(db);
+            batch.set(doc(db, "users", id), data);
+            batch.set(usernameRef(data.name), { userId: id, email: data.email } as UsernameEntry);
+            await batch.commit();
+        },
+        update: ({ id, ...data }) => runTransaction(db, async (transaction) => {
+            const userRef = doc(db, "users", id);
+            const previousName = (await transaction.get(userRef)).data()?.name as string | undefined;
+            // A rename releases the previous name, unless it was already taken over by someone else
+            if (previousName && usernameId(previousName) !== usernameId(data.name)) {
+                const previousEntry = await transaction.get(usernameRef(previousName));
+                if (previousEntry.data()?.userId === id) transaction.delete(previousEntry.ref);
+            }
+            // Firestore rejects undefined values, so cleared optional fields must be removed explicitly
+            transaction.update(userRef, {
+                ...data,
+                cpf: data.cpf ?? deleteField(),
+                admissionDate: data.admissionDate ?? deleteField(),
+                schedule: data.schedule ?? deleteField(),
+                shiftPatternId: data.shiftPatternId ?? deleteField(),
+            });
+            transaction.set(usernameRef(data.name), { userId: id, email: data.email } as UsernameEntry);
+        }),
+        reassignId: async ({ id: oldId, ...data }, newId) => {
+            const batch = writeBatch(db);
+            batch.set(doc(db, "users", newId), data);
+            batch.set(usernameRef(data.name), { userId: newId, email: data.email } as UsernameEntry);
+
+            const entriesSnapshot = await getDocs(query(collection(db, "time_entries"), where("userId", "==", oldId)));
+            entriesSnapshot.forEach(entryDoc => batch.update(entryDoc.ref, { userId: newId }));
+            console.log(`[AUTO-FIXING] Migrating ${entriesSnapshot.size} time entries.`);
+
+            const logsSnapshot = await getDocs(query(collection(db, "audit_logs"), where("actorId", "==", oldId)));
+            // Chained records cannot be rewritten without breaking the audit hash chain
+            logsSnapshot.forEach(logDoc => {
+                if (logDoc.data().hash) return;
+                batch.update(logDoc.ref, { actorId: newId });
+            });
+            console.log(`[AUTO-FIXING] Migrating ${logsSnapshot.size} audit logs.`);
+
+            batch.delete(doc(db, "users", oldId));
+            await batch.commit();
+            return { id: newId, ...data } as User;
+        },
+        findEmailByUsername: async (name) => {
+            if (!normalizeUsername(name)) return null;
+            const snapshot = await getDoc(usernameRef(name));
+            return snapshot.exists() ? (snapshot.data() as UsernameEntry).email : null;
+        },
+        syncUsernameIndex: async (users) => {
+            const index = buildUsernameIndex(users);
+            const snapshot = await getDocs(collection(db, "usernames"));
+            const stored = new Map(snapshot.docs.map(entryDoc => [entryDoc.id, entryDoc.data() as UsernameEntry]));
+            const batch = writeBatch(db);
+            let changes = 0;
+            stored.forEach((_, id) => {
+                if (index.has(decodeURIComponent(id))) return;
+                batch.delete(doc(db, "usernames", id));
+                changes++;
+            });
+            index.forEach((entry, username) => {
+                const current = stored.get(encodeURIComponent(username));
+                if (current?.userId === entry.userId && current.email === entry.email) return;
+                batch.set(doc(db, "usernames", encodeURIComponent(username)), entry);
+                changes++;
+            });
+            if (changes > 0) await batch.commit();
+        },
+    },
+
+    timeEntries: {
+        newId: () => doc(collection(db, "time_entries")).id,
+        subscribe: (userId, range, onChange) => subscribeQuery(
+            query(ownedBy("time_entries", userId), ...timestampConstraints(range)),
+            timeEntryFromDoc,
+            onChange
+        ),
+        list: async (userId, range = {}) =>
+            (await getDocs(query(ownedBy("time_entries", userId), ...timestampConstraints(range)))).docs.map(timeEntryFromDoc),
+        getFromServer: async (entryId) => {
+            const snapshot = await getDocFromServer(doc(db, "time_entries", entryId));
+            return snapshot.exists() ? timeEntryFromDoc(snapshot) : null;
+        },
+        create: async (entryId, entry, useServerTime) => {
+            await setDoc(doc(db, "time_entries", entryId), {
+                ...entry,
+                timestamp: useServerTime ? serverTimestamp() : entry.timestamp,
+                syncedAt: serverTimestamp(),
+            });
+        },
+        updateObservation: async (entryId, observation) => {
+            await updateDoc(doc(db, "time_entries", entryId), { observation });
+        },
+        // Round trip through a server timestamp written to the employee's clock check document
+        fetchServerTime: async (userId) => {
+            const checkRef = doc(db, "clock_checks", userId);
+            await setDoc(checkRef, { checkedAt: serverTimestamp() });
+            const snapshot = await getDocFromServer(checkRef);
+            return (snapshot.data()?.checkedAt as Timestamp | undefined)?.toMillis();
+        },
+    },
+
+    punchAdjustments: {
+        subscribe: (userId, onChange) => subscribeQuery(ownedBy("punch_adjustments", userId), punchAdjustmentFromDoc, onChange),
+        add: async (adjustment) => (await addDoc(collection(db, "punch_adjustments"), adjustment)).id,
+        updateObservation: async (adjustmentId, observation) => {
+            await updateDoc(doc(db, "punch_adjustments", adjustmentId), { observation });
+        },
+    },
+
+    punchReceipts: {
+        subscribe: (userId, onChange) => subscribeQuery(ownedBy("punch_receipts", userId), punchReceiptFromDoc, onChange),
+        initializeCounter: async (buildCounter) => {
+            const counterRef = doc(db, "counters", "afd");
+            if ((await getDocFromServer(counterRef)).exists()) return;
+            const counter = await buildCounter();
+            await runTransaction(db, async (transaction) => {
+                if ((await transaction.get(counterRef)).exists()) return;
+                transaction.set(counterRef, counter);
+            });
+        },
+        issue: (entryId, buildReceipt) => runTransaction(db, async (transaction) => {
+            const receiptRef = doc(db, "punch_receipts", entryId);
+            const counterRef = doc(db, "counters", "afd");
+            if ((await transaction.get(receiptRef)).exists()) return null;
+            const counterSnapshot = await transaction.get(counterRef);
+            if (!counterSnapshot.exists()) return null;
+            const counter = counterSnapshot.data() as AfdCounter;
+            const nsr = counter.nsr + 1;
+            const { siteName, ...receipt } = await buildReceipt(nsr, counter.lastHash);
+            transaction.set(receiptRef, {
+                ...receipt,
+                ...(siteName ? { siteName } : {}),
+                issuedAt: serverTimestamp(),
+            });
+            transaction.set(counterRef, { nsr, lastHash: receipt.hash, lastEntryId: entryId });
+            return nsr;
+        }),
+    },
+
+    config: {
+        subscribeAppConfig: (onChange) => onSnapshot(doc(db, "config", "main"), snapshot => onChange(snapshot.exists() ? snapshot.data() as AppConfig : null)),
+        subscribeHolidayCalendar: (onChange) => onSnapshot(doc(db, "config", "holidays"), snapshot => onChange(snapshot.exists() ? snapshot.data() as Partial<HolidayCalendar> : null)),
+        subscribeEmployerInfo: (onChange) => onSnapshot(doc(db, "config", "employer"), snapshot => onChange(snapshot.exists() ? snapshot.data() as Partial<EmployerInfo> : null)),
+        saveAppConfig: (config) => setDoc(doc(db, "config", "main"), config),
+        saveHolidayCalendar: (calendar) => setDoc(doc(db, "config", "holidays"), calendar),
+        saveEmployerInfo: (employer) => setDoc(doc(db, "config", "employer"), employer),
+    },
+
+    shiftPatterns: {
+        subscribe: (onChange) => subscribeQuery(collection(db, "shift_patterns"), doc => ({ id: doc.id, ...doc.data() } as ShiftPattern), onChange),
+        save: async ({ id, ...data }, users, assignedUserIds) => {
+            const batch = writeBatch(db);
+            const patternRef = id ? doc(db, "shift_patterns", id) : doc(collection(db, "shift_patterns"));
+            batch.set(patternRef, data);
+            users.forEach(user => {
+                const isAssigned = assignedUserIds.includes(user.id);
+                if (isAssigned && user.shiftPatternId !== patternRef.id) {
+                    batch.update(doc(db, "users", user.id), { shiftPatternId: patternRef.id });
+                } else if (!isAssigned && user.shiftPatternId === patternRef.id) {
+                    batch.update(doc(db, "users", user.id), { shiftPatternId: deleteField() });
+                }
+            });
+            await batch.commit();
+            return patternRef.id;
+        },
+        delete: async (patternId, users) => {
+            const batch = writeBatch(db);
+            batch.delete(doc(db, "shift_patterns", patternId));
+            users.filter(u => u.shiftPatternId === patternId).forEach(user => {
+                batch.update(doc(db, "users", user.id), { shiftPatternId: deleteField() });
+            });
+            await batch.commit();
+        },
+    },
+
+    workSites: {
+        subscribe: (onChange) => subscribeQuery(collection(db, "work_sites"), doc => ({ id: doc.id, ...doc.data() } as WorkSite), onChange),
+        save: async ({ id, ...data }, users, assignedUserIds) => {
+            const batch = writeBatch(db);
+            const siteRef = id ? doc(db, "work_sites", id) : doc(collection(db, "work_sites"));
+            batch.set(siteRef, data);
+            users.forEach(user => {
+                const isAssigned = assignedUserIds.includes(user.id);
+                const wasAssigned = user.siteIds?.includes(siteRef.id) ?? false;
+                if (isAssigned && !wasAssigned) {
+                    batch.update(doc(db, "users", user.id), { siteIds: arrayUnion(siteRef.id) });
+                } else if (!isAssigned && wasAssigned) {
+                    batch.update(doc(db, "users", user.id), { siteIds: arrayRemove(siteRef.id) });
+                }
+            });
+            await batch.commit();
+            return siteRef.id;
+        },
+        delete: async (siteId, users) => {
+            const batch = writeBatch(db);
+            batch.delete(doc(db, "work_sites", siteId));
+            users.filter(u => u.siteIds?.includes(siteId)).forEach(user => {
+                batch.update(doc(db, "users", user.id), { siteIds: arrayRemove(siteId) });
+            });
+            await batch.commit();
+        },
+    },
+
+    hourBank: {
+        subscribe: (userId, onChange) => subscribeQuery(ownedBy("hour_bank_adjustments", userId), hourBankAdjustmentFromDoc, onChange),
+        add: async (adjustment) => (await addDoc(collection(db, "hour_bank_adjustments"), adjustment)).id,
+        subscribeClosings: (userId, onChange) => subscribeQuery(ownedBy("hour_bank_closings", userId), hourBankClosingFromDoc, onChange),
+        saveClosings: async (closings) => {
+            const batch = writeBatch(db);
+            closings.forEach(({ id, ...data }) => batch.set(doc(db, "hour_bank_closings", id), { ...data, closedAt: serverTimestamp() }));
+            await batch.commit();
+        },
+        reopen: async (userId, month) => {
+            const snapshot = await getDocs(query(ownedBy("hour_bank_closings", userId), where("month", ">=", month)));
+            const batch = writeBatch(db);
+            snapshot.forEach(closingDoc => batch.delete(closingDoc.ref));
+            await batch.commit();
+        },
+    },
+
+    acknowledgments: {
+        subscribe: (userId, onChange) => subscribeQuery(ownedBy("timesheet_acknowledgments", userId), acknowledgmentFromDoc, onChange),
+        save: async ({ id, ...data }) => {
+            await setDoc(doc(db, "timesheet_acknowledgments", id), { ...data, acknowledgedAt: serverTimestamp() });
+        },
+    },
+
+    correctionRequests: {
+        subscribe: (userId, onChange) => subscribeQuery(ownedBy("correction_requests", userId), correctionRequestFromDoc, onChange),
+        add: async (request) => (await addDoc(collection(db, "correction_requests"), request)).id,
+        review: async (requestId, review, adjustment) => {
+            const batch = writeBatch(db);
+            let appliedAdjustmentId: string | undefined;
+            if (adjustment) {
+                const adjustmentRef = doc(collection(db, "punch_adjustments"));
+                batch.set(adjustmentRef, adjustment);
+                appliedAdjustmentId = adjustmentRef.id;
+            }
+            batch.update(doc(db, "correction_requests", requestId), {
+                ...review,
+                ...(appliedAdjustmentId ? { appliedAdjustmentId } : {}),
+            });
+            await batch.commit();
+            return appliedAdjustmentId;
+        },
+    },
+
+    auditLogs: {
+        append: async (content) => {
+            for (let attempt = 1; ; attempt++) {
+                // Transactions need a connection. Offline, the record is queued outside the chain, without
+                // waiting for the server, and the verifier lists it.
+                if (!navigator.onLine) {
+                    addDoc(collection(db, "audit_logs"), content)
+                        .catch(error => console.error("Failed to write offline audit log:", error));
+                    return;
+                }
+                try {
+                    await runTransaction(db, async (transaction) => {
+                        const headRef = doc(db, "counters", "audit_logs");
+                        const headSnapshot = await transaction.get(headRef);
+                        const head = headSnapshot.exists() ? headSnapshot.data() as AuditChainHead : { sequence: 0, lastHash: '' };
+                        const sequence = head.sequence + 1;
+                        const hash = await computeAuditHash({ ...content, sequence }, head.lastHash);
+                        const logRef = doc(collection(db, "audit_logs"));
+                        transaction.set(logRef, { ...content, sequence, previousHash: head.lastHash, hash });
+                        transaction.set(headRef, { sequence, lastHash: hash, lastLogId: logRef.id });
+                    });
+                    return;
+                } catch (error) {
+                    // Online, records are never written outside the chain: retry, then leave it to the caller
+                    if (attempt >= AUDIT_APPEND_ATTEMPTS) throw error;
+                    console.warn(`Failed to chain audit log (attempt ${attempt}), retrying:`, error);
+                    await new Promise(resolve => setTimeout(resolve, attempt * 1000));
+                }
+            }
+        },
+        listBetween: async (start, end) => {
+            const logsQuery = query(
+                collection(db, "audit_logs"),
+                where("timestamp", ">=", start),
+                where("timestamp", "<", end),
+                orderBy("timestamp", "desc")
+            );
+            return (await getDocs(logsQuery)).docs.map(auditLogFromDoc);
+        },
+        list: async () => (await getDocs(collection(db, "audit_logs"))).docs.map(auditLogFromDoc),
+        getChainHead: async () => {
+            const snapshot = await getDocFromServer(doc(db, "counters", "audit_logs"));
+            return snapshot.exists() ? snapshot.data() as AuditChainHead : null;
+        },
+    },
+
+    backup: {
+        read: async () => {
+            const [usersSnapshot, entriesSnapshot] = await Promise.all([
+                getDocs(collection(db, "users")),
+                getDocs(collection(db, "time_entries")),
+            ]);
+            return {
+                users: usersSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })),
+                // Timestamps as ISO strings for JSON compatibility
+                time_entries: entriesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data(), timestamp: toDate(doc.data().timestamp).toISOString() })),
+            };
+        },
+        restore: async (data: BackupData) => {
+            const batch = writeBatch(db);
+            data.users.forEach(({ id, ...userData }) => {
+                if (id) batch.set(doc(db, "users", id), userData);
+            });
+            data.time_entries.forEach(({ id, ...entryData }) => {
+                if (id && entryData.timestamp) {
+                    batch.set(doc(db, "time_entries", id), { ...entryData, timestamp: Timestamp.fromDate(new Date(entryData.timestamp)) });
+                }
+            });
+            await batch.commit();
+        },
+    },
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { User, Role, TimeEntry, TimeEntryType, PunchAdjustment, PunchAdjustmentType, PunchReceipt, EmployerIdType } from '../types';
+import { applyPunchAdjustments } from '../utils/punchAdjustments';
+import { verifyAuditChain } from '../utils/audit';
+import { buildPunchRecord } from '../utils/afd';
+import { sha256Hex } from '../utils/portaria671';
+import { createMemoryRepositories } from './memory';
+import { Repositories } from './repositories';
+
+// The flows App.tsx runs through the repositories, against the in-memory implementation
+
+const admin: User = { id: 'admin', name: 'Administrador', email: 'admin@example.com', role: Role.ADMIN, isActive: true };
+const ana: User = { id: 'ana', name: 'Ana Souza', email: 'ana@example.com', cpf: '52998224725', role: Role.EMPLOYEE, isActive: true };
+
+// Latest value pushed by a subscription
+const latest = <T>(subscribe: (onChange: (value: T) => void) => () => void) => {
+    let value: T | undefined;
+    const unsubscribe = subscribe(next => { value = next; });
+    return { get: () => value as T, unsubscribe };
+};
+
+// As issuePunchReceipt in App.tsx
+const issueReceipt = (repositories: Repositories, entry: TimeEntry) =>
+    repositories.punchReceipts.issue(entry.id, async (nsr, previousHash) => {
+        const record = buildPunchRecord(nsr, entry.timestamp, ana.cpf!, entry.capturedOffline === true, entry.syncedAt ?? entry.timestamp);
+        return {
+            entryId: entry.id,
+            userId: entry.userId,
+            nsr,
+            timestamp: entry.timestamp,
+            entryType: entry.type,
+            record,
+            hash: await sha256Hex(record + previousHash),
+            previousHash,
+            userName: ana.name,
+            cpf: ana.cpf!,
+            employerName: 'Empresa Exemplo Ltda',
+            employerIdType: EmployerIdType.CNPJ,
+            employerIdNumber: '11222333000181',
+        };
+    });
+
+describe('punches', () => {
+    it('stamps live punches with the server time and keeps offline ones as captured', async () => {
+        const repositories = createMemoryRepositories({ users: [ana] });
+        const capturedAt = new Date(2025, 0, 6, 8);
+        const punch = { userId: 'ana', type: TimeEntryType.ENTRADA, observation: '', deviceTimestamp: capturedAt };
+        await repositories.timeEntries.create('live', { ...punch, timestamp: capturedAt }, true);
+        await repositories.timeEntries.create('offline', { ...punch, timestamp: capturedAt, capturedOffline: true }, false);
+
+        const live = await repositories.timeEntries.getFromServer('live');
+        expect(live!.timestamp.getTime()).toBeGreaterThan(capturedAt.getTime());
+        expect(live!.syncedAt).toEqual(live!.timestamp);
+        expect((await repositories.timeEntries.getFromServer('offline'))!.timestamp).toEqual(capturedAt);
+    });
+
+    it('lists and listens to the punches of the range only', async () => {
+        const entry = (id: string, day: number): TimeEntry => ({ id, userId: 'ana', type: TimeEntryType.ENTRADA, timestamp: new Date(2025, 0, day, 8), observation: '' });
+        const repositories = createMemoryRepositories({ users: [ana], timeEntries: [entry('d5', 5), entry('d6', 6), entry('d7', 7)] });
+        const range = { from: new Date(2025, 0, 6), before: new Date(2025, 0, 7) };
+        expect((await repositories.timeEntries.list('ana', range)).map(e => e.id)).toEqual(['d6']);
+        expect((await repositories.timeEntries.list('bruno', range))).toEqual([]);
+
+        const listened = latest<TimeEntry[]>(onChange => repositories.timeEntries.subscribe('ana', range, onChange));
+        await repositories.timeEntries.create('d6b', { ...entry('', 6), timestamp: new Date(2025, 0, 6, 17) }, false);
+        await repositories.timeEntries.create('d8', { ...entry('', 8) }, false);
+        expect(listened.get().map(e => e.id).sort()).toEqual(['d6', 'd6b']);
+        listened.unsubscribe();
+    });
+
+    it('issues one receipt per punch with sequential NSRs chained by hash', async () => {
+        const repositories = createMemoryRepositories({ users: [ana] });
+        const receipts = latest<PunchReceipt[]>(onChange => repositories.punchReceipts.subscribe('ana', onChange));
+        const entry = (id: string, hour: number): TimeEntry => ({ id, userId: 'ana', type: TimeEntryType.ENTRADA, timestamp: new Date(2025, 0, 6, hour), observation: '' });
+
+        expect(await issueReceipt(repositories, entry('e1', 8))).toBeNull(); // Counter not initialized yet
+        await repositories.punchReceipts.initializeCounter(async () => ({ nsr: 4, lastHash: 'legacy' }));
+        expect(await issueReceipt(repositories, entry('e1', 8))).toBe(5);
+        expect(await issueReceipt(repositories, entry('e1', 8))).toBeNull();
+        expect(await issueReceipt(repositories, entry('e2', 12))).toBe(6);
+
+        const [first, second] = [...receipts.get()].sort((a, b) => a.nsr - b.nsr);
+        expect(first.previousHash).toBe('legacy');
+        expect(second.previousHash).toBe(first.hash);
+        receipts.unsubscribe();
+    });
+});
+
+describe('punch adjustments', () => {
+    it('treats punches without changing the stored originals', async () => {
+        const original: TimeEntry = { id: 'e1', userId: 'ana', type: TimeEntryType.SAIDA, timestamp: new Date(2025, 0, 6, 19), observation: '' };
+        const repositories = createMemoryRepositories({ users: [ana, admin], timeEntries: [original] });
+        const adjustments = latest<PunchAdjustment[]>(onChange => repositories.punchAdjustments.subscribe('ana', onChange));
+
+        await repositories.punchAdjustments.add({
+            userId: 'ana',
+            adjustmentType: PunchAdjustmentType.TIME_CHANGE,
+            entryType: TimeEntryType.SAIDA,
+            entryId: 'e1',
+            timestamp: new Date(2025, 0, 6, 17),
+            reason: 'Saída registrada após o horário',
+            createdById: 'admin',
+            createdByName: admin.name,
+            createdAt: new Date(2025, 0, 7),
+        });
+        const entries = await repositories.timeEntries.list('ana');
+        const [treated] = applyPunchAdjustments(entries, adjustments.get());
+
+        expect(entries).toEqual([original]);
+        expect(treated.timestamp).toEqual(new Date(2025, 0, 6, 17));
+        expect(treated.originalTimestamp).toEqual(original.timestamp);
+        expect(treated.adjustment?.reason).toBe('Saída registrada após o horário');
+        adjustments.unsubscribe();
+    });
+});
+
+describe('audit logs', () => {
+    const append = (repositories: Repositories, action: string, actor: User | null) => repositories.auditLogs.append({
+        timestamp: new Date(),
+        actorId: actor?.id ?? 'anonymous',
+        actorName: actor?.name ?? 'System',
+        action,
+        details: { targetUserId: 'ana' },
+    });
+
+    it('chains every record and passes the verification', async () => {
+        const repositories = createMemoryRepositories({ users: [ana, admin] });
+        await append(repositories, 'USER_LOGIN_FAIL', null);
+        await append(repositories, 'USER_LOGIN_SUCCESS', admin);
+        await append(repositories, 'ADD_PUNCH_ADJUSTMENT', admin);
+
+        const logs = await repositories.auditLogs.list();
+        const head = await repositories.auditLogs.getChainHead();
+        expect(logs.map(log => log.sequence)).toEqual([1, 2, 3]);
+        expect(head).toMatchObject({ sequence: 3, lastHash: logs[2].hash, lastLogId: logs[2].id });
+        expect(await verifyAuditChain(logs, head)).toEqual({ chainedCount: 3, legacyCount: 0, issues: [] });
+    });
+
+    it('detects records changed or removed after they were written', async () => {
+        const repositories = createMemoryRepositories({ users: [ana, admin] });
+        for (const action of ['USER_LOGIN_SUCCESS', 'UPDATE_USER', 'USER_LOGOUT']) await append(repositories, action, admin);
+        const logs = await repositories.auditLogs.list();
+        const head = await repositories.auditLogs.getChainHead();
+
+        const edited = logs.map(log => log.sequence === 2 ? { ...log, details: { targetUserId: 'bruno' } } : log);
+        expect((await verifyAuditChain(edited, head)).issues.map(issue => issue.sequence)).toEqual([2]);
+        expect((await verifyAuditChain(logs.slice(0, 2), head)).issues.map(issue => issue.sequence)).toEqual([3]);
+    });
+});
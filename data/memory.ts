@@ -0,0 +1,328 @@
+import { User, TimeEntry, ShiftPattern, WorkSite, HolidayCalendar, EmployerInfo, HourBankAdjustment, HourBankClosing, TimesheetAcknowledgment, CorrectionRequest, PunchAdjustment, PunchReceipt, AuditLog, AppConfig } from '../types';
+import { AuditChainHead, computeAuditHash } from '../utils/audit';
+import { normalizeUsername, buildUsernameIndex } from '../utils/username';
+import { Repositories, Unsubscribe, AuthSession, AfdCounter, TimeEntryRange } from './repositories';
+
+// Repositories kept in memory, for tests and local demos without Firebase. Nothing is persisted:
+// reloading the page starts over from the seed. Server timestamps are the device time.
+
+export interface MemoryAccount {
+    uid: string;
+    email: string;
+    password: string;
+}
+
+export interface MemorySeed {
+    accounts?: MemoryAccount[];
+    users?: User[];
+    timeEntries?: TimeEntry[];
+    shiftPatterns?: ShiftPattern[];
+    workSites?: WorkSite[];
+    appConfig?: AppConfig;
+    holidayCalendar?: HolidayCalendar;
+    employerInfo?: EmployerInfo;
+    afdCounter?: AfdCounter; // Leave out to have it initialized on the first admin session
+}
+
+// Rejections carry the Firebase Auth codes App.tsx maps to messages
+const authError = (code: string) => Object.assign(new Error(code), { code });
+
+const MIN_PASSWORD_LENGTH = 6;
+
+const inTimeRange = (entry: TimeEntry, range: TimeEntryRange) =>
+    (!range.from || entry.timestamp >= range.from) && (!range.before || entry.timestamp < range.before);
+
+const newId = () => crypto.randomUUID().replace(/-/g, '').slice(0, 20);
+
+// Optional fields left undefined are dropped, as they are from Firestore documents
+const withoutUndefined = <T extends object>(value: T) =>
+    Object.fromEntries(Object.entries(value).filter(([, fieldValue]) => fieldValue !== undefined)) as T;
+
+// A collection or single document whose listeners are called with the current value on
+// subscribe and after every write
+const createStore = <T>(initial: T) => {
+    let value = initial;
+    const listeners = new Set<(value: T) => void>();
+    return {
+        get: () => value,
+        set: (next: T) => {
+            value = next;
+            listeners.forEach(listener => listener(value));
+        },
+        watch: (listener: (value: T) => void): Unsubscribe => {
+            listeners.add(listener);
+            listener(value);
+            return () => { listeners.delete(listener); };
+        },
+    };
+};
+
+const createCollection = <T extends { id: string }>(initial: T[] = []) => {
+    const store = createStore<T[]>(initial);
+    const find = (id: string) => store.get().find(item => item.id === id) ?? null;
+    return {
+        find,
+        all: store.get,
+        put: (item: T) => store.set([...store.get().filter(existing => existing.id !== item.id), item]),
+        putAll: (items: T[]) => {
+            const ids = new Set(items.map(item => item.id));
+            store.set([...store.get().filter(existing => !ids.has(existing.id)), ...items]);
+        },
+        update: (id: string, changes: Partial<T>) => {
+            const existing = find(id);
+            if (!existing) throw new Error(`Registro ${id} não encontrado.`);
+            store.set(store.get().map(item => item.id === id ? { ...item, ...changes } : item));
+        },
+        remove: (id: string) => store.set(store.get().filter(item => item.id !== id)),
+        watch: (userId: string | undefined, onChange: (items: T[]) => void) =>
+            store.watch(items => onChange(userId ? items.filter(item => (item as { userId?: string }).userId === userId) : items)),
+    };
+};
+
+export const createMemoryRepositories = (seed: MemorySeed = {}): Repositories => {
+    const accounts = new Map((seed.accounts ?? []).map(account => [account.email.toLowerCase(), { ...account }]));
+    const session = createStore<AuthSession | null>(null);
+
+    const users = createCollection<User>(seed.users);
+    const timeEntries = createCollection<TimeEntry>(seed.timeEntries);
+    const punchAdjustments = createCollection<PunchAdjustment>();
+    const punchReceipts = createCollection<PunchReceipt>();
+    const shiftPatterns = createCollection<ShiftPattern>(seed.shiftPatterns);
+    const workSites = createCollection<WorkSite>(seed.workSites);
+    const hourBankAdjustments = createCollection<HourBankAdjustment>();
+    const hourBankClosings = createCollection<HourBankClosing>();
+    const acknowledgments = createCollection<TimesheetAcknowledgment>();
+    const correctionRequests = createCollection<CorrectionRequest>();
+    const auditLogs = createCollection<AuditLog>();
+    const appConfig = createStore<AppConfig | null>(seed.appConfig ?? null);
+    const holidayCalendar = createStore<HolidayCalendar | null>(seed.holidayCalendar ?? null);
+    const employerInfo = createStore<EmployerInfo | null>(seed.employerInfo ?? null);
+    let afdCounter: AfdCounter | null = seed.afdCounter ?? null;
+    let auditChainHead: AuditChainHead | null = null;
+    const usernames = buildUsernameIndex(seed.users ?? []);
+    const claimUsername = (user: User) => usernames.set(normalizeUsername(user.name), { userId: user.id, email: user.email });
+
+    return {
+        auth: {
+            onSessionChange: session.watch,
+            currentSession: session.get,
+            signIn: async (email, password) => {
+                const account = accounts.get(email.toLowerCase());
+                if (!account || account.password !== password) throw authError('auth/invalid-credential');
+                session.set({ uid: account.uid, email: account.email });
+                return session.get()!;
+            },
+            signOut: async () => session.set(null),
+            createAccount: async (email, password) => {
+                if (accounts.has(email.toLowerCase())) throw authError('auth/email-already-in-use');
+                if (password.length < MIN_PASSWORD_LENGTH) throw authError('auth/weak-password');
+                const uid = newId();
+                accounts.set(email.toLowerCase(), { uid, email, password });
+                return uid;
+            },
+            sendPasswordReset: async (email) => {
+                if (!accounts.has(email.toLowerCase())) throw authError('auth/user-not-found');
+            },
+            changePassword: async (currentPassword, newPassword) => {
+                const email = session.get()?.email;
+                const account = email ? accounts.get(email.toLowerCase()) : undefined;
+                if (!account) throw authError('auth/no-current-user');
+                if (account.password !== currentPassword) throw authError('auth/wrong-password');
+                if (newPassword.length < MIN_PASSWORD_LENGTH) throw authError('auth/weak-password');
+                account.password = newPassword;
+            },
+        },
+
+        users: {
+            subscribeAll: (onChange) => users.watch(undefined, onChange),
+            subscribe: (userId, onChange) => users.watch(undefined, () => onChange(users.find(userId))),
+            get: async (userId) => users.find(userId),
+            findByEmail: async (email) => users.all().find(user => user.email === email) ?? null,
+            list: async () => users.all(),
+            create: async (user) => {
+                users.put(withoutUndefined(user));
+                claimUsername(user);
+            },
+            update: async (user) => {
+                const previousName = normalizeUsername(users.find(user.id)?.name ?? '');
+                if (previousName !== normalizeUsername(user.name) && usernames.get(previousName)?.userId === user.id) {
+                    usernames.delete(previousName);
+                }
+                users.put(withoutUndefined(user));
+                claimUsername(user);
+            },
+            reassignId: async (user, uid) => {
+                const moved = { ...user, id: uid };
+                users.remove(user.id);
+                users.put(moved);
+                claimUsername(moved);
+                timeEntries.all().filter(entry => entry.userId === user.id).forEach(entry => timeEntries.update(entry.id, { userId: uid }));
+                auditLogs.all().filter(log => log.actorId === user.id && !log.hash).forEach(log => auditLogs.update(log.id, { actorId: uid }));
+                return moved;
+            },
+            findEmailByUsername: async (name) => usernames.get(normalizeUsername(name))?.email ?? null,
+            syncUsernameIndex: async (currentUsers) => {
+                usernames.clear();
+                buildUsernameIndex(currentUsers).forEach((entry, username) => usernames.set(username, entry));
+            },
+        },
+
+        timeEntries: {
+            newId,
+            subscribe: (userId, range, onChange) => timeEntries.watch(userId, entries => onChange(entries.filter(entry => inTimeRange(entry, range)))),
+            list: async (userId, range = {}) => timeEntries.all().filter(entry => (!userId || entry.userId === userId) && inTimeRange(entry, range)),
+            getFromServer: async (entryId) => timeEntries.find(entryId),
+            create: async (entryId, entry, useServerTime) => {
+                const now = new Date();
+                timeEntries.put(withoutUndefined({ ...entry, id: entryId, timestamp: useServerTime ? now : entry.timestamp, syncedAt: now }));
+            },
+            updateObservation: async (entryId, observation) => timeEntries.update(entryId, { observation }),
+            fetchServerTime: async () => Date.now(),
+        },
+
+        punchAdjustments: {
+            subscribe: punchAdjustments.watch,
+            add: async (adjustment) => {
+                const id = newId();
+                punchAdjustments.put(withoutUndefined({ ...adjustment, id }));
+                return id;
+            },
+            updateObservation: async (adjustmentId, observation) => punchAdjustments.update(adjustmentId, { observation }),
+        },
+
+        punchReceipts: {
+            subscribe: punchReceipts.watch,
+            initializeCounter: async (buildCounter) => {
+                if (!afdCounter) afdCounter = await buildCounter();
+            },
+            issue: async (entryId, buildReceipt) => {
+                if (punchReceipts.find(entryId) || !afdCounter) return null;
+                const nsr = afdCounter.nsr + 1;
+                const receipt = await buildReceipt(nsr, afdCounter.lastHash);
+                punchReceipts.put(withoutUndefined({ ...receipt, id: entryId, issuedAt: new Date() }));
+                afdCounter = { nsr, lastHash: receipt.hash, lastEntryId: entryId };
+                return nsr;
+            },
+        },
+
+        config: {
+            subscribeAppConfig: appConfig.watch,
+            subscribeHolidayCalendar: holidayCalendar.watch,
+            subscribeEmployerInfo: employerInfo.watch,
+            saveAppConfig: async (config) => appConfig.set(config),
+            saveHolidayCalendar: async (calendar) => holidayCalendar.set(calendar),
+            saveEmployerInfo: async (employer) => employerInfo.set(employer),
+        },
+
+        shiftPatterns: {
+            subscribe: (onChange) => shiftPatterns.watch(undefined, onChange),
+            save: async ({ id = newId(), ...data }, currentUsers, assignedUserIds) => {
+                shiftPatterns.put({ ...data, id });
+                currentUsers.forEach(user => {
+                    const isAssigned = assignedUserIds.includes(user.id);
+                    if (isAssigned && user.shiftPatternId !== id) {
+                        users.update(user.id, { shiftPatternId: id });
+                    } else if (!isAssigned && user.shiftPatternId === id) {
+                        users.update(user.id, { shiftPatternId: undefined });
+                    }
+                });
+                return id;
+            },
+            delete: async (patternId, currentUsers) => {
+                shiftPatterns.remove(patternId);
+                currentUsers.filter(u => u.shiftPatternId === patternId).forEach(user => users.update(user.id, { shiftPatternId: undefined }));
+            },
+        },
+
+        workSites: {
+            subscribe: (onChange) => workSites.watch(undefined, onChange),
+            save: async ({ id = newId(), ...data }, currentUsers, assignedUserIds) => {
+                workSites.put(withoutUndefined({ ...data, id }));
+                currentUsers.forEach(user => {
+                    const siteIds = users.find(user.id)?.siteIds ?? [];
+                    const isAssigned = assignedUserIds.includes(user.id);
+                    if (isAssigned && !siteIds.includes(id)) {
+                        users.update(user.id, { siteIds: [...siteIds, id] });
+                    } else if (!isAssigned && siteIds.includes(id)) {
+                        users.update(user.id, { siteIds: siteIds.filter(siteId => siteId !== id) });
+                    }
+                });
+                return id;
+            },
+            delete: async (siteId, currentUsers) => {
+                workSites.remove(siteId);
+                currentUsers.filter(u => u.siteIds?.includes(siteId)).forEach(user => {
+                    users.update(user.id, { siteIds: (users.find(user.id)?.siteIds ?? []).filter(id => id !== siteId) });
+                });
+            },
+        },
+
+        hourBank: {
+            subscribe: hourBankAdjustments.watch,
+            add: async (adjustment) => {
+                const id = newId();
+                hourBankAdjustments.put({ ...adjustment, id });
+                return id;
+            },
+            subscribeClosings: hourBankClosings.watch,
+            saveClosings: async (closings) => hourBankClosings.putAll(closings.map(closing => ({ ...closing, closedAt: new Date() }))),
+            reopen: async (userId, month) => {
+                hourBankClosings.all()
+                    .filter(closing => closing.userId === userId && closing.month >= month)
+                    .forEach(closing => hourBankClosings.remove(closing.id));
+            },
+        },
+
+        acknowledgments: {
+            subscribe: acknowledgments.watch,
+            save: async (acknowledgment) => acknowledgments.put({ ...acknowledgment, acknowledgedAt: new Date() }),
+        },
+
+        correctionRequests: {
+            subscribe: correctionRequests.watch,
+            add: async (request) => {
+                const id = newId();
+                correctionRequests.put(withoutUndefined({ ...request, id }));
+                return id;
+            },
+            review: async (requestId, review, adjustment) => {
+                let appliedAdjustmentId: string | undefined;
+                if (adjustment) {
+                    appliedAdjustmentId = newId();
+                    punchAdjustments.put(withoutUndefined({ ...adjustment, id: appliedAdjustmentId }));
+                }
+                correctionRequests.update(requestId, { ...review, ...(appliedAdjustmentId ? { appliedAdjustmentId } : {}) });
+                return appliedAdjustmentId;
+            },
+        },
+
+        auditLogs: {
+            append: async (content) => {
+                const head = auditChainHead ?? { sequence: 0, lastHash: '' };
+                const sequence = head.sequence + 1;
+                const hash = await computeAuditHash({ ...content, sequence }, head.lastHash);
+                const id = newId();
+                auditLogs.put({ ...content, id, sequence, previousHash: head.lastHash, hash });
+                auditChainHead = { sequence, lastHash: hash, lastLogId: id };
+            },
+            listBetween: async (start, end) => auditLogs.all()
+                .filter(log => log.timestamp >= start && log.timestamp < end)
+                .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()),
+            list: async () => auditLogs.all(),
+            getChainHead: async () => auditChainHead,
+        },
+
+        backup: {
+            read: async () => ({
+                users: users.all(),
+                time_entries: timeEntries.all().map(entry => ({ ...entry, timestamp: entry.timestamp.toISOString() })),
+            }),
+            restore: async (data) => {
+                users.putAll(data.users.filter(user => user.id) as User[]);
+                timeEntries.putAll(data.time_entries
+                    .filter(entry => entry.id && entry.timestamp)
+                    .map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) }) as TimeEntry));
+            },
+        },
+    };
+};
@@ -0,0 +1,189 @@
+import { User, TimeEntry, ShiftPattern, WorkSite, HolidayCalendar, EmployerInfo, HourBankAdjustment, HourBankClosing, TimesheetAcknowledgment, CorrectionRequest, PunchAdjustment, PunchReceipt, AuditLog, AppConfig } from '../types';
+import { AuditChainHead, AuditLogContent } from '../utils/audit';
+
+// Storage-independent access to the app data. App.tsx only talks to these interfaces, injected
+// through RepositoryContext: the Firestore implementation backs the deployed app and the
+// in-memory one runs it in tests and local demos without Firebase.
+//
+// Subscriptions call back with the full current list on every change. Per-employee collections
+// take an optional userId; without it they return every employee's records (admins only).
+// Time entries are subscribed from a start date on, the rest of their history is read once.
+
+export type Unsubscribe = () => void;
+
+export interface AuthSession {
+    uid: string;
+    email: string | null;
+}
+
+// Failures are rejected with errors carrying Firebase Auth codes ('auth/invalid-credential', ...)
+export interface AuthService {
+    onSessionChange(onChange: (session: AuthSession | null) => void): Unsubscribe;
+    currentSession(): AuthSession | null;
+    signIn(email: string, password: string, rememberMe: boolean): Promise<AuthSession>;
+    signOut(): Promise<void>;
+    // Creates the login of a new employee without replacing the admin's session; resolves to its uid
+    createAccount(email: string, password: string): Promise<string>;
+    sendPasswordReset(email: string): Promise<void>;
+    // Confirms the current password before changing it
+    changePassword(currentPassword: string, newPassword: string): Promise<void>;
+}
+
+export interface UserRepository {
+    subscribeAll(onChange: (users: User[]) => void): Unsubscribe;
+    subscribe(userId: string, onChange: (user: User | null) => void): Unsubscribe;
+    get(userId: string): Promise<User | null>;
+    findByEmail(email: string): Promise<User | null>;
+    list(): Promise<User[]>;
+    // Create, update and reassignId keep the username lookup of the user in step
+    create(user: User): Promise<void>;
+    // Optional fields left undefined are removed from the stored profile
+    update(user: User): Promise<void>;
+    // Moves a profile stored under a legacy id to the Auth uid, together with the punches and
+    // unchained audit records that point to it. Chained records keep the old id.
+    reassignId(user: User, newId: string): Promise<User>;
+    // Username lookup, readable before login so the users collection stays private. Reads a single
+    // entry; null when no user, or more than one, has the name.
+    findEmailByUsername(name: string): Promise<string | null>;
+    // Rewrites the lookup entries that differ from `users`, leaving out names shared by several users
+    syncUsernameIndex(users: User[]): Promise<void>;
+}
+
+export type NewTimeEntry = Omit<TimeEntry, 'id' | 'syncedAt' | 'adjustment' | 'originalTimestamp'>;
+
+// Bounds on the punch timestamp; from is inclusive, before exclusive
+export interface TimeEntryRange {
+    from?: Date;
+    before?: Date;
+}
+
+export interface TimeEntryRepository {
+    newId(): string;
+    // Punches inside the range; an open side is unbounded
+    subscribe(userId: string | undefined, range: TimeEntryRange, onChange: (entries: TimeEntry[]) => void): Unsubscribe;
+    list(userId?: string, range?: TimeEntryRange): Promise<TimeEntry[]>;
+    // Skips local caches, so a punch only counts as stored once the server has it
+    getFromServer(entryId: string): Promise<TimeEntry | null>;
+    // syncedAt is always the server time; with useServerTime the timestamp is too
+    create(entryId: string, entry: NewTimeEntry, useServerTime: boolean): Promise<void>;
+    updateObservation(entryId: string, observation: string): Promise<void>;
+    // Current server time in milliseconds, for measuring the device clock skew
+    fetchServerTime(userId: string): Promise<number | undefined>;
+}
+
+export type NewPunchAdjustment = Omit<PunchAdjustment, 'id'>;
+
+export interface PunchAdjustmentRepository {
+    subscribe(userId: string | undefined, onChange: (adjustments: PunchAdjustment[]) => void): Unsubscribe;
+    add(adjustment: NewPunchAdjustment): Promise<string>;
+    updateObservation(adjustmentId: string, observation: string): Promise<void>;
+}
+
+// Last NSR handed out and the hash of its AFD record
+export interface AfdCounter {
+    nsr: number;
+    lastHash: string;
+    lastEntryId?: string; // Receipt that took the NSR, checked by the rules; absent before the first one
+}
+
+export type NewPunchReceipt = Omit<PunchReceipt, 'id' | 'issuedAt'>;
+
+export interface PunchReceiptRepository {
+    subscribe(userId: string | undefined, onChange: (receipts: PunchReceipt[]) => void): Unsubscribe;
+    // Creates the counter unless it exists; buildCounter only runs when it is missing
+    initializeCounter(buildCounter: () => Promise<AfdCounter>): Promise<void>;
+    // Takes the next NSR and stores the receipt built for it in one transaction. Resolves to null
+    // when the punch already has a receipt or the counter was not initialized yet.
+    issue(entryId: string, buildReceipt: (nsr: number, previousHash: string) => Promise<NewPunchReceipt>): Promise<number | null>;
+}
+
+// Documents under config/; null when never saved
+export interface ConfigRepository {
+    subscribeAppConfig(onChange: (config: AppConfig | null) => void): Unsubscribe;
+    subscribeHolidayCalendar(onChange: (calendar: Partial<HolidayCalendar> | null) => void): Unsubscribe;
+    subscribeEmployerInfo(onChange: (employer: Partial<EmployerInfo> | null) => void): Unsubscribe;
+    saveAppConfig(config: AppConfig): Promise<void>;
+    saveHolidayCalendar(calendar: HolidayCalendar): Promise<void>;
+    saveEmployerInfo(employer: EmployerInfo): Promise<void>;
+}
+
+// Shift patterns and work sites are saved together with the assignment of `users` to them, in one
+// write: the users in assignedUserIds are assigned and the other ones released.
+export interface ShiftPatternRepository {
+    subscribe(onChange: (patterns: ShiftPattern[]) => void): Unsubscribe;
+    save(pattern: Omit<ShiftPattern, 'id'> & { id?: string }, users: User[], assignedUserIds: string[]): Promise<string>;
+    delete(patternId: string, users: User[]): Promise<void>;
+}
+
+export interface WorkSiteRepository {
+    subscribe(onChange: (sites: WorkSite[]) => void): Unsubscribe;
+    save(site: Omit<WorkSite, 'id'> & { id?: string }, users: User[], assignedUserIds: string[]): Promise<string>;
+    delete(siteId: string, users: User[]): Promise<void>;
+}
+
+export type NewHourBankClosing = Omit<HourBankClosing, 'closedAt'>;
+
+export interface HourBankRepository {
+    subscribe(userId: string | undefined, onChange: (adjustments: HourBankAdjustment[]) => void): Unsubscribe;
+    add(adjustment: Omit<HourBankAdjustment, 'id'>): Promise<string>;
+    subscribeClosings(userId: string | undefined, onChange: (closings: HourBankClosing[]) => void): Unsubscribe;
+    // closedAt is the server time
+    saveClosings(closings: NewHourBankClosing[]): Promise<void>;
+    // Removes the closing of the month and the later ones of the employee
+    reopen(userId: string, month: string): Promise<void>;
+}
+
+export type NewTimesheetAcknowledgment = Omit<TimesheetAcknowledgment, 'acknowledgedAt'>;
+
+export interface TimesheetAcknowledgmentRepository {
+    subscribe(userId: string | undefined, onChange: (acknowledgments: TimesheetAcknowledgment[]) => void): Unsubscribe;
+    // acknowledgedAt is the server time; a month is acknowledged again only when its content changed
+    save(acknowledgment: NewTimesheetAcknowledgment): Promise<void>;
+}
+
+export type CorrectionReview = Required<Pick<CorrectionRequest, 'status' | 'reviewedById' | 'reviewedByName' | 'reviewedAt' | 'reviewComment'>>;
+
+export interface CorrectionRequestRepository {
+    subscribe(userId: string | undefined, onChange: (requests: CorrectionRequest[]) => void): Unsubscribe;
+    add(request: Omit<CorrectionRequest, 'id'>): Promise<string>;
+    // Records the review and, for approvals, the adjustment that applies it, in one write.
+    // Resolves to the id of that adjustment.
+    review(requestId: string, review: CorrectionReview, adjustment: NewPunchAdjustment | null): Promise<string | undefined>;
+}
+
+export interface AuditLogRepository {
+    // Appends to the hash chain, advancing its head in the same transaction. Offline, the record is
+    // kept outside the chain; online, failing to chain it rejects.
+    append(content: Omit<AuditLogContent, 'sequence'>): Promise<void>;
+    // Newest first; end is exclusive
+    listBetween(start: Date, end: Date): Promise<AuditLog[]>;
+    list(): Promise<AuditLog[]>;
+    getChainHead(): Promise<AuditChainHead | null>;
+}
+
+// JSON backup of users and time entries, as downloaded from the Settings tab
+export interface BackupData {
+    users: Record<string, any>[];
+    time_entries: Record<string, any>[];
+}
+
+export interface BackupRepository {
+    read(): Promise<BackupData>;
+    restore(data: BackupData): Promise<void>;
+}
+
+export interface Repositories {
+    auth: AuthService;
+    users: UserRepository;
+    timeEntries: TimeEntryRepository;
+    punchAdjustments: PunchAdjustmentRepository;
+    punchReceipts: PunchReceiptRepository;
+    config: ConfigRepository;
+    shiftPatterns: ShiftPatternRepository;
+    workSites: WorkSiteRepository;
+    hourBank: HourBankRepository;
+    acknowledgments: TimesheetAcknowledgmentRepository;
+    correctionRequests: CorrectionRequestRepository;
+    auditLogs: AuditLogRepository;
+    backup: BackupRepository;
+}
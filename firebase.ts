@@ -18,4 +18,8 @@ const firebaseConfig = {
 // Initialize Firebase
 const app = initializeApp(firebaseConfig);
 export const auth = getAuth(app);
-export const db = getFirestore(app);
\ No newline at end of file
+export const db = getFirestore(app);
+
+// Creating an account signs into it, so admins create employees on a separate Auth instance
+// and keep their own session (the security rules only let admins write user profiles)
+export const userCreationAuth = getAuth(initializeApp(firebaseConfig, "user-creation"));
\ No newline at end of file
@@ -2,6 +2,15 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { RepositoryProvider } from './data/RepositoryContext';
+import { createFirestoreRepositories } from './data/firestore';
+import { createMemoryRepositories } from './data/memory';
+import { DEMO_SEED } from './data/demoSeed';
+
+// DATA_SOURCE=memory runs the app on demo data kept in memory, without Firebase
+const repositories = process.env.DATA_SOURCE === 'memory'
+  ? createMemoryRepositories(DEMO_SEED)
+  : createFirestoreRepositories();
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -11,7 +20,9 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <RepositoryProvider repositories={repositories}>
+      <App />
+    </RepositoryProvider>
   </React.StrictMode>
 );
 
@@ -1,18 +1,37 @@
-const CACHE_NAME = 'ponto-digital-v1';
+const CACHE_NAME = 'ponto-digital-v2';
+const APP_SHELL = ['/', '/index.html', '/manifest.json', '/icon.png'];
+
+// Firebase traffic is never cached: punches made offline are queued in IndexedDB by the app
+const isFirebaseRequest = (url) => /googleapis\.com|firebaseio\.com|firebaseapp\.com/.test(url.hostname);
 
 self.addEventListener('install', (event) => {
-  self.skipWaiting();
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) => cache.addAll(APP_SHELL)).then(() => self.skipWaiting())
+  );
 });
 
 self.addEventListener('activate', (event) => {
-  event.waitUntil(clients.claim());
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => clients.claim())
+  );
 });
 
 self.addEventListener('fetch', (event) => {
-  // Network first strategy
+  const url = new URL(event.request.url);
+  if (event.request.method !== 'GET' || isFirebaseRequest(url)) return;
+
+  // Network first, keeping a copy so the app still opens without a connection
   event.respondWith(
-    fetch(event.request).catch(() => {
-      return caches.match(event.request);
-    })
+    fetch(event.request)
+      .then((response) => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put(event.request, copy));
+        }
+        return response;
+      })
+      .catch(() => caches.match(event.request).then((cached) => cached || (event.request.mode === 'navigate' ? caches.match('/index.html') : Response.error())))
   );
 });
@@ -0,0 +1,168 @@
+import { describe, it, beforeAll, beforeEach, afterAll } from 'vitest';
+import { RulesTestEnvironment, assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { collection, doc, getDoc, getDocs, query, where, setDoc, updateDoc, deleteDoc, serverTimestamp } from 'firebase/firestore';
+import { CorrectionRequestStatus, CorrectionRequestType, AcknowledgmentStatus, Role, TimeEntryType } from '../../types';
+import { setupRulesEnvironment, resetFirestore, firestoreAs, seed, USERS } from './setup';
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+    env = await setupRulesEnvironment();
+});
+
+beforeEach(async () => {
+    await resetFirestore(env);
+});
+
+afterAll(async () => {
+    await env?.cleanup();
+});
+
+describe('users', () => {
+    it('shows employees only their own profile', async () => {
+        const db = firestoreAs(env, 'ana');
+        await assertSucceeds(getDoc(doc(db, 'users', 'ana')));
+        await assertFails(getDoc(doc(db, 'users', 'bruno')));
+        await assertFails(getDocs(collection(db, 'users')));
+        await assertSucceeds(getDocs(collection(firestoreAs(env, 'admin'), 'users')));
+    });
+
+    it('finds a legacy profile by the signed-in e-mail only', async () => {
+        await assertSucceeds(getDocs(query(collection(firestoreAs(env, 'ana'), 'users'), where('email', '==', USERS.ana.email))));
+        await assertFails(getDocs(query(collection(firestoreAs(env, 'ana'), 'users'), where('email', '==', USERS.bruno.email))));
+        await assertFails(getDocs(query(collection(firestoreAs(env), 'users'), where('email', '==', USERS.ana.email))));
+    });
+
+    it('locks out inactive users', async () => {
+        await assertFails(getDoc(doc(firestoreAs(env, 'carla'), 'users', 'carla')));
+    });
+
+    it('is maintained by admins only', async () => {
+        await assertFails(updateDoc(doc(firestoreAs(env, 'ana'), 'users', 'ana'), { role: Role.ADMIN }));
+        await assertSucceeds(updateDoc(doc(firestoreAs(env, 'admin'), 'users', 'ana'), { cpf: '52998224725' }));
+        await assertSucceeds(setDoc(doc(firestoreAs(env, 'admin'), 'users', 'davi'), { ...USERS.ana, id: 'davi', email: 'davi@example.com' }));
+    });
+});
+
+describe('usernames', () => {
+    it('resolves a name before login, but only admins list or change the index', async () => {
+        await seed(env, db => setDoc(doc(db, 'usernames', 'ana souza'), { email: USERS.ana.email }));
+        await assertSucceeds(getDoc(doc(firestoreAs(env), 'usernames', 'ana souza')));
+        await assertFails(getDocs(collection(firestoreAs(env), 'usernames')));
+        await assertFails(setDoc(doc(firestoreAs(env, 'ana'), 'usernames', 'ana'), { email: USERS.bruno.email }));
+        await assertSucceeds(setDoc(doc(firestoreAs(env, 'admin'), 'usernames', 'bruno lima'), { email: USERS.bruno.email }));
+    });
+});
+
+describe('settings', () => {
+    const documents = [['config', 'main'], ['shift_patterns', 's1'], ['work_sites', 'w1']] as const;
+
+    it('is read by active users and written by admins', async () => {
+        for (const [name, id] of documents) {
+            await seed(env, db => setDoc(doc(db, name, id), { name: id }));
+            await assertSucceeds(getDoc(doc(firestoreAs(env, 'ana'), name, id)));
+            await assertFails(getDoc(doc(firestoreAs(env, 'carla'), name, id)));
+            await assertFails(getDoc(doc(firestoreAs(env), name, id)));
+            await assertFails(setDoc(doc(firestoreAs(env, 'ana'), name, id), { name: 'changed' }));
+            await assertSucceeds(setDoc(doc(firestoreAs(env, 'admin'), name, id), { name: 'changed' }));
+        }
+    });
+});
+
+describe('hour bank', () => {
+    const closing = (userId: string, month: string) => ({
+        userId,
+        month,
+        openingBalance: 0,
+        closingBalance: 2,
+        creditLots: [],
+        debt: 0,
+        closedById: 'admin',
+        closedByName: 'Administrador',
+        closedAt: serverTimestamp(),
+    });
+
+    it('takes manual entries from admins only and never changes them', async () => {
+        const entry = { userId: 'ana', date: '2025-01-10', hours: 2, reason: 'Compensação', createdById: 'admin', createdByName: 'Administrador', createdAt: new Date() };
+        await assertFails(setDoc(doc(firestoreAs(env, 'ana'), 'hour_bank_adjustments', 'h1'), { ...entry, createdById: 'ana' }));
+        await assertSucceeds(setDoc(doc(firestoreAs(env, 'admin'), 'hour_bank_adjustments', 'h1'), entry));
+        await assertFails(updateDoc(doc(firestoreAs(env, 'admin'), 'hour_bank_adjustments', 'h1'), { hours: 4 }));
+        await assertSucceeds(getDoc(doc(firestoreAs(env, 'ana'), 'hour_bank_adjustments', 'h1')));
+        await assertFails(getDoc(doc(firestoreAs(env, 'bruno'), 'hour_bank_adjustments', 'h1')));
+    });
+
+    it('closes months under their own id, at the server time', async () => {
+        const db = firestoreAs(env, 'admin');
+        await assertSucceeds(setDoc(doc(db, 'hour_bank_closings', 'ana_2025-01'), closing('ana', '2025-01')));
+        await assertFails(setDoc(doc(db, 'hour_bank_closings', 'ana_2025-02'), closing('ana', '2025-03')));
+        await assertFails(setDoc(doc(db, 'hour_bank_closings', 'ana_2025-03'), { ...closing('ana', '2025-03'), closedAt: new Date() }));
+        await assertFails(setDoc(doc(firestoreAs(env, 'ana'), 'hour_bank_closings', 'ana_2025-04'), { ...closing('ana', '2025-04'), closedById: 'ana' }));
+    });
+
+    it('lets admins reopen a month', async () => {
+        await seed(env, db => setDoc(doc(db, 'hour_bank_closings', 'ana_2025-01'), { ...closing('ana', '2025-01'), closedAt: new Date() }));
+        await assertSucceeds(getDoc(doc(firestoreAs(env, 'ana'), 'hour_bank_closings', 'ana_2025-01')));
+        await assertFails(deleteDoc(doc(firestoreAs(env, 'ana'), 'hour_bank_closings', 'ana_2025-01')));
+        await assertSucceeds(deleteDoc(doc(firestoreAs(env, 'admin'), 'hour_bank_closings', 'ana_2025-01')));
+    });
+});
+
+describe('timesheet_acknowledgments', () => {
+    const acknowledgment = (userId: string) => ({
+        userId,
+        month: '2025-01',
+        status: AcknowledgmentStatus.ACCEPTED,
+        comment: '',
+        contentHash: 'abc',
+        acknowledgedAt: serverTimestamp(),
+    });
+
+    it('is signed by the employee under their own id and never deleted', async () => {
+        const db = firestoreAs(env, 'ana');
+        await assertSucceeds(setDoc(doc(db, 'timesheet_acknowledgments', 'ana_2025-01'), acknowledgment('ana')));
+        await assertFails(setDoc(doc(db, 'timesheet_acknowledgments', 'bruno_2025-01'), acknowledgment('bruno')));
+        await assertFails(setDoc(doc(firestoreAs(env, 'admin'), 'timesheet_acknowledgments', 'ana_2025-02'), { ...acknowledgment('ana'), month: '2025-02' }));
+        await assertFails(deleteDoc(doc(db, 'timesheet_acknowledgments', 'ana_2025-01')));
+    });
+
+    it('is signed at the server time', async () => {
+        const db = firestoreAs(env, 'ana');
+        await assertFails(setDoc(doc(db, 'timesheet_acknowledgments', 'ana_2025-01'), { ...acknowledgment('ana'), acknowledgedAt: new Date(2025, 1, 1) }));
+    });
+
+    it('is signed again only for a changed espelho', async () => {
+        await seed(env, db => setDoc(doc(db, 'timesheet_acknowledgments', 'ana_2025-01'), { ...acknowledgment('ana'), acknowledgedAt: new Date(2025, 1, 1) }));
+        const db = firestoreAs(env, 'ana');
+        await assertFails(setDoc(doc(db, 'timesheet_acknowledgments', 'ana_2025-01'), { ...acknowledgment('ana'), status: AcknowledgmentStatus.CONTESTED, comment: 'Faltou a saída' }));
+        await assertSucceeds(setDoc(doc(db, 'timesheet_acknowledgments', 'ana_2025-01'), { ...acknowledgment('ana'), contentHash: 'def' }));
+    });
+});
+
+describe('correction_requests', () => {
+    const request = (userId: string) => ({
+        userId,
+        dateKey: '2025-01-10',
+        requestType: CorrectionRequestType.ADD_PUNCH,
+        entryType: TimeEntryType.SAIDA,
+        requestedTimestamp: new Date(2025, 0, 10, 17),
+        justification: 'Esqueci de marcar a saída',
+        status: CorrectionRequestStatus.PENDING,
+        createdAt: new Date(),
+    });
+
+    it('is opened by the employee as pending', async () => {
+        const db = firestoreAs(env, 'ana');
+        await assertSucceeds(setDoc(doc(db, 'correction_requests', 'c1'), request('ana')));
+        await assertFails(setDoc(doc(db, 'correction_requests', 'c2'), { ...request('ana'), status: CorrectionRequestStatus.APPROVED }));
+        await assertFails(setDoc(doc(db, 'correction_requests', 'c3'), request('bruno')));
+    });
+
+    it('is reviewed once, by an admin', async () => {
+        await seed(env, db => setDoc(doc(db, 'correction_requests', 'c1'), request('ana')));
+        const review = { status: CorrectionRequestStatus.REJECTED, reviewedById: 'admin', reviewedByName: 'Administrador', reviewedAt: new Date(), reviewComment: 'Sem registro de acesso' };
+        await assertFails(updateDoc(doc(firestoreAs(env, 'ana'), 'correction_requests', 'c1'), { status: CorrectionRequestStatus.APPROVED }));
+        await assertFails(updateDoc(doc(firestoreAs(env, 'admin'), 'correction_requests', 'c1'), { justification: 'Outra' }));
+        await assertSucceeds(updateDoc(doc(firestoreAs(env, 'admin'), 'correction_requests', 'c1'), review));
+        await assertFails(updateDoc(doc(firestoreAs(env, 'admin'), 'correction_requests', 'c1'), { ...review, status: CorrectionRequestStatus.APPROVED }));
+    });
+});
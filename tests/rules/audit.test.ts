@@ -0,0 +1,96 @@
+import { describe, it, beforeAll, beforeEach, afterAll } from 'vitest';
+import { RulesTestEnvironment, assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { Firestore, collection, doc, getDoc, getDocs, setDoc, updateDoc, writeBatch } from 'firebase/firestore';
+import { setupRulesEnvironment, resetFirestore, firestoreAs, seed } from './setup';
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+    env = await setupRulesEnvironment();
+});
+
+beforeEach(async () => {
+    await resetFirestore(env);
+});
+
+afterAll(async () => {
+    await env?.cleanup();
+});
+
+const record = (actorId: string, sequence: number) => ({
+    timestamp: new Date(),
+    actorId,
+    actorName: actorId === 'anonymous' ? 'System' : actorId,
+    action: actorId === 'anonymous' ? 'USER_LOGIN_FAIL' : 'USER_LOGIN_SUCCESS',
+    details: {},
+    sequence,
+    previousHash: sequence > 1 ? `hash-${sequence - 1}` : '',
+    hash: `hash-${sequence}`,
+});
+
+// The same transaction auditLogs.append runs
+const append = (db: Firestore, logId: string, content: ReturnType<typeof record>) => {
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'audit_logs', logId), content);
+    batch.set(doc(db, 'counters', 'audit_logs'), { sequence: content.sequence, lastHash: content.hash, lastLogId: logId });
+    return batch.commit();
+};
+
+describe('audit chain', () => {
+    it('starts the chain with the first record, even before login', async () => {
+        await assertSucceeds(append(firestoreAs(env), 'l1', record('anonymous', 1)));
+    });
+
+    it('appends records of the signed-in user that continue the head', async () => {
+        await seed(env, db => Promise.all([
+            setDoc(doc(db, 'audit_logs', 'l1'), record('anonymous', 1)),
+            setDoc(doc(db, 'counters', 'audit_logs'), { sequence: 1, lastHash: 'hash-1', lastLogId: 'l1' }),
+        ]));
+        const db = firestoreAs(env, 'ana');
+        await assertFails(append(db, 'l2', record('bruno', 2)));
+        await assertFails(append(db, 'l2', { ...record('ana', 2), previousHash: 'forged' }));
+        await assertFails(append(db, 'l3', record('ana', 3)));
+        await assertSucceeds(append(db, 'l2', record('ana', 2)));
+    });
+
+    it('never moves the head without a new record', async () => {
+        await seed(env, db => Promise.all([
+            setDoc(doc(db, 'audit_logs', 'l1'), record('anonymous', 1)),
+            setDoc(doc(db, 'counters', 'audit_logs'), { sequence: 1, lastHash: 'hash-1', lastLogId: 'l1' }),
+        ]));
+        const db = firestoreAs(env);
+        await assertFails(setDoc(doc(db, 'counters', 'audit_logs'), { sequence: 2, lastHash: 'hash-2' }));
+        await assertFails(setDoc(doc(db, 'counters', 'audit_logs'), { sequence: 2, lastHash: 'hash-1', lastLogId: 'l1' }));
+        await assertFails(setDoc(doc(db, 'audit_logs', 'l2'), record('anonymous', 2)));
+    });
+
+    it('refuses to start a second chain', async () => {
+        await assertFails(setDoc(doc(firestoreAs(env), 'counters', 'audit_logs'), { sequence: 1, lastHash: 'hash-1' }));
+        await seed(env, db => setDoc(doc(db, 'counters', 'audit_logs'), { sequence: 4, lastHash: 'hash-4', lastLogId: 'l4' }));
+        await assertFails(append(firestoreAs(env), 'l1', record('anonymous', 1)));
+    });
+});
+
+describe('audit_logs', () => {
+    it('takes only failed logins from anonymous actors', async () => {
+        const { sequence, previousHash, hash, ...content } = record('anonymous', 1);
+        const db = firestoreAs(env);
+        await assertSucceeds(setDoc(doc(db, 'audit_logs', 'fail'), { ...content, details: { attemptedIdentifier: 'ana', errorCode: 'auth/wrong-password' } }));
+        await assertFails(setDoc(doc(db, 'audit_logs', 'action'), { ...content, action: 'DELETE_USER' }));
+        await assertFails(setDoc(doc(db, 'audit_logs', 'details'), { ...content, details: { targetUserId: 'ana' } }));
+        await assertFails(setDoc(doc(db, 'audit_logs', 'keys'), { ...content, note: 'x' }));
+    });
+
+    it('keeps records written offline outside the chain', async () => {
+        const { sequence, previousHash, hash, ...content } = record('ana', 1);
+        await assertSucceeds(setDoc(doc(firestoreAs(env, 'ana'), 'audit_logs', 'offline'), content));
+        await assertFails(setDoc(doc(firestoreAs(env, 'ana'), 'audit_logs', 'forged'), { ...content, actorId: 'admin' }));
+    });
+
+    it('is read by admins only and never changed', async () => {
+        await seed(env, db => setDoc(doc(db, 'audit_logs', 'l1'), record('ana', 1)));
+        await assertFails(getDocs(collection(firestoreAs(env, 'ana'), 'audit_logs')));
+        await assertSucceeds(getDoc(doc(firestoreAs(env, 'admin'), 'audit_logs', 'l1')));
+        await assertFails(updateDoc(doc(firestoreAs(env, 'admin'), 'audit_logs', 'l1'), { action: 'USER_LOGOUT' }));
+    });
+});
@@ -0,0 +1,184 @@
+import { describe, it, beforeAll, beforeEach, afterAll } from 'vitest';
+import { RulesTestEnvironment, assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { Firestore, collection, doc, getDoc, getDocs, query, where, setDoc, updateDoc, deleteDoc, writeBatch, serverTimestamp } from 'firebase/firestore';
+import { PunchAdjustmentType, TimeEntryType } from '../../types';
+import { setupRulesEnvironment, resetFirestore, firestoreAs, seed } from './setup';
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+    env = await setupRulesEnvironment();
+});
+
+beforeEach(async () => {
+    await resetFirestore(env);
+});
+
+afterAll(async () => {
+    await env?.cleanup();
+});
+
+const HOUR_MS = 60 * 60 * 1000;
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * HOUR_MS);
+
+const livePunch = (userId: string) => ({
+    userId,
+    timestamp: serverTimestamp(),
+    deviceTimestamp: new Date(),
+    syncedAt: serverTimestamp(),
+    type: TimeEntryType.ENTRADA,
+    observation: '',
+    capturedOffline: false,
+});
+
+const offlinePunch = (userId: string, capturedAt: Date) => ({
+    ...livePunch(userId),
+    timestamp: capturedAt,
+    deviceTimestamp: capturedAt,
+    capturedOffline: true,
+});
+
+describe('time_entries', () => {
+    it('lets employees punch for themselves at the server time', async () => {
+        await assertSucceeds(setDoc(doc(firestoreAs(env, 'ana'), 'time_entries', 'e1'), livePunch('ana')));
+    });
+
+    it('refuses a live punch with a time chosen by the client', async () => {
+        await assertFails(setDoc(doc(firestoreAs(env, 'ana'), 'time_entries', 'e1'), { ...livePunch('ana'), timestamp: hoursAgo(2) }));
+    });
+
+    it('accepts offline punches within the queue window only', async () => {
+        const db = firestoreAs(env, 'ana');
+        await assertSucceeds(setDoc(doc(db, 'time_entries', 'recent'), offlinePunch('ana', hoursAgo(30))));
+        await assertFails(setDoc(doc(db, 'time_entries', 'stale'), offlinePunch('ana', hoursAgo(10 * 24))));
+        await assertFails(setDoc(doc(db, 'time_entries', 'future'), offlinePunch('ana', hoursAgo(-1))));
+    });
+
+    it('refuses punches for someone else, from inactive users or with unknown fields', async () => {
+        await assertFails(setDoc(doc(firestoreAs(env, 'ana'), 'time_entries', 'e1'), livePunch('bruno')));
+        await assertFails(setDoc(doc(firestoreAs(env, 'carla'), 'time_entries', 'e2'), livePunch('carla')));
+        await assertFails(setDoc(doc(firestoreAs(env, 'ana'), 'time_entries', 'e3'), { ...livePunch('ana'), adjustment: 'x' }));
+        await assertFails(setDoc(doc(firestoreAs(env), 'time_entries', 'e4'), livePunch('ana')));
+    });
+
+    it('only changes the observation and never deletes', async () => {
+        await seed(env, db => setDoc(doc(db, 'time_entries', 'e1'), { ...livePunch('ana'), timestamp: hoursAgo(1) }));
+        const db = firestoreAs(env, 'ana');
+        await assertSucceeds(updateDoc(doc(db, 'time_entries', 'e1'), { observation: 'Reunião externa' }));
+        await assertFails(updateDoc(doc(db, 'time_entries', 'e1'), { timestamp: hoursAgo(3) }));
+        await assertFails(deleteDoc(doc(db, 'time_entries', 'e1')));
+        await assertFails(deleteDoc(doc(firestoreAs(env, 'admin'), 'time_entries', 'e1')));
+    });
+
+    it('shows employees their own punches and admins everyone\'s', async () => {
+        await seed(env, db => Promise.all([
+            setDoc(doc(db, 'time_entries', 'ana1'), { ...livePunch('ana'), timestamp: hoursAgo(1) }),
+            setDoc(doc(db, 'time_entries', 'bruno1'), { ...livePunch('bruno'), timestamp: hoursAgo(1) }),
+        ]));
+        const ana = firestoreAs(env, 'ana');
+        await assertSucceeds(getDoc(doc(ana, 'time_entries', 'ana1')));
+        await assertSucceeds(getDocs(query(collection(ana, 'time_entries'), where('userId', '==', 'ana'))));
+        await assertFails(getDoc(doc(ana, 'time_entries', 'bruno1')));
+        await assertFails(getDocs(collection(ana, 'time_entries')));
+        await assertSucceeds(getDocs(collection(firestoreAs(env, 'admin'), 'time_entries')));
+    });
+});
+
+describe('punch_adjustments', () => {
+    const adjustment = (createdById: string) => ({
+        userId: 'ana',
+        adjustmentType: PunchAdjustmentType.INCLUSION,
+        entryType: TimeEntryType.SAIDA,
+        timestamp: hoursAgo(2),
+        reason: 'Esqueceu de marcar',
+        createdById,
+        createdByName: 'Administrador',
+        createdAt: new Date(),
+    });
+
+    it('is created by admins in their own name', async () => {
+        const db = firestoreAs(env, 'admin');
+        await assertSucceeds(setDoc(doc(db, 'punch_adjustments', 'a1'), adjustment('admin')));
+        await assertFails(setDoc(doc(db, 'punch_adjustments', 'a2'), adjustment('ana')));
+        await assertFails(setDoc(doc(firestoreAs(env, 'ana'), 'punch_adjustments', 'a3'), adjustment('ana')));
+    });
+
+    it('only changes the observation', async () => {
+        await seed(env, db => setDoc(doc(db, 'punch_adjustments', 'a1'), adjustment('admin')));
+        const db = firestoreAs(env, 'ana');
+        await assertSucceeds(updateDoc(doc(db, 'punch_adjustments', 'a1'), { observation: 'Conferido' }));
+        await assertFails(updateDoc(doc(db, 'punch_adjustments', 'a1'), { reason: 'Outro motivo' }));
+        await assertFails(deleteDoc(doc(firestoreAs(env, 'admin'), 'punch_adjustments', 'a1')));
+    });
+});
+
+describe('punch_receipts and counters/afd', () => {
+    const receipt = (entryId: string, userId: string, nsr: number) => ({
+        entryId,
+        userId,
+        nsr,
+        timestamp: hoursAgo(1),
+        entryType: TimeEntryType.ENTRADA,
+        record: `${nsr}`,
+        hash: `hash-${nsr}`,
+        previousHash: `hash-${nsr - 1}`,
+        issuedAt: serverTimestamp(),
+    });
+
+    // The same transaction App.tsx runs to issue a comprovante
+    const issue = (db: Firestore, entryId: string, userId: string, nsr: number) => {
+        const batch = writeBatch(db);
+        batch.set(doc(db, 'punch_receipts', entryId), receipt(entryId, userId, nsr));
+        batch.set(doc(db, 'counters', 'afd'), { nsr, lastHash: `hash-${nsr}`, lastEntryId: entryId });
+        return batch.commit();
+    };
+
+    beforeEach(async () => {
+        await seed(env, db => Promise.all([
+            setDoc(doc(db, 'counters', 'afd'), { nsr: 5, lastHash: 'hash-5', lastEntryId: 'e0' }),
+            setDoc(doc(db, 'punch_receipts', 'e0'), receipt('e0', 'ana', 5)),
+            setDoc(doc(db, 'time_entries', 'e0'), { ...livePunch('ana'), timestamp: hoursAgo(2) }),
+            setDoc(doc(db, 'time_entries', 'e1'), { ...livePunch('ana'), timestamp: hoursAgo(1) }),
+            setDoc(doc(db, 'time_entries', 'b1'), { ...livePunch('bruno'), timestamp: hoursAgo(1) }),
+        ]));
+    });
+
+    it('issues the next NSR together with its receipt', async () => {
+        await assertSucceeds(issue(firestoreAs(env, 'ana'), 'e1', 'ana', 6));
+    });
+
+    it('refuses gaps, reused numbers and receipts for punches of someone else', async () => {
+        const db = firestoreAs(env, 'ana');
+        await assertFails(issue(db, 'e1', 'ana', 7));
+        await assertFails(issue(db, 'b1', 'bruno', 6));
+        await assertFails(setDoc(doc(db, 'punch_receipts', 'e1'), receipt('e1', 'ana', 6)));
+    });
+
+    it('never advances the counter without a new receipt', async () => {
+        const db = firestoreAs(env, 'ana');
+        await assertFails(setDoc(doc(db, 'counters', 'afd'), { nsr: 6, lastHash: 'hash-6' }));
+        await assertFails(setDoc(doc(db, 'counters', 'afd'), { nsr: 6, lastHash: 'hash-5', lastEntryId: 'e0' }));
+        await assertFails(deleteDoc(doc(firestoreAs(env, 'admin'), 'counters', 'afd')));
+    });
+
+    it('is created by an admin only', async () => {
+        await seed(env, db => deleteDoc(doc(db, 'counters', 'afd')));
+        await assertFails(setDoc(doc(firestoreAs(env, 'ana'), 'counters', 'afd'), { nsr: 0, lastHash: '' }));
+        await assertSucceeds(setDoc(doc(firestoreAs(env, 'admin'), 'counters', 'afd'), { nsr: 0, lastHash: '' }));
+    });
+
+    it('keeps receipts immutable and private', async () => {
+        await assertFails(updateDoc(doc(firestoreAs(env, 'admin'), 'punch_receipts', 'e0'), { nsr: 9 }));
+        await assertSucceeds(getDoc(doc(firestoreAs(env, 'ana'), 'punch_receipts', 'e0')));
+        await assertFails(getDoc(doc(firestoreAs(env, 'bruno'), 'punch_receipts', 'e0')));
+    });
+});
+
+describe('clock_checks', () => {
+    it('only stores the server time, in the user\'s own document', async () => {
+        const db = firestoreAs(env, 'ana');
+        await assertSucceeds(setDoc(doc(db, 'clock_checks', 'ana'), { checkedAt: serverTimestamp() }));
+        await assertFails(setDoc(doc(db, 'clock_checks', 'ana'), { checkedAt: new Date() }));
+        await assertFails(setDoc(doc(db, 'clock_checks', 'bruno'), { checkedAt: serverTimestamp() }));
+    });
+});
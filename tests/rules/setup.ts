@@ -0,0 +1,39 @@
+import { readFileSync } from 'node:fs';
+import { initializeTestEnvironment, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { Firestore, doc, setDoc } from 'firebase/firestore';
+import { Role, User } from '../../types';
+
+// Shared setup of the security rules suite. The Firestore emulator is started by
+// `npm run test:rules`, which also tells the test environment where to find it.
+
+export const USERS = {
+    admin: { id: 'admin', name: 'Administrador', email: 'admin@example.com', role: Role.ADMIN, isActive: true },
+    ana: { id: 'ana', name: 'Ana Souza', email: 'ana@example.com', role: Role.EMPLOYEE, isActive: true },
+    bruno: { id: 'bruno', name: 'Bruno Lima', email: 'bruno@example.com', role: Role.EMPLOYEE, isActive: true },
+    carla: { id: 'carla', name: 'Carla Dias', email: 'carla@example.com', role: Role.EMPLOYEE, isActive: false },
+} satisfies { [id: string]: User };
+
+export type TestUserId = keyof typeof USERS;
+
+export const setupRulesEnvironment = () => initializeTestEnvironment({
+    projectId: 'demo-ponto-digital',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+});
+
+// Firestore as seen by one of the seeded users, or by a client that is not signed in
+export const firestoreAs = (env: RulesTestEnvironment, userId?: TestUserId) => (userId
+    ? env.authenticatedContext(userId, { email: USERS[userId].email })
+    : env.unauthenticatedContext()
+).firestore() as unknown as Firestore;
+
+// Writes fixtures past the rules
+export const seed = (env: RulesTestEnvironment, write: (db: Firestore) => Promise<unknown>) =>
+    env.withSecurityRulesDisabled(async context => {
+        await write(context.firestore() as unknown as Firestore);
+    });
+
+// Empties the emulator and stores the profiles every test starts from
+export const resetFirestore = async (env: RulesTestEnvironment) => {
+    await env.clearFirestore();
+    await seed(env, db => Promise.all(Object.values(USERS).map(user => setDoc(doc(db, 'users', user.id), user))));
+};
@@ -4,14 +4,38 @@ export enum Role {
   EMPLOYEE = 'EMPLOYEE',
 }
 
+export interface WorkScheduleDay {
+  isWorkday: boolean;
+  expectedHours: number;
+  startTime: string; // HH:mm, empty when not applicable
+  endTime: string;   // HH:mm, empty when not applicable
+}
+
+export interface WorkSchedule {
+  days: WorkScheduleDay[]; // Indexed by Date.getDay(): 0 = Sunday ... 6 = Saturday
+  lateToleranceMinutes: number;
+}
+
+// Rotating shift (e.g. 12x36, 6x1). `days` is the cycle; step 0 falls on `anchorDate`.
+export interface ShiftPattern extends WorkSchedule {
+  id: string;
+  name: string;
+  anchorDate: string; // ISO date string (YYYY-MM-DD)
+}
+
 export interface User {
   id: string; // Firebase Auth UID / Firestore Document ID
   name: string;
   email: string;
+  cpf?: string; // Digits only. Required for the AFD/AEJ files
   role: Role;
   isActive?: boolean;
+  admissionDate?: string; // ISO date string (YYYY-MM-DD); absences are only expected from it on
   vacationStart?: string; // ISO date string (YYYY-MM-DD)
   vacationEnd?: string;   // ISO date string (YYYY-MM-DD)
+  schedule?: WorkSchedule;
+  shiftPatternId?: string;
+  siteIds?: string[]; // Work sites the employee may punch at; none means any site
 }
 
 export enum TimeEntryType {
@@ -20,6 +44,7 @@ export enum TimeEntryType {
   FIM_INTERVALO = 'Fim Intervalo',
   SAIDA = 'Saída',
   FERIAS = 'Férias',
+  FALTA_JUSTIFICADA = 'Falta Justificada',
 }
 
 export interface TimeEntry {
@@ -28,4 +53,222 @@ export interface TimeEntry {
   timestamp: Date;
   type: TimeEntryType;
   observation: string;
-}
\ No newline at end of file
+  capturedOffline?: boolean;
+  deviceTimestamp?: Date; // Device clock at capture; timestamp is assigned by the server
+  syncedAt?: Date; // When the punch reached the server
+  clockSkewMs?: number; // Device minus server time measured before the punch
+  clockSkewFlagged?: boolean;
+  locationCheck?: LocationCheck;
+  siteId?: string; // Work site whose geofence matched the punch
+  siteName?: string;
+  // Set only on treated entries built by applyPunchAdjustments, never stored in time_entries
+  adjustment?: PunchAdjustment;
+  originalTimestamp?: Date;
+}
+
+// Geolocation evidence of a punch: the device position and the geofence it was checked against
+export interface LocationCheck {
+  status: 'allowed' | 'denied' | 'error';
+  latitude?: number;
+  longitude?: number;
+  accuracy?: number; // Metres, as reported by the device
+  distance?: number; // Metres from the site centre
+  siteLatitude?: number;
+  siteLongitude?: number;
+  siteRadius?: number;
+}
+
+// Branch or client yard where employees may punch
+export interface WorkSite {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radius: number; // Metres
+  timezone?: string; // IANA name, e.g. "America/Manaus"
+}
+
+export enum PunchAdjustmentType {
+  INCLUSION = 'Inclusão',
+  TIME_CHANGE = 'Alteração de Horário',
+  DEACTIVATION = 'Desconsideração',
+}
+
+// Treatment of a punch by an admin. Original time entries are never changed or deleted;
+// inclusions use the adjustment id as their entry id so they can be treated in turn.
+export interface PunchAdjustment {
+  id: string;
+  userId: string;
+  adjustmentType: PunchAdjustmentType;
+  entryType: TimeEntryType;
+  entryId?: string; // Entry being changed or deactivated (absent for inclusions)
+  timestamp?: Date; // Resulting time (inclusions and time changes)
+  observation?: string;
+  reason: string;
+  correctionRequestId?: string;
+  createdById: string;
+  createdByName: string;
+  createdAt: Date;
+}
+
+export enum HolidayScope {
+  NATIONAL = 'Nacional',
+  STATE = 'Estadual',
+  MUNICIPAL = 'Municipal',
+}
+
+export interface Holiday {
+  date: string; // ISO date string (YYYY-MM-DD); only month and day matter when `recurring`
+  name: string;
+  scope: HolidayScope;
+  recurring: boolean;
+  siteIds?: string[]; // Work sites the local holiday applies to; none means every site
+}
+
+// Stored in config/holidays. National holidays are computed, only local ones are persisted.
+export interface HolidayCalendar {
+  customHolidays: Holiday[];
+  observeOptionalHolidays: boolean; // Carnaval and Corpus Christi (pontos facultativos)
+}
+
+// Stored in config/main
+export interface AppConfig {
+  latitude: number;
+  longitude: number;
+  radius: number;
+  workdayHours: number;
+  hourBankExpiryMonths?: number; // 0 means hour-bank credits never expire
+  maxClockSkewMinutes?: number;
+  blockOnClockSkew?: boolean; // Refuse punches beyond the skew limit instead of only flagging them
+}
+
+// Manual hour-bank entry. Positive hours are credits, negative hours are debits.
+export interface HourBankAdjustment {
+  id: string;
+  userId: string;
+  date: string; // ISO date string (YYYY-MM-DD)
+  hours: number;
+  reason: string;
+  createdById: string;
+  createdByName: string;
+  createdAt: Date;
+}
+
+// Hour-bank ledger closed at the end of a month. Later statements start from the latest closing
+// instead of the whole punch history. Credits keep their date so they still expire on time.
+export interface HourBankClosing {
+  id: string; // `${userId}_${month}`
+  userId: string;
+  month: string; // YYYY-MM
+  openingBalance: number;
+  credits: number;
+  debits: number;
+  adjustments: number;
+  expired: number;
+  closingBalance: number;
+  creditLots: { dateKey: string; hours: number }[]; // Credits not compensated or expired yet
+  debt: number; // Debits not compensated yet
+  closedById: string;
+  closedByName: string;
+  closedAt: Date;
+}
+
+export enum EmployerIdType {
+  CNPJ = 'CNPJ',
+  CPF = 'CPF',
+}
+
+// Employer and software identification required by the Portaria 671 files (AFD/AEJ).
+export interface EmployerInfo {
+  idType: EmployerIdType;
+  idNumber: string; // Digits only
+  cnoCaepf: string; // Digits only, empty when not applicable
+  name: string;     // Razão social or employer name
+  inpiRegistration: string; // Registration number of this REP-P program at INPI
+  developerIdType: EmployerIdType;
+  developerIdNumber: string; // Digits only
+  developerName: string;
+  developerEmail: string;
+}
+
+// Comprovante de registro de ponto issued for each original punch. The NSR comes from a
+// sequential counter per employer and the hash is the one of the punch's AFD type 7 record.
+export interface PunchReceipt {
+  id: string; // Same as the time entry id
+  entryId: string;
+  userId: string;
+  nsr: number;
+  timestamp: Date; // Server time of the punch
+  entryType: TimeEntryType;
+  record: string; // AFD type 7 record without the hash
+  hash: string;
+  previousHash: string;
+  userName: string;
+  cpf: string; // Digits only
+  employerName: string;
+  employerIdType: EmployerIdType;
+  employerIdNumber: string;
+  siteName?: string;
+  issuedAt: Date;
+}
+
+export enum AcknowledgmentStatus {
+  ACCEPTED = 'Aceito',
+  CONTESTED = 'Contestado',
+}
+
+// Employee's electronic acknowledgment of a monthly espelho de ponto. One per employee and month.
+export interface TimesheetAcknowledgment {
+  id: string; // `${userId}_${month}`
+  userId: string;
+  month: string; // YYYY-MM
+  status: AcknowledgmentStatus;
+  comment: string;
+  contentHash: string; // SHA-256 of the espelho content that was acknowledged
+  acknowledgedAt: Date;
+}
+
+export enum CorrectionRequestType {
+  ADD_PUNCH = 'Incluir Marcação',
+  CHANGE_TIME = 'Alterar Horário',
+}
+
+export enum CorrectionRequestStatus {
+  PENDING = 'Pendente',
+  APPROVED = 'Aprovada',
+  REJECTED = 'Rejeitada',
+}
+
+// Employee's request to fix a punch, applied as a punch adjustment once an admin approves it.
+export interface CorrectionRequest {
+  id: string;
+  userId: string;
+  dateKey: string; // Workday the request refers to (YYYY-MM-DD)
+  requestType: CorrectionRequestType;
+  entryType: TimeEntryType;
+  entryId?: string; // Punch being changed (CHANGE_TIME only)
+  originalTimestamp?: Date;
+  requestedTimestamp: Date;
+  justification: string;
+  status: CorrectionRequestStatus;
+  createdAt: Date;
+  reviewedById?: string;
+  reviewedByName?: string;
+  reviewedAt?: Date;
+  reviewComment?: string;
+  appliedAdjustmentId?: string;
+}
+
+// Record written to audit_logs by logActivity/logAnonymousActivity
+export interface AuditLog {
+  id: string;
+  timestamp: Date;
+  actorId: string; // 'anonymous' for failed logins
+  actorName: string;
+  action: string;
+  details: Record<string, any>;
+  // Hash chain fields, absent on records written before the chain existed
+  sequence?: number;
+  previousHash?: string;
+  hash?: string;
+}
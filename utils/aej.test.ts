@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest';
+import { User, Role, TimeEntry, TimeEntryType, EmployerInfo, EmployerIdType, PunchAdjustment, PunchAdjustmentType } from '../types';
+import { WorkdayContext } from './workday';
+import { formatFileDateTime } from './portaria671';
+import {
+    AEJ_LAYOUT_VERSION, AejAbsenceType, AejPunchSource, buildAejHeader, buildAejRep, buildAejEmployee, buildAejSchedule,
+    buildAejPunch, buildAejAbsence, buildAejHourBankMovement, buildAejProgram, buildAejTrailer, generateAej,
+} from './aej';
+
+const { ENTRADA, INICIO_INTERVALO, FIM_INTERVALO, SAIDA } = TimeEntryType;
+
+const employer: EmployerInfo = {
+    idType: EmployerIdType.CNPJ,
+    idNumber: '11.222.333/0001-81',
+    cnoCaepf: '',
+    name: 'Empresa Exemplo Ltda',
+    inpiRegistration: 'BR512023000001',
+    developerIdType: EmployerIdType.CNPJ,
+    developerIdNumber: '99.888.777/0001-66',
+    developerName: 'Desenvolvedora Ltda',
+    developerEmail: 'contato@example.com',
+};
+
+const user: User = { id: 'u1', name: 'Ana Souza', email: 'ana@example.com', cpf: '529.982.247-25', role: Role.EMPLOYEE, isActive: true };
+const context: WorkdayContext = { users: [user], workdayHours: 8 };
+
+let nextId = 0;
+const punch = (type: TimeEntryType, timestamp: Date): TimeEntry => ({ id: `e${++nextId}`, userId: 'u1', type, timestamp, observation: '' });
+const at = (day: number, hours: number) => new Date(2025, 0, day, hours);
+const fields = (line: string) => line.split('|');
+
+describe('AEJ records', () => {
+    it('01: header with the employer and the period', () => {
+        const generatedAt = at(10, 9);
+        expect(fields(buildAejHeader(employer, '2025-01-06', '2025-01-12', generatedAt))).toEqual([
+            '01', '1', '11222333000181', '', '', 'Empresa Exemplo Ltda', '2025-01-06', '2025-01-12', formatFileDateTime(generatedAt), AEJ_LAYOUT_VERSION,
+        ]);
+    });
+
+    it('01: CAEPF only for employers identified by CPF', () => {
+        const byCpf = { ...employer, idType: EmployerIdType.CPF, idNumber: '529.982.247-25', cnoCaepf: '12.345.678/901-23' };
+        expect(fields(buildAejHeader(byCpf, '2025-01-06', '2025-01-12', at(10, 9))).slice(1, 5)).toEqual(['2', '52998224725', '1234567890123', '']);
+    });
+
+    it('02: REP-P identification', () => {
+        expect(fields(buildAejRep(employer))).toEqual(['02', '1', '3', '512023000001']);
+    });
+
+    it('03: employee', () => {
+        expect(fields(buildAejEmployee(1, user))).toEqual(['03', '1', '52998224725', 'Ana Souza']);
+    });
+
+    it('04: contracted schedule in minutes and hhmm', () => {
+        expect(fields(buildAejSchedule('001', { isWorkday: true, expectedHours: 8, startTime: '08:00', endTime: '17:00' }))).toEqual(['04', '001', '480', '0800', '1700']);
+    });
+
+    it('05: punch with direction, sequence, source and schedule', () => {
+        const entry = punch(INICIO_INTERVALO, at(6, 12));
+        expect(fields(buildAejPunch(1, entry, 1, '001'))).toEqual(['05', '1', formatFileDateTime(entry.timestamp), '1', 'S', '1', 'O', '001', '']);
+        expect(fields(buildAejPunch(1, punch(FIM_INTERVALO, at(6, 13)), 2, '001', AejPunchSource.MANUAL))[4]).toBe('E');
+    });
+
+    it('07: absences and hour-bank movements', () => {
+        expect(fields(buildAejAbsence(1, '2025-01-07', 480))).toEqual(['07', '1', AejAbsenceType.UNJUSTIFIED, '2025-01-07', '480', '']);
+        expect(fields(buildAejAbsence(1, '2025-01-07', 480, AejAbsenceType.VACATION))[2]).toBe(AejAbsenceType.VACATION);
+        expect(fields(buildAejHourBankMovement(1, '2025-01-07', 1.5))).toEqual(['07', '1', AejAbsenceType.HOUR_BANK, '2025-01-07', '90', '1']);
+        expect(fields(buildAejHourBankMovement(1, '2025-01-07', -0.5))).toEqual(['07', '1', AejAbsenceType.HOUR_BANK, '2025-01-07', '30', '2']);
+    });
+
+    it('08: program and developer', () => {
+        expect(fields(buildAejProgram(employer))).toEqual([
+            '08', 'Sistema de Ponto Digital', '1.0', '1', '99888777000166', 'Desenvolvedora Ltda', 'contato@example.com',
+        ]);
+    });
+
+    it('99: count of each record type, zero for the missing ones', () => {
+        expect(fields(buildAejTrailer({ '01': 1, '02': 1, '03': 2, '05': 8, '08': 1 }))).toEqual(['99', '1', '1', '2', '0', '8', '0', '0', '1']);
+    });
+});
+
+describe('generateAej', () => {
+    // Monday 06/01 to Sunday 12/01/2025: a full day, a day with overtime, a vacation Thursday and
+    // Friday, and an absence on Wednesday
+    const week = { startDate: '2025-01-06', endDate: '2025-01-12' };
+    const timeEntries = [
+        punch(ENTRADA, at(6, 8)), punch(INICIO_INTERVALO, at(6, 12)), punch(FIM_INTERVALO, at(6, 13)), punch(SAIDA, at(6, 17)),
+        punch(ENTRADA, at(7, 8)), punch(SAIDA, at(7, 17)),
+    ];
+    const onVacation = { ...user, vacationStart: '2025-01-09', vacationEnd: '2025-01-12' };
+    const result = generateAej({
+        employer,
+        users: [onVacation],
+        timeEntries,
+        punchAdjustments: [],
+        hourBankAdjustments: [],
+        context: { ...context, users: [onVacation] },
+        ...week,
+        generatedAt: at(13, 9),
+    });
+    const lines = result.content.split('\r\n');
+
+    it('ends every record with CR+LF', () => {
+        expect(result.content.endsWith('\r\n')).toBe(true);
+        expect(lines.pop()).toBe('');
+        expect(result.content.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+    });
+
+    it('writes the records in type order with a matching trailer', () => {
+        const types = lines.map(line => line.slice(0, 2));
+        expect(types).toEqual([...types].sort());
+        const counts = types.reduce((acc, type) => ({ ...acc, [type]: (acc[type] ?? 0) + 1 }), {} as { [type: string]: number });
+        expect(counts['05']).toBe(6);
+        expect(lines[lines.length - 1]).toBe(buildAejTrailer(counts));
+    });
+
+    it('numbers entries and exits apart within each workday', () => {
+        const punches = lines.filter(line => line.startsWith('05|')).map(line => fields(line).slice(4, 6).join(''));
+        expect(punches).toEqual(['E1', 'S1', 'E2', 'S2', 'E1', 'S1']);
+    });
+
+    it('reports the absence, the overtime and every day of the vacation period', () => {
+        const records = lines.filter(line => line.startsWith('07|')).map(line => fields(line).slice(2, 5).join(' '));
+        expect(records).toEqual([
+            `${AejAbsenceType.HOUR_BANK} 2025-01-07 60`,
+            `${AejAbsenceType.UNJUSTIFIED} 2025-01-08 480`,
+            `${AejAbsenceType.VACATION} 2025-01-09 480`,
+            `${AejAbsenceType.VACATION} 2025-01-10 480`,
+            `${AejAbsenceType.VACATION} 2025-01-11 0`,
+            `${AejAbsenceType.VACATION} 2025-01-12 0`,
+        ]);
+    });
+
+    it('leaves out employees without a valid CPF', () => {
+        const withoutCpf = generateAej({ employer, users: [{ ...user, cpf: '' }], timeEntries, punchAdjustments: [], hourBankAdjustments: [], context, ...week });
+        expect(withoutCpf.warnings).toHaveLength(1);
+        expect(withoutCpf.content).not.toContain('\r\n05|');
+    });
+});
+
+describe('generateAej with punch adjustments', () => {
+    const entrada = punch(ENTRADA, at(6, 8));
+    const lateSaida = punch(SAIDA, at(6, 19));
+    const strayPunch = punch(INICIO_INTERVALO, at(6, 20));
+    const adjustment = (fields: Partial<PunchAdjustment>): PunchAdjustment => ({
+        id: `a${++nextId}`,
+        userId: 'u1',
+        adjustmentType: PunchAdjustmentType.INCLUSION,
+        entryType: ENTRADA,
+        reason: '',
+        createdById: 'admin',
+        createdByName: 'Admin',
+        createdAt: at(10, nextId),
+        ...fields,
+    });
+    const result = generateAej({
+        employer,
+        users: [user],
+        timeEntries: [entrada, lateSaida, strayPunch],
+        punchAdjustments: [
+            adjustment({ adjustmentType: PunchAdjustmentType.TIME_CHANGE, entryType: SAIDA, entryId: lateSaida.id, timestamp: at(6, 17), reason: 'Saída registrada após o horário' }),
+            adjustment({ adjustmentType: PunchAdjustmentType.DEACTIVATION, entryType: INICIO_INTERVALO, entryId: strayPunch.id, reason: 'Marcação em duplicidade' }),
+            adjustment({ entryType: INICIO_INTERVALO, timestamp: at(6, 12), reason: 'Esqueceu | de marcar' }),
+            adjustment({ entryType: FIM_INTERVALO, timestamp: at(6, 13), reason: 'Esqueceu de marcar' }),
+        ],
+        hourBankAdjustments: [],
+        context,
+        startDate: '2025-01-06',
+        endDate: '2025-01-06',
+    });
+    const punches = result.content.split('\r\n').filter(line => line.startsWith('05|')).map(fields);
+
+    it('keeps the original marks and reports the treatment', () => {
+        expect(punches.map(p => [p[2], p[4], p[5], p[6], p[8]])).toEqual([
+            [formatFileDateTime(at(6, 8)), 'E', '1', 'O', ''],
+            [formatFileDateTime(at(6, 12)), 'S', '1', 'I', 'Esqueceu de marcar'],
+            [formatFileDateTime(at(6, 13)), 'E', '2', 'I', 'Esqueceu de marcar'],
+            [formatFileDateTime(at(6, 17)), 'S', '2', 'I', 'Saída registrada após o horário'],
+            [formatFileDateTime(at(6, 19)), 'D', '', 'O', 'Saída registrada após o horário'],
+            [formatFileDateTime(at(6, 20)), 'D', '', 'O', 'Marcação em duplicidade'],
+        ]);
+    });
+
+    it('computes the journey from the treated marks', () => {
+        // 08:00-12:00 and 13:00-17:00 make the expected 8 hours, so there is no hour-bank movement
+        expect(result.content).not.toContain('\r\n07|');
+    });
+});
@@ -0,0 +1,238 @@
+import { User, TimeEntry, TimeEntryType, EmployerInfo, EmployerIdType, HourBankAdjustment, PunchAdjustment, WorkScheduleDay } from '../types';
+import { WorkdayContext, groupByWorkday, isPunchType, processDay, processWorkdays } from './workday';
+import { resolveScheduleDay } from './schedule';
+import { resolvePunchAdjustments } from './punchAdjustments';
+import { addDays, formatDateKey } from './date';
+import { onlyDigits, isValidCpf } from './documents';
+import { employerIdTypeCode, formatFileDateTime, PROGRAM_NAME, PROGRAM_VERSION } from './portaria671';
+
+// AEJ (Arquivo Eletrônico de Jornada), following Anexo VI of Portaria MTP 671/2021.
+// Fields are separated by "|" and each record ends with CR+LF. Absences, vacation days and
+// hour-bank movements are type 07 records, one per employee and day. Punches come from the
+// original marks: a changed or deactivated mark is kept as disregarded (D) and the resulting
+// time is a manual inclusion (I), both carrying the reason of the adjustment.
+
+export const AEJ_LAYOUT_VERSION = '001';
+
+const LINE_BREAK = '\r\n';
+const REP_ID = '1';
+const REP_TYPE_REP_P = '3';
+
+// Type 05 sources: O = original punch from the REP, I = included by manual adjustment
+export enum AejPunchSource {
+    ORIGINAL = 'O',
+    MANUAL = 'I',
+}
+
+// Type 07 kinds of absence or compensation
+export enum AejAbsenceType {
+    UNJUSTIFIED = '2',
+    HOUR_BANK = '3',
+    VACATION = '5',
+    JUSTIFIED = '6',
+}
+
+// Type 07 hour-bank movement directions
+const HOUR_BANK_CREDIT = '1';
+const HOUR_BANK_DEBIT = '2';
+
+export interface AejOptions {
+    employer: EmployerInfo;
+    users: User[];
+    timeEntries: TimeEntry[]; // Original punches, as stored in time_entries
+    punchAdjustments: PunchAdjustment[];
+    hourBankAdjustments: HourBankAdjustment[];
+    context: WorkdayContext;
+    startDate: string; // YYYY-MM-DD
+    endDate: string;   // YYYY-MM-DD
+    generatedAt?: Date;
+}
+
+export interface AejResult {
+    content: string;
+    fileName: string;
+    warnings: string[];
+}
+
+const record = (...fields: (string | number)[]) => fields.join('|');
+
+const formatClock = (time: string) => time.replace(':', '');
+
+// Free text must not break the record apart
+const formatReason = (reason: string) => reason.replace(/\s*[|\r\n]+\s*/g, ' ').trim();
+
+export const buildAejHeader = (employer: EmployerInfo, startDate: string, endDate: string, generatedAt: Date) => {
+    // CAEPF identifies employers registered by CPF; otherwise the field holds the CNO
+    const isCpf = employer.idType === EmployerIdType.CPF;
+    return record(
+        '01',
+        employerIdTypeCode(employer.idType),
+        onlyDigits(employer.idNumber),
+        isCpf ? onlyDigits(employer.cnoCaepf) : '',
+        isCpf ? '' : onlyDigits(employer.cnoCaepf),
+        employer.name,
+        startDate,
+        endDate,
+        formatFileDateTime(generatedAt),
+        AEJ_LAYOUT_VERSION,
+    );
+};
+
+export const buildAejRep = (employer: EmployerInfo) => record('02', REP_ID, REP_TYPE_REP_P, onlyDigits(employer.inpiRegistration));
+
+export const buildAejEmployee = (employeeId: number, user: User) => record('03', employeeId, onlyDigits(user.cpf ?? ''), user.name);
+
+export const buildAejSchedule = (code: string, scheduleDay: WorkScheduleDay) => record(
+    '04',
+    code,
+    Math.round(scheduleDay.expectedHours * 60),
+    formatClock(scheduleDay.startTime),
+    formatClock(scheduleDay.endTime),
+);
+
+export const buildAejPunch = (employeeId: number, entry: TimeEntry, sequence: number, scheduleCode: string, source: AejPunchSource = AejPunchSource.ORIGINAL, reason = '') => {
+    // Entrada and Fim Intervalo start a work period (E); Início Intervalo and Saída end one (S)
+    const isEntry = entry.type === TimeEntryType.ENTRADA || entry.type === TimeEntryType.FIM_INTERVALO;
+    return record('05', employeeId, formatFileDateTime(entry.timestamp), REP_ID, isEntry ? 'E' : 'S', sequence, source, scheduleCode, formatReason(reason));
+};
+
+// Original mark left out of the journey by an adjustment; it takes no part in the sequence
+export const buildAejDisregardedPunch = (employeeId: number, entry: TimeEntry, scheduleCode: string, reason: string) =>
+    record('05', employeeId, formatFileDateTime(entry.timestamp), REP_ID, 'D', '', AejPunchSource.ORIGINAL, scheduleCode, formatReason(reason));
+
+export const buildAejAbsence = (employeeId: number, dateKey: string, minutes: number, type: AejAbsenceType = AejAbsenceType.UNJUSTIFIED) =>
+    record('07', employeeId, type, dateKey, minutes, '');
+
+export const buildAejHourBankMovement = (employeeId: number, dateKey: string, hours: number) =>
+    record('07', employeeId, AejAbsenceType.HOUR_BANK, dateKey, Math.round(Math.abs(hours) * 60), hours > 0 ? HOUR_BANK_CREDIT : HOUR_BANK_DEBIT);
+
+export const buildAejProgram = (employer: EmployerInfo) => record(
+    '08',
+    PROGRAM_NAME,
+    PROGRAM_VERSION,
+    employerIdTypeCode(employer.developerIdType),
+    onlyDigits(employer.developerIdNumber),
+    employer.developerName,
+    employer.developerEmail,
+);
+
+export const buildAejTrailer = (counts: { [recordType: string]: number }) =>
+    record('99', ...['01', '02', '03', '04', '05', '06', '07', '08'].map(type => counts[type] ?? 0));
+
+export const generateAej = ({ employer, users, timeEntries, punchAdjustments, hourBankAdjustments, context, startDate, endDate, generatedAt = new Date() }: AejOptions): AejResult => {
+    const warnings: string[] = [];
+    const employees = users.filter(user => {
+        if (user.cpf && isValidCpf(user.cpf)) return true;
+        warnings.push(`${user.name}: CPF ausente ou inválido, funcionário não incluído.`);
+        return false;
+    });
+    const employeeIds: { [userId: string]: number } = {};
+    employees.forEach((user, i) => { employeeIds[user.id] = i + 1; });
+
+    // Contracted schedules are deduplicated by their times and duration
+    const scheduleCodes = new Map<string, { code: string; scheduleDay: WorkScheduleDay }>();
+    const scheduleCodeFor = (user: User, dateKey: string) => {
+        const { scheduleDay } = resolveScheduleDay(user, dateKey, context);
+        if (!scheduleDay.isWorkday) return '';
+        const key = `${scheduleDay.startTime}|${scheduleDay.endTime}|${scheduleDay.expectedHours}`;
+        if (!scheduleCodes.has(key)) {
+            scheduleCodes.set(key, { code: String(scheduleCodes.size + 1).padStart(3, '0'), scheduleDay });
+        }
+        return scheduleCodes.get(key)!.code;
+    };
+
+    const employeeUserIds = new Set(employees.map(u => u.id));
+    const originalIds = new Set(timeEntries.map(entry => entry.id));
+    const { entries: treatedEntries, deactivated } = resolvePunchAdjustments(timeEntries, punchAdjustments);
+    const isReported = (entry: TimeEntry) => isPunchType(entry.type) && employeeUserIds.has(entry.userId);
+
+    // Marks in time order; the treated ones are numbered within their workday
+    const punchRecords: { time: number; line: string }[] = [];
+    groupByWorkday(treatedEntries.filter(isReported))
+        .filter(group => group.dateKey >= startDate && group.dateKey <= endDate)
+        .forEach(group => {
+            const user = employees.find(u => u.id === group.userId)!;
+            const scheduleCode = scheduleCodeFor(user, group.dateKey);
+            let entrySequence = 0;
+            let exitSequence = 0;
+            group.entries.forEach(entry => {
+                const isEntry = entry.type === TimeEntryType.ENTRADA || entry.type === TimeEntryType.FIM_INTERVALO;
+                const sequence = isEntry ? ++entrySequence : ++exitSequence;
+                const line = entry.adjustment
+                    ? buildAejPunch(employeeIds[user.id], entry, sequence, scheduleCode, AejPunchSource.MANUAL, entry.adjustment.reason)
+                    : buildAejPunch(employeeIds[user.id], entry, sequence, scheduleCode);
+                punchRecords.push({ time: entry.timestamp.getTime(), line });
+            });
+        });
+    // Original marks whose time was changed or that were deactivated, at their original time
+    [...deactivated, ...treatedEntries.filter(entry => entry.adjustment && entry.originalTimestamp)]
+        .filter(entry => originalIds.has(entry.id) && isReported(entry))
+        .map(entry => ({ ...entry, timestamp: entry.originalTimestamp ?? entry.timestamp }))
+        .filter(entry => formatDateKey(entry.timestamp) >= startDate && formatDateKey(entry.timestamp) <= endDate)
+        .forEach(entry => {
+            const user = employees.find(u => u.id === entry.userId)!;
+            const line = buildAejDisregardedPunch(employeeIds[user.id], entry, scheduleCodeFor(user, formatDateKey(entry.timestamp)), entry.adjustment!.reason);
+            punchRecords.push({ time: entry.timestamp.getTime(), line });
+        });
+    punchRecords.sort((a, b) => a.time - b.time);
+
+    // Every calendar day of the period, so vacation periods are reported in full. Days without
+    // punches only count as absences up to yesterday, as in the workday engine.
+    const absenceRecords: { dateKey: string; line: string }[] = [];
+    const employeeContext = { ...context, users: employees };
+    const daysById = new Map(processWorkdays(treatedEntries, employeeContext).map(day => [day.id, day]));
+    const yesterdayKey = addDays(formatDateKey(new Date()), -1);
+    employees.forEach(user => {
+        const employeeId = employeeIds[user.id];
+        const firstKey = user.admissionDate && user.admissionDate > startDate ? user.admissionDate : startDate;
+        for (let dateKey = firstKey; dateKey <= endDate; dateKey = addDays(dateKey, 1)) {
+            const day = daysById.get(`${user.id}-${dateKey}`) ?? processDay(user.id, dateKey, [], employeeContext);
+            const scheduledMinutes = Math.round(resolveScheduleDay(user, dateKey, context).scheduleDay.expectedHours * 60);
+            const hasPunches = day.originalEntries.some(e => isPunchType(e.type));
+            if (day.isVacation) {
+                absenceRecords.push({ dateKey, line: buildAejAbsence(employeeId, dateKey, scheduledMinutes, AejAbsenceType.VACATION) });
+            } else if (day.isJustifiedAbsence && !hasPunches) {
+                absenceRecords.push({ dateKey, line: buildAejAbsence(employeeId, dateKey, scheduledMinutes, AejAbsenceType.JUSTIFIED) });
+            } else if (day.isAbsent && dateKey <= yesterdayKey && user.isActive !== false) {
+                absenceRecords.push({ dateKey, line: buildAejAbsence(employeeId, dateKey, Math.round(day.expectedHours * 60)) });
+            }
+            if (!day.isAbsent && Math.round(Math.abs(day.balance) * 60) > 0) {
+                absenceRecords.push({ dateKey, line: buildAejHourBankMovement(employeeId, dateKey, day.balance) });
+            }
+        }
+    });
+    hourBankAdjustments
+        .filter(adjustment => employeeIds[adjustment.userId] && adjustment.date >= startDate && adjustment.date <= endDate)
+        .forEach(adjustment => {
+            absenceRecords.push({ dateKey: adjustment.date, line: buildAejHourBankMovement(employeeIds[adjustment.userId], adjustment.date, adjustment.hours) });
+        });
+    absenceRecords.sort((a, b) => a.dateKey.localeCompare(b.dateKey));
+
+    const scheduleRecords = Array.from(scheduleCodes.values()).map(({ code, scheduleDay }) => buildAejSchedule(code, scheduleDay));
+    const employeeRecords = employees.map(user => buildAejEmployee(employeeIds[user.id], user));
+
+    const lines = [
+        buildAejHeader(employer, startDate, endDate, generatedAt),
+        buildAejRep(employer),
+        ...employeeRecords,
+        ...scheduleRecords,
+        ...punchRecords.map(r => r.line),
+        ...absenceRecords.map(r => r.line),
+        buildAejProgram(employer),
+        buildAejTrailer({
+            '01': 1,
+            '02': 1,
+            '03': employeeRecords.length,
+            '04': scheduleRecords.length,
+            '05': punchRecords.length,
+            '07': absenceRecords.length,
+            '08': 1,
+        }),
+    ];
+
+    return {
+        content: lines.join(LINE_BREAK) + LINE_BREAK,
+        fileName: `AEJ_${onlyDigits(employer.idNumber)}_${startDate}_${endDate}.txt`,
+        warnings,
+    };
+};
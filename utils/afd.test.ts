@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { User, Role, PunchReceipt, TimeEntryType, EmployerInfo, EmployerIdType } from '../types';
+import { formatFileDateTime, sha256Hex } from './portaria671';
+import { buildPunchRecord, generateAfd, validateAfd } from './afd';
+
+const employer: EmployerInfo = {
+    idType: EmployerIdType.CNPJ,
+    idNumber: '11.222.333/0001-81',
+    cnoCaepf: '',
+    name: 'Empresa Exemplo Ltda',
+    inpiRegistration: 'BR512023000001',
+    developerIdType: EmployerIdType.CNPJ,
+    developerIdNumber: '99.888.777/0001-66',
+    developerName: 'Desenvolvedora Ltda',
+    developerEmail: 'contato@example.com',
+};
+
+const user: User = { id: 'u1', name: 'Ana Souza', email: 'ana@example.com', cpf: '52998224725', role: Role.EMPLOYEE, isActive: true };
+
+// Receipts issued in NSR order, chained as App.tsx issues them
+const issueReceipts = async (punches: { timestamp: Date; syncedAt: Date; capturedOffline: boolean }[]) => {
+    const receipts: PunchReceipt[] = [];
+    let previousHash = '';
+    for (const [index, punch] of punches.entries()) {
+        const nsr = index + 1;
+        const record = buildPunchRecord(nsr, punch.timestamp, user.cpf!, punch.capturedOffline, punch.syncedAt);
+        const hash = await sha256Hex(record + previousHash);
+        receipts.push({
+            id: `e${nsr}`, entryId: `e${nsr}`, userId: user.id, nsr, timestamp: punch.timestamp, entryType: TimeEntryType.ENTRADA,
+            record, hash, previousHash, userName: user.name, cpf: user.cpf!, employerName: employer.name,
+            employerIdType: employer.idType, employerIdNumber: employer.idNumber, issuedAt: punch.syncedAt,
+        });
+        previousHash = hash;
+    }
+    return receipts;
+};
+
+const live = (timestamp: Date) => ({ timestamp, syncedAt: timestamp, capturedOffline: false });
+
+describe('buildPunchRecord', () => {
+    it('records offline punches at the time they reached the server', () => {
+        const mark = new Date(2025, 0, 5, 22);
+        const synced = new Date(2025, 0, 6, 8, 30);
+        const record = buildPunchRecord(7, mark, user.cpf!, true, synced);
+        expect(record.slice(10, 34)).toBe(formatFileDateTime(mark));
+        expect(record.slice(46, 70)).toBe(formatFileDateTime(synced));
+        expect(record[72]).toBe('1');
+    });
+});
+
+describe('generateAfd', () => {
+    it('exports a period that skips the NSR of a punch synced late', async () => {
+        // NSR 2 was marked offline on 05/01, before the period, and synced on 06/01
+        const receipts = await issueReceipts([
+            live(new Date(2025, 0, 6, 8)),
+            { timestamp: new Date(2025, 0, 5, 22), syncedAt: new Date(2025, 0, 6, 8, 5), capturedOffline: true },
+            live(new Date(2025, 0, 6, 17)),
+        ]);
+        const { content } = await generateAfd({ employer, users: [user], timeEntries: [], receipts, startDate: '2025-01-06', endDate: '2025-01-06' });
+        const nsrs = content.split('\r\n').slice(1, -2).map(line => line.slice(0, 9));
+        expect(nsrs).toEqual(['000000001', '000000003']);
+        expect(await validateAfd(content)).toEqual([]);
+    });
+
+    it('still detects a broken link between consecutive NSRs', async () => {
+        const receipts = await issueReceipts([live(new Date(2025, 0, 6, 8)), live(new Date(2025, 0, 6, 17))]);
+        receipts[1] = { ...receipts[1], hash: await sha256Hex(receipts[1].record + 'forged') };
+        const { content } = await generateAfd({ employer, users: [user], timeEntries: [], receipts, startDate: '2025-01-06', endDate: '2025-01-06' });
+        expect(await validateAfd(content)).toEqual(['Linha 3: código hash não confere com o registro anterior.']);
+    });
+});
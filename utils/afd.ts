@@ -0,0 +1,270 @@
+import { User, TimeEntry, EmployerInfo, PunchReceipt } from '../types';
+import { isPunchType } from './workday';
+import { formatDateKey } from './date';
+import { onlyDigits, isValidCpf, isValidCnpj } from './documents';
+import { employerIdTypeCode, padNumber, padText, formatFileDateTime, crc16, sha256Hex } from './portaria671';
+
+// AFD (Arquivo Fonte de Dados) for a REP-P, following Anexo V of Portaria MTP 671/2021.
+// The file has a header (type 1), one type 7 record per punch and a trailer (type 9).
+
+export const AFD_LAYOUT_VERSION = '003';
+export const AFD_RECORD_LENGTHS: { [recordType: string]: number } = { '1': 302, '7': 137, '9': 64 };
+
+const LINE_BREAK = '\r\n';
+const COLLECTOR_BROWSER = '02';
+const ONLINE_PUNCH = '0';
+const OFFLINE_PUNCH = '1';
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:00[+-]\d{4}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface AfdOptions {
+    employer: EmployerInfo;
+    users: User[];
+    timeEntries: TimeEntry[];
+    receipts: PunchReceipt[];
+    startDate: string; // YYYY-MM-DD
+    endDate: string;   // YYYY-MM-DD
+    generatedAt?: Date;
+}
+
+export interface AfdResult {
+    content: string;
+    fileName: string;
+    warnings: string[];
+}
+
+const buildHeader = (employer: EmployerInfo, startDate: string, endDate: string, generatedAt: Date) => {
+    const body = [
+        padNumber(0, 9),
+        '1',
+        employerIdTypeCode(employer.idType),
+        padNumber(onlyDigits(employer.idNumber), 14),
+        employer.cnoCaepf ? padNumber(onlyDigits(employer.cnoCaepf), 14) : padText('', 14),
+        padText(employer.name, 150),
+        padNumber(onlyDigits(employer.inpiRegistration), 17),
+        startDate,
+        endDate,
+        formatFileDateTime(generatedAt),
+        AFD_LAYOUT_VERSION,
+        employerIdTypeCode(employer.developerIdType),
+        padNumber(onlyDigits(employer.developerIdNumber), 14),
+        padText('', 30), // REP-C model, not applicable to REP-P
+    ].join('');
+    return body + crc16(body);
+};
+
+// Fields 1 to 7 of a type 7 record. The record hash covers these fields plus the previous record's hash.
+// Offline punches are recorded when they reach the server, after the time of the mark.
+export const buildPunchRecord = (nsr: number, timestamp: Date, cpf: string, capturedOffline = false, recordedAt = timestamp) => [
+    padNumber(nsr, 9),
+    '7',
+    formatFileDateTime(timestamp),
+    padNumber(cpf, 12),
+    formatFileDateTime(recordedAt),
+    COLLECTOR_BROWSER,
+    capturedOffline ? OFFLINE_PUNCH : ONLINE_PUNCH,
+].join('');
+
+const getCpfByUser = (users: User[]) => {
+    const cpfByUser: { [userId: string]: string } = {};
+    users.forEach(user => {
+        if (user.cpf && isValidCpf(user.cpf)) {
+            cpfByUser[user.id] = onlyDigits(user.cpf);
+        }
+    });
+    return cpfByUser;
+};
+
+export interface LegacyPunchRecord {
+    entry: TimeEntry;
+    record: string;
+    hash: string;
+}
+
+// Punches recorded before receipts were issued have no stored NSR. They are numbered from 1 in
+// chronological order, chained from an empty hash, and the receipt counter continues after them,
+// so their records stay as the counter first computed them.
+export const buildLegacyPunchChain = async (users: User[], timeEntries: TimeEntry[]): Promise<LegacyPunchRecord[]> => {
+    const cpfByUser = getCpfByUser(users);
+    const chronological = timeEntries
+        .filter(entry => isPunchType(entry.type) && cpfByUser[entry.userId])
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    const chain: LegacyPunchRecord[] = [];
+    let previousHash = '';
+    for (let i = 0; i < chronological.length; i++) {
+        const entry = chronological[i];
+        const record = buildPunchRecord(i + 1, entry.timestamp, cpfByUser[entry.userId]);
+        const hash = await sha256Hex(record + previousHash);
+        chain.push({ entry, record, hash });
+        previousHash = hash;
+    }
+    return chain;
+};
+
+const buildTrailer = (punchCount: number) => [
+    '999999999',
+    padNumber(0, 9), // type 2
+    padNumber(0, 9), // type 3
+    padNumber(0, 9), // type 4
+    padNumber(0, 9), // type 5
+    padNumber(0, 9), // type 6
+    padNumber(punchCount, 9),
+    '9',
+].join('');
+
+export const generateAfd = async ({ employer, users, timeEntries, receipts, startDate, endDate, generatedAt = new Date() }: AfdOptions): Promise<AfdResult> => {
+    const warnings: string[] = [];
+    const cpfByUser = getCpfByUser(users);
+
+    const punches = timeEntries.filter(entry => isPunchType(entry.type));
+    const skippedUsers = new Set(punches.filter(entry => !cpfByUser[entry.userId]).map(entry => entry.userId));
+    skippedUsers.forEach(userId => {
+        const name = users.find(u => u.id === userId)?.name ?? userId;
+        warnings.push(`${name}: CPF ausente ou inválido, marcações não incluídas.`);
+    });
+
+    // NSR and the hash chain run over the whole history, so a record keeps the same NSR
+    // and hash regardless of the exported period. Punches with a receipt carry the record
+    // issued at punch time; older ones fill NSR 1 up to the first receipt.
+    const receiptEntryIds = new Set(receipts.map(receipt => receipt.entryId));
+    const firstReceiptNsr = receipts.reduce((min, receipt) => Math.min(min, receipt.nsr), Infinity);
+    const legacyChain = await buildLegacyPunchChain(users, punches.filter(entry => !receiptEntryIds.has(entry.id)));
+    const legacyCount = Number.isFinite(firstReceiptNsr) ? firstReceiptNsr - 1 : legacyChain.length;
+    if (legacyChain.length > legacyCount) {
+        warnings.push(`${legacyChain.length - legacyCount} marcação(ões) sem comprovante emitido não incluída(s).`);
+    }
+
+    const inPeriod = (timestamp: Date) => {
+        const dateKey = formatDateKey(timestamp);
+        return dateKey >= startDate && dateKey <= endDate;
+    };
+    const records = [
+        ...legacyChain.slice(0, legacyCount)
+            .filter(({ entry }) => inPeriod(entry.timestamp))
+            .map(({ record, hash }) => ({ nsr: parseInt(record.slice(0, 9), 10), line: record + hash })),
+        ...receipts
+            .filter(receipt => inPeriod(receipt.timestamp))
+            .map(receipt => ({ nsr: receipt.nsr, line: receipt.record + receipt.hash })),
+    ].sort((a, b) => a.nsr - b.nsr).map(({ line }) => line);
+
+    const lines = [buildHeader(employer, startDate, endDate, generatedAt), ...records, buildTrailer(records.length)];
+    return {
+        content: lines.join(LINE_BREAK) + LINE_BREAK,
+        fileName: `AFD${onlyDigits(employer.inpiRegistration)}${onlyDigits(employer.idNumber)}REP_P.txt`,
+        warnings,
+    };
+};
+
+const isNumeric = (value: string) => /^\d+$/.test(value);
+
+const validateHeader = (line: string, errors: string[]) => {
+    const error = (message: string) => errors.push(`Linha 1 (cabeçalho): ${message}`);
+    if (line.length !== AFD_RECORD_LENGTHS['1']) {
+        error(`tamanho ${line.length}, esperado ${AFD_RECORD_LENGTHS['1']}.`);
+        return;
+    }
+    if (line.slice(0, 9) !== '000000000') error('NSR do cabeçalho deve ser 000000000.');
+    if (line[9] !== '1') error('tipo de registro deve ser 1.');
+
+    const idType = line[10];
+    const idNumber = line.slice(11, 25);
+    if (idType === '1' && !isValidCnpj(idNumber)) error('CNPJ do empregador inválido.');
+    else if (idType === '2' && !isValidCpf(idNumber.slice(3))) error('CPF do empregador inválido.');
+    else if (idType !== '1' && idType !== '2') error('tipo de identificador do empregador deve ser 1 ou 2.');
+
+    const cnoCaepf = line.slice(25, 39);
+    if (cnoCaepf.trim() && !isNumeric(cnoCaepf)) error('CNO/CAEPF deve ser numérico.');
+    if (!line.slice(39, 189).trim()) error('razão social não informada.');
+    if (!isNumeric(line.slice(189, 206))) error('número de registro no INPI deve ser numérico.');
+
+    const startDate = line.slice(206, 216);
+    const endDate = line.slice(216, 226);
+    if (!DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate)) error('datas inicial/final fora do formato AAAA-MM-dd.');
+    else if (startDate > endDate) error('data inicial posterior à data final.');
+    if (!DATE_TIME_PATTERN.test(line.slice(226, 250))) error('data e hora de geração fora do formato.');
+    if (line.slice(250, 253) !== AFD_LAYOUT_VERSION) error(`versão do leiaute deve ser ${AFD_LAYOUT_VERSION}.`);
+    if (!['1', '2'].includes(line[253])) error('tipo de identificador do desenvolvedor deve ser 1 ou 2.');
+    if (!isNumeric(line.slice(254, 268))) error('CNPJ/CPF do desenvolvedor deve ser numérico.');
+    if (crc16(line.slice(0, 298)) !== line.slice(298, 302)) error('CRC-16 não confere.');
+};
+
+// Checks a generated AFD against the layout: record sizes and types, field formats,
+// NSR sequence, CRC of the header, SHA-256 chain of the punch records and trailer counts.
+export const validateAfd = async (content: string): Promise<string[]> => {
+    const errors: string[] = [];
+    if (content.length > 0 && !content.endsWith(LINE_BREAK)) {
+        errors.push('O arquivo deve terminar com quebra de linha CR+LF.');
+    }
+    const lines = content.split(LINE_BREAK).filter(line => line.length > 0);
+    if (lines.length < 2) {
+        return [...errors, 'O arquivo deve conter ao menos o cabeçalho e o trailer.'];
+    }
+
+    validateHeader(lines[0], errors);
+
+    const records = lines.slice(1, -1);
+    let previousNsr = 0;
+    let previousHash: string | null = null;
+    let previousChainNsr = 0; // NSR the previous hash belongs to
+    let punchCount = 0;
+
+    for (let index = 0; index < records.length; index++) {
+        const line = records[index];
+        const lineNumber = index + 2;
+        const error = (message: string) => errors.push(`Linha ${lineNumber}: ${message}`);
+        const recordType = line[9];
+        if (recordType !== '7') {
+            error(`tipo de registro "${recordType}" não suportado por este arquivo.`);
+            previousHash = null;
+            continue;
+        }
+        punchCount++;
+        if (line.length !== AFD_RECORD_LENGTHS['7']) {
+            error(`tamanho ${line.length}, esperado ${AFD_RECORD_LENGTHS['7']}.`);
+            previousHash = null;
+            continue;
+        }
+
+        const nsr = line.slice(0, 9);
+        if (!isNumeric(nsr)) error('NSR deve ser numérico.');
+        else if (parseInt(nsr, 10) <= previousNsr) error(`NSR ${nsr} fora de sequência.`);
+        else previousNsr = parseInt(nsr, 10);
+        if (!DATE_TIME_PATTERN.test(line.slice(10, 34))) error('data e hora da marcação fora do formato.');
+        const cpf = line.slice(34, 46);
+        if (!isNumeric(cpf) || !isValidCpf(cpf.slice(1))) error('CPF do empregado inválido.');
+        if (!DATE_TIME_PATTERN.test(line.slice(46, 70))) error('data e hora de gravação fora do formato.');
+        if (!['01', '02', '03', '04', '05'].includes(line.slice(70, 72))) error('identificador do coletor inválido.');
+        if (!['0', '1'].includes(line[72])) error('indicador on-line/off-line deve ser 0 ou 1.');
+
+        const hash = line.slice(73, 137);
+        if (!/^[0-9a-f]{64}$/i.test(hash)) {
+            error('código hash deve ter 64 dígitos hexadecimais.');
+            previousHash = null;
+            continue;
+        }
+        // A period export holds part of the chain: records selected by the time of the mark skip the
+        // NSRs of punches synced late, so a record is only checked against the NSR right before it
+        const nsrValue = parseInt(nsr, 10);
+        const chainedTo = nsrValue === 1 ? '' : (previousHash !== null && nsrValue === previousChainNsr + 1 ? previousHash : null);
+        if (chainedTo !== null && await sha256Hex(line.slice(0, 73) + chainedTo) !== hash.toLowerCase()) {
+            error('código hash não confere com o registro anterior.');
+        }
+        previousHash = hash.toLowerCase();
+        previousChainNsr = nsrValue;
+    }
+
+    const trailer = lines[lines.length - 1];
+    const trailerLine = lines.length;
+    if (trailer.length !== AFD_RECORD_LENGTHS['9']) {
+        errors.push(`Linha ${trailerLine} (trailer): tamanho ${trailer.length}, esperado ${AFD_RECORD_LENGTHS['9']}.`);
+    } else {
+        if (trailer.slice(0, 9) !== '999999999') errors.push(`Linha ${trailerLine} (trailer): deve iniciar com 999999999.`);
+        if (trailer[63] !== '9') errors.push(`Linha ${trailerLine} (trailer): tipo de registro deve ser 9.`);
+        if (parseInt(trailer.slice(54, 63), 10) !== punchCount) {
+            errors.push(`Linha ${trailerLine} (trailer): quantidade de registros tipo 7 (${parseInt(trailer.slice(54, 63), 10)}) difere do arquivo (${punchCount}).`);
+        }
+    }
+
+    return errors;
+};
@@ -0,0 +1,231 @@
+import { AuditLog } from '../types';
+import { sha256Hex } from './portaria671';
+
+// Helpers to present the audit_logs records written by logActivity/logAnonymousActivity.
+
+export const AUDIT_ACTION_LABELS: { [action: string]: string } = {
+    USER_LOGIN_SUCCESS: 'Login',
+    USER_LOGIN_FAIL: 'Falha de login',
+    USER_LOGIN_FAIL_INACTIVE: 'Login de usuário inativo',
+    USER_LOGIN_FAIL_NO_PROFILE: 'Login sem perfil',
+    USER_LOGOUT: 'Logout',
+    USER_PASSWORD_CHANGE_SUCCESS: 'Alteração de senha',
+    USER_PASSWORD_CHANGE_FAIL: 'Falha na alteração de senha',
+    ADMIN_PASSWORD_RESET_EMAIL_SENT: 'Envio de redefinição de senha',
+    ADMIN_PASSWORD_RESET_EMAIL_FAIL: 'Falha no envio de redefinição de senha',
+    ADD_TIME_ENTRY: 'Registro de ponto',
+    PUNCH_BLOCKED_CLOCK_SKEW: 'Registro bloqueado (relógio)',
+    DISCARD_STALE_PUNCH: 'Marcação offline expirada',
+    ISSUE_PUNCH_RECEIPT: 'Emissão de comprovante',
+    UPDATE_TIME_ENTRY: 'Alteração de marcação',
+    UPDATE_TIME_ENTRY_OBSERVATION: 'Alteração de observação',
+    DELETE_TIME_ENTRY: 'Exclusão de marcação',
+    ADD_PUNCH_ADJUSTMENT: 'Tratamento de marcação',
+    CREATE_CORRECTION_REQUEST: 'Solicitação de ajuste',
+    APPROVE_CORRECTION_REQUEST: 'Aprovação de solicitação',
+    REJECT_CORRECTION_REQUEST: 'Rejeição de solicitação',
+    CREATE_USER: 'Cadastro de funcionário',
+    UPDATE_USER: 'Alteração de funcionário',
+    REBUILD_USERNAME_INDEX: 'Reconstrução do índice de nomes',
+    CREATE_SHIFT_PATTERN: 'Cadastro de escala',
+    UPDATE_SHIFT_PATTERN: 'Alteração de escala',
+    DELETE_SHIFT_PATTERN: 'Exclusão de escala',
+    CREATE_WORK_SITE: 'Cadastro de local',
+    UPDATE_WORK_SITE: 'Alteração de local',
+    DELETE_WORK_SITE: 'Exclusão de local',
+    ADD_HOUR_BANK_ADJUSTMENT: 'Lançamento no banco de horas',
+    CLOSE_HOUR_BANK: 'Fechamento do banco de horas',
+    REOPEN_HOUR_BANK: 'Reabertura do banco de horas',
+    ACCEPT_TIMESHEET: 'Aceite de espelho',
+    CONTEST_TIMESHEET: 'Contestação de espelho',
+    UPDATE_APP_CONFIG: 'Alteração de configurações',
+    UPDATE_HOLIDAY_CALENDAR: 'Alteração de feriados',
+    UPDATE_EMPLOYER_INFO: 'Alteração de dados do empregador',
+    EXPORT_DATA_SUCCESS: 'Exportação de dados',
+    EXPORT_DATA_FAIL: 'Falha na exportação de dados',
+    IMPORT_DATA_SUCCESS: 'Importação de dados',
+    IMPORT_DATA_FAIL: 'Falha na importação de dados',
+    VERIFY_AUDIT_CHAIN: 'Verificação da cadeia de auditoria',
+};
+
+export const getAuditActionLabel = (action: string) => AUDIT_ACTION_LABELS[action] ?? action;
+
+export const getAuditTargetUserId = (log: AuditLog): string | undefined => log.details?.targetUserId;
+
+export interface AuditFieldChange {
+    field: string;
+    before: unknown;
+    after: unknown;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+// Stored Timestamps come back as { seconds, nanoseconds }; normalize them so equal values compare equal
+const normalize = (value: unknown): unknown => {
+    if (value && typeof (value as { toDate?: unknown }).toDate === 'function') {
+        return (value as { toDate: () => Date }).toDate().toISOString();
+    }
+    if (value instanceof Date) return value.toISOString();
+    return value;
+};
+
+// Field-level changes between details.before and details.after, flattening nested objects
+// into dotted paths ("schedule.days.1.expectedHours") so only the values that changed show up
+export const diffAuditDetails = (details: Record<string, any>): AuditFieldChange[] => {
+    if (!isPlainObject(details?.before) && !isPlainObject(details?.after)) return [];
+    const changes: AuditFieldChange[] = [];
+    const walk = (before: unknown, after: unknown, path: string) => {
+        const b = normalize(before);
+        const a = normalize(after);
+        if ((isPlainObject(b) || Array.isArray(b)) && (isPlainObject(a) || Array.isArray(a)) && Array.isArray(a) === Array.isArray(b)) {
+            const keys = new Set([...Object.keys(b as object), ...Object.keys(a as object)]);
+            keys.forEach(key => walk((b as any)[key], (a as any)[key], path ? `${path}.${key}` : key));
+            return;
+        }
+        if (JSON.stringify(b) !== JSON.stringify(a)) {
+            changes.push({ field: path, before: b, after: a });
+        }
+    };
+    walk(details.before ?? {}, details.after ?? {}, '');
+    return changes;
+};
+
+export const formatAuditValue = (value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (typeof value === 'boolean') return value ? 'Sim' : 'Não';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+// Details other than the before/after snapshots, for a one-line summary of the record
+export const summarizeAuditDetails = (details: Record<string, any>) => Object.entries(details ?? {})
+    .filter(([key]) => key !== 'before' && key !== 'after')
+    .map(([key, value]) => `${key}: ${formatAuditValue(normalize(value))}`)
+    .join(' · ');
+
+const escapeCsv = (value: string) => /[";\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Semicolon-separated with a BOM, the format Excel expects for pt-BR locales
+export const buildAuditCsv = (logs: AuditLog[], userNames: { [userId: string]: string }) => {
+    const header = ['Data/Hora', 'Ator', 'Ação', 'Código da ação', 'Funcionário afetado', 'Alterações', 'Detalhes'];
+    const rows = logs.map(log => {
+        const targetUserId = getAuditTargetUserId(log);
+        return [
+            log.timestamp.toLocaleString('pt-BR'),
+            log.actorName,
+            getAuditActionLabel(log.action),
+            log.action,
+            targetUserId ? userNames[targetUserId] ?? targetUserId : '',
+            diffAuditDetails(log.details).map(c => `${c.field}: ${formatAuditValue(c.before)} → ${formatAuditValue(c.after)}`).join(' | '),
+            summarizeAuditDetails(log.details),
+        ];
+    });
+    return '﻿' + [header, ...rows].map(row => row.map(escapeCsv).join(';')).join('\r\n');
+};
+
+// Tamper-evident chain. Each record stores a sequence number, the hash of the previous record and
+// the SHA-256 of its own content followed by that previous hash, so editing, removing or inserting
+// a record breaks every link after it. counters/audit_logs holds the head of the chain.
+
+export interface AuditChainHead {
+    sequence: number;
+    lastHash: string;
+    lastLogId?: string; // Record that advanced the head, checked by the rules
+}
+
+export type AuditLogContent = Omit<AuditLog, 'id' | 'previousHash' | 'hash'> & { sequence: number };
+
+// Key order and timestamp representation fixed, so a record read back hashes the same as when written
+const canonicalize = (value: unknown): unknown => {
+    const normalized = normalize(value);
+    if (Array.isArray(normalized)) return normalized.map(canonicalize);
+    if (isPlainObject(normalized)) {
+        return Object.keys(normalized).sort().reduce((result, key) => {
+            if (normalized[key] !== undefined) result[key] = canonicalize(normalized[key]);
+            return result;
+        }, {} as Record<string, unknown>);
+    }
+    return normalized;
+};
+
+export const computeAuditHash = (log: AuditLogContent, previousHash: string) => sha256Hex(JSON.stringify(canonicalize({
+    sequence: log.sequence,
+    timestamp: log.timestamp,
+    actorId: log.actorId,
+    actorName: log.actorName,
+    action: log.action,
+    details: log.details,
+})) + previousHash);
+
+export interface AuditChainIssue {
+    sequence?: number;
+    logId?: string;
+    message: string;
+}
+
+export interface AuditChainReport {
+    chainedCount: number;
+    legacyCount: number; // Unchained records older than the chain
+    issues: AuditChainIssue[];
+}
+
+export const verifyAuditChain = async (logs: AuditLog[], head: AuditChainHead | null): Promise<AuditChainReport> => {
+    const issues: AuditChainIssue[] = [];
+    const chained = logs.filter(log => log.sequence !== undefined).sort((a, b) => a.sequence! - b.sequence!);
+    const unchained = logs.filter(log => log.sequence === undefined);
+    const chainStart = chained[0]?.timestamp.getTime() ?? Infinity;
+
+    // Records without chain fields are expected only before the chain started; later ones were
+    // written offline or added outside the app
+    const lateUnchained = unchained.filter(log => log.timestamp.getTime() >= chainStart);
+    lateUnchained.forEach(log => issues.push({
+        logId: log.id,
+        message: `Registro sem encadeamento em ${log.timestamp.toLocaleString('pt-BR')} (${getAuditActionLabel(log.action)}).`,
+    }));
+
+    let expectedSequence = 1;
+    let previousHash: string | null = '';
+    for (const log of chained) {
+        const sequence = log.sequence!;
+        if (sequence < expectedSequence) {
+            issues.push({ sequence, logId: log.id, message: `Sequência ${sequence} duplicada.` });
+            continue;
+        }
+        if (sequence > expectedSequence) {
+            issues.push({
+                sequence: expectedSequence,
+                message: sequence - expectedSequence === 1
+                    ? `Registro ${expectedSequence} ausente.`
+                    : `Registros ${expectedSequence} a ${sequence - 1} ausentes.`,
+            });
+            previousHash = null; // The missing records' hashes are unknown
+        }
+        if (previousHash !== null && log.previousHash !== previousHash) {
+            issues.push({ sequence, logId: log.id, message: `Registro ${sequence} não aponta para o hash do registro anterior.` });
+        }
+        const { id, previousHash: storedPreviousHash, hash, ...content } = log;
+        if (await computeAuditHash(content as AuditLogContent, storedPreviousHash ?? '') !== hash) {
+            issues.push({ sequence, logId: id, message: `Conteúdo do registro ${sequence} foi alterado.` });
+        }
+        previousHash = hash ?? null;
+        expectedSequence = sequence + 1;
+    }
+
+    // Removing the newest records leaves no gap in the sequence; the chain head still counts them
+    const lastSequence = expectedSequence - 1;
+    if (head && head.sequence > lastSequence) {
+        issues.push({
+            sequence: lastSequence + 1,
+            message: head.sequence - lastSequence === 1
+                ? `Registro ${head.sequence} (o mais recente) ausente.`
+                : `Registros ${lastSequence + 1} a ${head.sequence} (os mais recentes) ausentes.`,
+        });
+    } else if (head && head.sequence === lastSequence && previousHash !== null && head.lastHash !== previousHash) {
+        issues.push({ sequence: lastSequence, message: 'O hash do último registro difere do controle da cadeia.' });
+    } else if (!head && chained.length > 0) {
+        issues.push({ message: 'Controle da cadeia (counters/audit_logs) não encontrado.' });
+    }
+
+    return { chainedCount: chained.length, legacyCount: unchained.length - lateUnchained.length, issues };
+};
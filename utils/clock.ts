@@ -0,0 +1,28 @@
+// Device clock skew against the Firestore server. Skew is device time minus server time, so a
+// phone set 5 minutes ahead has a skew of +300000 ms.
+
+export const DEFAULT_MAX_CLOCK_SKEW_MINUTES = 2;
+
+// Punches synced within this window of their capture get the server time; older ones (captured
+// offline or stuck in the queue) keep the device time corrected by the skew measured at capture.
+export const LIVE_SYNC_WINDOW_MS = 60 * 1000;
+
+// Offline punches older than this when they reach the server are refused by the security rules,
+// which accept one more day to absorb clock skew. Kept in step with firestore.rules.
+export const OFFLINE_PUNCH_MAX_AGE_DAYS = 7;
+
+export const isSkewExceeded = (skewMs: number | undefined, maxMinutes: number) =>
+    skewMs !== undefined && Math.abs(skewMs) > maxMinutes * 60 * 1000;
+
+// Best estimate of the server time of a device instant
+export const toServerTime = (deviceTime: Date, skewMs: number | undefined) =>
+    new Date(deviceTime.getTime() - (skewMs ?? 0));
+
+// "+3 min 20 s" (device ahead) or "-45 s" (device behind)
+export const formatSkew = (skewMs: number) => {
+    const sign = skewMs < 0 ? '-' : '+';
+    const totalSeconds = Math.round(Math.abs(skewMs) / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return minutes > 0 ? `${sign}${minutes} min ${seconds} s` : `${sign}${seconds} s`;
+};
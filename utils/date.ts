@@ -0,0 +1,60 @@
+// Date-key helpers. A date key is a local calendar date formatted as YYYY-MM-DD.
+
+const MILLIS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export const formatDateKey = (date: Date) => {
+    const y = date.getFullYear();
+    const m = String(date.getMonth() + 1).padStart(2, '0');
+    const d = String(date.getDate()).padStart(2, '0');
+    return `${y}-${m}-${d}`;
+};
+
+export const dateKeyToDisplay = (dateKey: string) => {
+    const [y, m, d] = dateKey.split('-');
+    return `${d}/${m}/${y}`;
+};
+
+// Parses a date key as a local date (new Date('YYYY-MM-DD') would be UTC midnight).
+export const parseDateKey = (dateKey: string) => {
+    const [y, m, d] = dateKey.split('-').map(Number);
+    return new Date(y, m - 1, d);
+};
+
+export const addDays = (dateKey: string, days: number) => {
+    const date = parseDateKey(dateKey);
+    date.setDate(date.getDate() + days);
+    return formatDateKey(date);
+};
+
+// Whole calendar days from `fromKey` to `toKey` (negative when `toKey` is earlier).
+export const daysBetween = (fromKey: string, toKey: string) => {
+    return Math.round((parseDateKey(toKey).getTime() - parseDateKey(fromKey).getTime()) / MILLIS_PER_DAY);
+};
+
+export const addMonths = (dateKey: string, months: number) => {
+    const date = parseDateKey(dateKey);
+    const day = date.getDate();
+    date.setDate(1);
+    date.setMonth(date.getMonth() + months);
+    // Clamp to the last day of the target month (e.g. 31/08 + 6 months = 28/02)
+    const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+    date.setDate(Math.min(day, lastDay));
+    return formatDateKey(date);
+};
+
+export const MONTH_NAMES = ['Janeiro', 'Fevereiro', 'Março', 'Abril', 'Maio', 'Junho', 'Julho', 'Agosto', 'Setembro', 'Outubro', 'Novembro', 'Dezembro'];
+
+// First and last date keys of a YYYY-MM month.
+export const getMonthRange = (month: string) => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    return {
+        startDate: formatDateKey(new Date(year, monthNumber - 1, 1)),
+        endDate: formatDateKey(new Date(year, monthNumber, 0)),
+    };
+};
+
+// "Março/2025" for "2025-03"
+export const formatMonthLabel = (month: string) => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    return `${MONTH_NAMES[monthNumber - 1]}/${year}`;
+};
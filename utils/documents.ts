@@ -0,0 +1,32 @@
+// CPF/CNPJ helpers. Documents are stored as digits only.
+
+export const onlyDigits = (value: string) => value.replace(/\D/g, '');
+
+const checkDigit = (digits: number[], weights: number[]) => {
+    const sum = digits.reduce((acc, digit, i) => acc + digit * weights[i], 0);
+    const rest = sum % 11;
+    return rest < 2 ? 0 : 11 - rest;
+};
+
+export const isValidCpf = (value: string) => {
+    const cpf = onlyDigits(value);
+    if (cpf.length !== 11 || /^(\d)\1+$/.test(cpf)) return false;
+    const digits = cpf.split('').map(Number);
+    const first = checkDigit(digits.slice(0, 9), [10, 9, 8, 7, 6, 5, 4, 3, 2]);
+    const second = checkDigit(digits.slice(0, 10), [11, 10, 9, 8, 7, 6, 5, 4, 3, 2]);
+    return digits[9] === first && digits[10] === second;
+};
+
+export const isValidCnpj = (value: string) => {
+    const cnpj = onlyDigits(value);
+    if (cnpj.length !== 14 || /^(\d)\1+$/.test(cnpj)) return false;
+    const digits = cnpj.split('').map(Number);
+    const first = checkDigit(digits.slice(0, 12), [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+    const second = checkDigit(digits.slice(0, 13), [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+    return digits[12] === first && digits[13] === second;
+};
+
+export const formatCpf = (value: string) => {
+    const cpf = onlyDigits(value);
+    return cpf.length === 11 ? `${cpf.slice(0, 3)}.${cpf.slice(3, 6)}.${cpf.slice(6, 9)}-${cpf.slice(9)}` : value;
+};
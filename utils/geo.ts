@@ -0,0 +1,58 @@
+import { User, WorkSite } from '../types';
+
+// Haversine formula to calculate distance
+export const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
+    const R = 6371e3; // metres
+    const φ1 = lat1 * Math.PI / 180;
+    const φ2 = lat2 * Math.PI / 180;
+    const Δφ = (lat2 - lat1) * Math.PI / 180;
+    const Δλ = (lon2 - lon1) * Math.PI / 180;
+
+    const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+              Math.cos(φ1) * Math.cos(φ2) *
+              Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+    return R * c; // in metres
+};
+
+// East (x) and north (y) offset in metres between two nearby points (equirectangular approximation)
+export const offsetInMetres = (fromLat: number, fromLon: number, toLat: number, toLon: number) => {
+    const metresPerDegree = 111320;
+    return {
+        x: (toLon - fromLon) * metresPerDegree * Math.cos(fromLat * Math.PI / 180),
+        y: (toLat - fromLat) * metresPerDegree,
+    };
+};
+
+// Sites assigned to the employee; employees without an assignment may punch at any site
+export const getUserSites = (user: User, sites: WorkSite[]) => {
+    const assigned = sites.filter(site => user.siteIds?.includes(site.id));
+    return assigned.length > 0 ? assigned : sites;
+};
+
+export interface SiteMatch {
+    site: WorkSite;
+    distance: number; // Metres
+    isInside: boolean;
+}
+
+// Closest site whose geofence contains the position, or the closest site overall when none does
+export const matchSite = (latitude: number, longitude: number, sites: WorkSite[]): SiteMatch | null => {
+    const matches = sites
+        .map(site => {
+            const distance = calculateDistance(latitude, longitude, site.latitude, site.longitude);
+            return { site, distance, isInside: distance <= site.radius };
+        })
+        .sort((a, b) => a.distance - b.distance);
+    return matches.find(m => m.isInside) ?? matches[0] ?? null;
+};
+
+export const isValidTimezone = (timezone: string) => {
+    try {
+        new Intl.DateTimeFormat('pt-BR', { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+};
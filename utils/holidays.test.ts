@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { HolidayCalendar, HolidayScope } from '../types';
+import { findHoliday } from './holidays';
+
+const calendar: HolidayCalendar = {
+    observeOptionalHolidays: false,
+    customHolidays: [
+        { date: '2025-03-19', name: 'Aniversário de Rio Preto', scope: HolidayScope.MUNICIPAL, recurring: true, siteIds: ['rio-preto'] },
+        { date: '2025-07-09', name: 'Revolução Constitucionalista', scope: HolidayScope.STATE, recurring: true },
+    ],
+};
+
+describe('findHoliday', () => {
+    it('finds national holidays for everyone', () => {
+        expect(findHoliday(calendar, '2025-04-21')?.name).toBe('Tiradentes');
+        expect(findHoliday(calendar, '2025-04-21', ['manaus'])?.name).toBe('Tiradentes');
+    });
+
+    it('applies a site holiday only to employees of that site', () => {
+        expect(findHoliday(calendar, '2026-03-19', ['rio-preto', 'manaus'])?.name).toBe('Aniversário de Rio Preto');
+        expect(findHoliday(calendar, '2026-03-19', ['manaus'])).toBeUndefined();
+        expect(findHoliday(calendar, '2026-03-19')).toBeUndefined();
+    });
+
+    it('applies a holiday without sites to every employee', () => {
+        expect(findHoliday(calendar, '2025-07-09', ['manaus'])?.name).toBe('Revolução Constitucionalista');
+        expect(findHoliday(calendar, '2025-07-09')?.name).toBe('Revolução Constitucionalista');
+    });
+
+    it('observes Consciência Negra as a national holiday from 2024 on', () => {
+        expect(findHoliday(calendar, '2023-11-20')).toBeUndefined();
+        expect(findHoliday(calendar, '2024-11-20')?.name).toBe('Dia Nacional de Zumbi e da Consciência Negra');
+    });
+});
@@ -0,0 +1,88 @@
+import { Holiday, HolidayCalendar, HolidayScope } from '../types';
+import { formatDateKey } from './date';
+
+export const DEFAULT_HOLIDAY_CALENDAR: HolidayCalendar = {
+    customHolidays: [],
+    observeOptionalHolidays: true,
+};
+
+// fromYear: first year the holiday is national
+const FIXED_NATIONAL_HOLIDAYS: { monthDay: string; name: string; fromYear?: number }[] = [
+    { monthDay: '01-01', name: 'Confraternização Universal' },
+    { monthDay: '04-21', name: 'Tiradentes' },
+    { monthDay: '05-01', name: 'Dia do Trabalho' },
+    { monthDay: '09-07', name: 'Independência do Brasil' },
+    { monthDay: '10-12', name: 'Nossa Senhora Aparecida' },
+    { monthDay: '11-02', name: 'Finados' },
+    { monthDay: '11-15', name: 'Proclamação da República' },
+    { monthDay: '11-20', name: 'Dia Nacional de Zumbi e da Consciência Negra', fromYear: 2024 }, // Lei 14.759/2023
+    { monthDay: '12-25', name: 'Natal' },
+];
+
+// Easter Sunday (Gregorian calendar), anonymous Gregorian algorithm (Meeus/Jones/Butcher).
+export const computeEaster = (year: number) => {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+    return new Date(year, month - 1, day);
+};
+
+const offsetFromEaster = (easter: Date, days: number) => {
+    const date = new Date(easter);
+    date.setDate(date.getDate() + days);
+    return formatDateKey(date);
+};
+
+export const getNationalHolidays = (year: number, observeOptionalHolidays: boolean): Holiday[] => {
+    const national = (date: string, name: string): Holiday => ({ date, name, scope: HolidayScope.NATIONAL, recurring: false });
+    const easter = computeEaster(year);
+
+    const holidays = [
+        ...FIXED_NATIONAL_HOLIDAYS
+            .filter(h => !h.fromYear || year >= h.fromYear)
+            .map(h => national(`${year}-${h.monthDay}`, h.name)),
+        national(offsetFromEaster(easter, -2), 'Sexta-feira Santa'),
+    ];
+    if (observeOptionalHolidays) {
+        holidays.push(
+            national(offsetFromEaster(easter, -48), 'Carnaval (segunda-feira)'),
+            national(offsetFromEaster(easter, -47), 'Carnaval (terça-feira)'),
+            national(offsetFromEaster(easter, 60), 'Corpus Christi'),
+        );
+    }
+    return holidays.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Custom holidays resolved to concrete dates of the given year.
+export const getCustomHolidays = (calendar: HolidayCalendar, year: number): Holiday[] => {
+    return calendar.customHolidays
+        .filter(h => h.recurring || h.date.startsWith(`${year}-`))
+        .map(h => h.recurring ? { ...h, date: `${year}-${h.date.slice(5)}` } : h);
+};
+
+export const getHolidaysForYear = (calendar: HolidayCalendar, year: number): Holiday[] => {
+    return [...getNationalHolidays(year, calendar.observeOptionalHolidays), ...getCustomHolidays(calendar, year)]
+        .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Local holidays tied to work sites only apply to employees assigned to one of them; employees
+// without sites only observe the ones of the whole company.
+export const appliesToSites = (holiday: Holiday, siteIds: string[] | undefined) =>
+    !holiday.siteIds?.length || holiday.siteIds.some(siteId => siteIds?.includes(siteId));
+
+export const findHoliday = (calendar: HolidayCalendar | undefined, dateKey: string, siteIds?: string[]): Holiday | undefined => {
+    if (!calendar) return undefined;
+    const year = Number(dateKey.slice(0, 4));
+    return getHolidaysForYear(calendar, year).find(h => h.date === dateKey && appliesToSites(h, siteIds));
+};
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { User, Role, TimeEntry, TimeEntryType, HourBankClosing } from '../types';
+import { WorkdayContext } from './workday';
+import { formatDateKey } from './date';
+import { buildHourBankStatements, closeHourBankMonth, getClosingRange, getLedgerStart, getBalanceOn } from './hourBank';
+
+const { ENTRADA, SAIDA } = TimeEntryType;
+
+let nextId = 0;
+const punch = (type: TimeEntryType, timestamp: Date): TimeEntry => ({
+    id: `e${++nextId}`,
+    userId: 'u1',
+    type,
+    timestamp,
+    observation: '',
+});
+
+const shift = (month: number, day: number, startHour: number, endHour: number) => [
+    punch(ENTRADA, new Date(2025, month - 1, day, startHour)),
+    punch(SAIDA, new Date(2025, month - 1, day, endHour)),
+];
+
+// Admitted on Wednesday 29/01/2025, so January has three expected workdays
+const user: User = { id: 'u1', name: 'Ana', email: 'ana@example.com', role: Role.EMPLOYEE, isActive: true, admissionDate: '2025-01-29' };
+const context: WorkdayContext = { users: [user], workdayHours: 8 };
+
+const january: HourBankClosing = {
+    ...closeHourBankMonth(user, '2025-01', [...shift(1, 29, 8, 18), ...shift(1, 30, 8, 16), ...shift(1, 31, 8, 16)], [], undefined, context, 6),
+    closedById: 'admin',
+    closedByName: 'Admin',
+    closedAt: new Date(2025, 1, 1),
+};
+
+describe('closeHourBankMonth', () => {
+    it('stores the balance and the credits still open at the end of the month', () => {
+        expect(january.id).toBe('u1_2025-01');
+        expect(january.openingBalance).toBe(0);
+        expect(january.credits).toBe(2);
+        expect(january.closingBalance).toBe(2);
+        expect(january.creditLots).toEqual([{ dateKey: '2025-01-29', hours: 2 }]);
+        expect(january.debt).toBe(0);
+    });
+
+    it('keeps an overnight shift that ends in the next month', () => {
+        // Friday 31/01 from 20:00 to 06:00 on 01/02: ten hours, two of them overtime
+        const entries = [
+            ...shift(1, 29, 8, 16), ...shift(1, 30, 8, 16),
+            punch(ENTRADA, new Date(2025, 0, 31, 20)), punch(SAIDA, new Date(2025, 1, 1, 6)),
+        ];
+        const range = getClosingRange('2025-01');
+        expect(range).toEqual({ startDate: '2024-12-31', endDate: '2025-02-01' });
+        const read = entries.filter(entry => formatDateKey(entry.timestamp) >= range.startDate && formatDateKey(entry.timestamp) <= range.endDate);
+        const closing = closeHourBankMonth(user, '2025-01', read, [], undefined, context, 6);
+        expect(closing.credits).toBe(2);
+        expect(closing.closingBalance).toBe(2);
+    });
+
+    it('continues from the closing of the month before', () => {
+        // Monday 03/02 is one hour short; every other February weekday is complete
+        const entries: TimeEntry[] = [];
+        for (let day = 3; day <= 28; day++) {
+            const weekday = new Date(2025, 1, day).getDay();
+            if (weekday > 0 && weekday < 6) entries.push(...shift(2, day, 8, day === 3 ? 15 : 16));
+        }
+        const february = closeHourBankMonth(user, '2025-02', entries, [], january, context, 6);
+        expect(february.openingBalance).toBe(2);
+        expect(february.debits).toBe(-1);
+        expect(february.closingBalance).toBe(1);
+        // The debit compensates the January credit, which keeps its date
+        expect(february.creditLots).toEqual([{ dateKey: '2025-01-29', hours: 1 }]);
+    });
+});
+
+describe('buildHourBankStatements', () => {
+    it('starts the ledger from the latest closing instead of the punch history', () => {
+        const statement = buildHourBankStatements(shift(2, 3, 8, 15), [], [january], context, { startDate: '2025-02-03', endDate: '2025-02-03' }, 6).u1;
+        expect(statement.startingBalance).toBe(2);
+        expect(statement.openingBalance).toBe(2);
+        expect(statement.debits).toBe(-1);
+        expect(statement.closingBalance).toBe(1);
+        expect(getBalanceOn(statement, '2025-02-02')).toBe(2);
+    });
+
+    it('still expires the credits carried over by the closing', () => {
+        // Inactive, so the days without punches are not absences
+        const inactive = { ...context, users: [{ ...user, isActive: false }] };
+        const statement = buildHourBankStatements([], [], [january], inactive, { startDate: '2025-03-01', endDate: '2025-03-31' }, 1).u1;
+        expect(statement.openingBalance).toBe(0);
+        expect(statement.expired).toBe(0);
+        expect(statement.timeline.map(m => [m.dateKey, m.hours])).toEqual([['2025-02-28', -2]]);
+    });
+
+    it('ignores closings that end inside the range', () => {
+        const statement = buildHourBankStatements(shift(1, 29, 8, 18), [], [january], context, { startDate: '2025-01-29', endDate: '2025-01-29' }, 6).u1;
+        expect(statement.startingBalance).toBe(0);
+        expect(statement.closingBalance).toBe(2);
+    });
+});
+
+describe('getLedgerStart', () => {
+    it('is the day after the opening closing, or the admission date before any closing', () => {
+        expect(getLedgerStart([january], user, '2025-03-01')).toBe('2025-02-01');
+        expect(getLedgerStart([january], user, '2025-01-15')).toBe('2025-01-29');
+        expect(getLedgerStart([], { ...user, admissionDate: undefined }, '2025-03-01')).toBe('');
+    });
+});
@@ -0,0 +1,245 @@
+import { User, TimeEntry, HourBankAdjustment, HourBankClosing } from '../types';
+import { ProcessedDay, WorkdayContext, DateRange, processWorkdaysInRange } from './workday';
+import { addDays, addMonths, dateKeyToDisplay, getMonthRange } from './date';
+
+// Hour bank (banco de horas) ledger. Daily balances from the workday engine become credits and
+// debits, manual adjustments are added on top, and credits not compensated within the expiry
+// period expire oldest first. Closed months are persisted as HourBankClosing, and the ledger
+// continues from the latest closing before the range instead of the whole history.
+
+export const DEFAULT_HOUR_BANK_EXPIRY_MONTHS = 6;
+
+export enum HourBankMovementType {
+    CREDIT = 'Crédito',
+    DEBIT = 'Débito',
+    ADJUSTMENT = 'Ajuste Manual',
+    EXPIRY = 'Expiração',
+}
+
+export interface HourBankMovement {
+    dateKey: string;
+    type: HourBankMovementType;
+    hours: number;
+    description: string;
+    balanceAfter: number;
+}
+
+export interface HourBankStatement {
+    userId: string;
+    openingBalance: number;
+    credits: number;
+    debits: number;
+    adjustments: number;
+    expired: number;
+    closingBalance: number;
+    startingBalance: number; // Carried over from the closing the ledger started from
+    movements: HourBankMovement[]; // Only the movements inside the range
+    timeline: HourBankMovement[];  // Every movement since that closing up to the end of the range
+    // Ledger state at the end of the range, as a closing stores it
+    creditLots: HourBankClosing['creditLots'];
+    debt: number;
+}
+
+interface CreditLot {
+    dateKey: string;
+    remaining: number;
+}
+
+const BALANCE_EPSILON = 1e-9;
+
+const toMovements = (days: ProcessedDay[], adjustments: HourBankAdjustment[]) => {
+    const fromDays = days
+        .filter(day => Math.abs(day.balance) > BALANCE_EPSILON)
+        .map(day => ({
+            dateKey: day.dateKey,
+            type: day.balance > 0 ? HourBankMovementType.CREDIT : HourBankMovementType.DEBIT,
+            hours: day.balance,
+            description: `Saldo do dia · ${day.status}`,
+        }));
+    const fromAdjustments = adjustments.map(adjustment => ({
+        dateKey: adjustment.date,
+        type: HourBankMovementType.ADJUSTMENT,
+        hours: adjustment.hours,
+        description: adjustment.reason,
+    }));
+    return [...fromDays, ...fromAdjustments].sort((a, b) => a.dateKey.localeCompare(b.dateKey));
+};
+
+// Last day of a closed month, after which its ledger continues
+const closingEnd = (closing: HourBankClosing) => getMonthRange(closing.month).endDate;
+
+// Latest closing of the user that ends before the date, which the ledger of a range starting
+// on that date continues from
+export const findOpeningClosing = (closings: HourBankClosing[], userId: string, startDate: string) =>
+    closings
+        .filter(closing => closing.userId === userId && closingEnd(closing) < startDate)
+        .sort((a, b) => b.month.localeCompare(a.month))[0];
+
+// First day whose punches the ledger of a range starting on `startDate` needs: the day after the
+// opening closing or, before the first closing, the admission date ('' for the whole history)
+export const getLedgerStart = (closings: HourBankClosing[], user: User, startDate: string) => {
+    const opening = findOpeningClosing(closings, user.id, startDate);
+    return opening ? addDays(closingEnd(opening), 1) : (user.admissionDate ?? '');
+};
+
+export const buildHourBankStatement = (
+    userId: string,
+    userDays: ProcessedDay[],
+    userAdjustments: HourBankAdjustment[],
+    range: DateRange,
+    expiryMonths: number,
+    opening?: HourBankClosing,
+): HourBankStatement => {
+    const ledgerStart = opening ? addDays(closingEnd(opening), 1) : '';
+    const lots: CreditLot[] = (opening?.creditLots ?? []).map(lot => ({ dateKey: lot.dateKey, remaining: lot.hours }));
+    let debt = opening?.debt ?? 0;
+    const startingBalance = opening?.closingBalance ?? 0;
+    const timeline: HourBankMovement[] = [];
+
+    const currentBalance = () => lots.reduce((acc, lot) => acc + lot.remaining, 0) - debt;
+
+    const expireUntil = (dateKey: string) => {
+        if (expiryMonths <= 0) return;
+        lots.forEach(lot => {
+            const expiresOn = addMonths(lot.dateKey, expiryMonths);
+            if (lot.remaining > BALANCE_EPSILON && expiresOn <= dateKey) {
+                const expiredHours = lot.remaining;
+                lot.remaining = 0;
+                timeline.push({
+                    dateKey: expiresOn,
+                    type: HourBankMovementType.EXPIRY,
+                    hours: -expiredHours,
+                    description: `Crédito de ${dateKeyToDisplay(lot.dateKey)} não compensado`,
+                    balanceAfter: currentBalance(),
+                });
+            }
+        });
+    };
+
+    toMovements(userDays, userAdjustments)
+        .filter(movement => movement.dateKey >= ledgerStart && movement.dateKey <= range.endDate)
+        .forEach(movement => {
+            expireUntil(movement.dateKey);
+            if (movement.hours > 0) {
+                // A credit first pays off any outstanding debt
+                const payment = Math.min(debt, movement.hours);
+                debt -= payment;
+                if (movement.hours - payment > BALANCE_EPSILON) {
+                    lots.push({ dateKey: movement.dateKey, remaining: movement.hours - payment });
+                }
+            } else {
+                // A debit compensates the oldest credits first; whatever is left becomes debt
+                let needed = -movement.hours;
+                lots.forEach(lot => {
+                    const used = Math.min(lot.remaining, needed);
+                    lot.remaining -= used;
+                    needed -= used;
+                });
+                debt += needed;
+            }
+            timeline.push({ ...movement, balanceAfter: currentBalance() });
+        });
+    expireUntil(range.endDate);
+
+    const before = timeline.filter(m => m.dateKey < range.startDate);
+    const movements = timeline.filter(m => m.dateKey >= range.startDate);
+    const sumOf = (type: HourBankMovementType) => movements.filter(m => m.type === type).reduce((acc, m) => acc + m.hours, 0);
+    const openingBalance = before.length > 0 ? before[before.length - 1].balanceAfter : startingBalance;
+
+    return {
+        userId,
+        openingBalance,
+        credits: sumOf(HourBankMovementType.CREDIT),
+        debits: sumOf(HourBankMovementType.DEBIT),
+        adjustments: sumOf(HourBankMovementType.ADJUSTMENT),
+        expired: sumOf(HourBankMovementType.EXPIRY),
+        closingBalance: timeline.length > 0 ? timeline[timeline.length - 1].balanceAfter : startingBalance,
+        startingBalance,
+        movements,
+        timeline,
+        creditLots: lots.filter(lot => lot.remaining > BALANCE_EPSILON).map(lot => ({ dateKey: lot.dateKey, hours: lot.remaining })),
+        debt,
+    };
+};
+
+// Statements for every user in the context. Each ledger continues from the user's latest closing
+// before the range, so the time entries must cover the days since then (see getLedgerStart).
+export const buildHourBankStatements = (
+    timeEntries: TimeEntry[],
+    adjustments: HourBankAdjustment[],
+    closings: HourBankClosing[],
+    context: WorkdayContext,
+    range: DateRange,
+    expiryMonths: number,
+): { [userId: string]: HourBankStatement } => {
+    const statements: { [userId: string]: HourBankStatement } = {};
+    context.users.forEach(user => {
+        const opening = findOpeningClosing(closings, user.id, range.startDate);
+        const userDays = processWorkdaysInRange(
+            timeEntries.filter(entry => entry.userId === user.id),
+            { ...context, users: [user] },
+            { startDate: getLedgerStart(closings, user, range.startDate), endDate: range.endDate },
+        );
+        statements[user.id] = buildHourBankStatement(
+            user.id,
+            userDays,
+            adjustments.filter(a => a.userId === user.id),
+            range,
+            expiryMonths,
+            opening,
+        );
+    });
+    return statements;
+};
+
+// Days whose punches closeHourBankMonth needs: the month plus the day before and the day after it,
+// for overnight shifts started before the month or ending after it
+export const getClosingRange = (month: string): DateRange => {
+    const range = getMonthRange(month);
+    return { startDate: addDays(range.startDate, -1), endDate: addDays(range.endDate, 1) };
+};
+
+// Ledger of one month of the user, continuing from the closing of the month before, ready to be
+// stored. `timeEntries` must cover the whole getClosingRange of the month, or the overnight shifts
+// at its edges lose a punch and the stored closing keeps them as incomplete days.
+export const closeHourBankMonth = (
+    user: User,
+    month: string,
+    timeEntries: TimeEntry[],
+    adjustments: HourBankAdjustment[],
+    previous: HourBankClosing | undefined,
+    context: WorkdayContext,
+    expiryMonths: number,
+): Omit<HourBankClosing, 'closedById' | 'closedByName' | 'closedAt'> => {
+    const range = getMonthRange(month);
+    const userDays = processWorkdaysInRange(
+        timeEntries.filter(entry => entry.userId === user.id),
+        { ...context, users: [user] },
+        range,
+    ).filter(day => day.dateKey >= range.startDate);
+    const statement = buildHourBankStatement(user.id, userDays, adjustments.filter(a => a.userId === user.id), range, expiryMonths, previous);
+    return {
+        id: `${user.id}_${month}`,
+        userId: user.id,
+        month,
+        openingBalance: statement.openingBalance,
+        credits: statement.credits,
+        debits: statement.debits,
+        adjustments: statement.adjustments,
+        expired: statement.expired,
+        closingBalance: statement.closingBalance,
+        creditLots: statement.creditLots,
+        debt: statement.debt,
+    };
+};
+
+// Balance at the end of the given date, according to the statement's timeline.
+export const getBalanceOn = (statement: HourBankStatement | undefined, dateKey: string) => {
+    if (!statement) return 0;
+    let balance = statement.startingBalance;
+    for (const movement of statement.timeline) {
+        if (movement.dateKey > dateKey) break;
+        balance = movement.balanceAfter;
+    }
+    return balance;
+};
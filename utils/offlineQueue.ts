@@ -0,0 +1,64 @@
+import { TimeEntryType, LocationCheck } from '../types';
+
+// Durable queue of punches captured on this device, kept in IndexedDB until they reach Firestore.
+// Every punch goes through the queue, so a lost connection never loses a mark.
+
+const DB_NAME = 'ponto-digital';
+const DB_VERSION = 1;
+const STORE = 'pending_punches';
+
+export interface PendingPunch {
+    id: string; // Firestore document id, generated on capture so syncing twice is harmless
+    userId: string;
+    type: TimeEntryType;
+    observation: string;
+    capturedAt: Date; // Device time of the punch
+    capturedOffline: boolean;
+    clockSkewMs?: number; // Last skew measured before capture, used to correct offline punches
+    clockSkewFlagged?: boolean;
+    locationCheck?: LocationCheck;
+    siteId?: string;
+    siteName?: string;
+}
+
+const openQueue = () => new Promise<IDBDatabase>((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+        reject(new Error('IndexedDB não está disponível neste navegador.'));
+        return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const runTransaction = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await openQueue();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const transaction = db.transaction(STORE, mode);
+            const request = action(transaction.objectStore(STORE));
+            transaction.oncomplete = () => resolve(request.result);
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    } finally {
+        db.close();
+    }
+};
+
+export const enqueuePunch = async (punch: PendingPunch) => {
+    await runTransaction('readwrite', store => store.put(punch));
+};
+
+export const removePendingPunch = async (id: string) => {
+    await runTransaction('readwrite', store => store.delete(id));
+};
+
+// Oldest capture first, the order they must be synced in
+export const getPendingPunches = async () => {
+    const punches = await runTransaction<PendingPunch[]>('readonly', store => store.getAll());
+    return punches.sort((a, b) => a.capturedAt.getTime() - b.capturedAt.getTime());
+};
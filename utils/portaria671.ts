@@ -0,0 +1,79 @@
+import { EmployerInfo, EmployerIdType } from '../types';
+
+// Helpers shared by the files required by Portaria MTP 671/2021 (AFD and AEJ).
+
+export const DEFAULT_EMPLOYER_INFO: EmployerInfo = {
+    idType: EmployerIdType.CNPJ,
+    idNumber: '',
+    cnoCaepf: '',
+    name: '',
+    inpiRegistration: '',
+    developerIdType: EmployerIdType.CNPJ,
+    developerIdNumber: '',
+    developerName: '',
+    developerEmail: '',
+};
+
+export const PROGRAM_NAME = 'Sistema de Ponto Digital';
+export const PROGRAM_VERSION = '1.0';
+
+// Identifier codes used by both layouts: 1 = CNPJ, 2 = CPF
+export const employerIdTypeCode = (idType: EmployerIdType) => idType === EmployerIdType.CPF ? '2' : '1';
+
+export const padNumber = (value: string | number, length: number) => String(value).padStart(length, '0').slice(-length);
+
+export const padText = (value: string, length: number) => value.padEnd(length, ' ').slice(0, length);
+
+const timezoneOffset = (date: Date) => {
+    const offset = -date.getTimezoneOffset();
+    const sign = offset < 0 ? '-' : '+';
+    const abs = Math.abs(offset);
+    return `${sign}${padNumber(Math.floor(abs / 60), 2)}${padNumber(abs % 60, 2)}`;
+};
+
+// AAAA-MM-dd
+export const formatFileDate = (date: Date) =>
+    `${date.getFullYear()}-${padNumber(date.getMonth() + 1, 2)}-${padNumber(date.getDate(), 2)}`;
+
+// AAAA-MM-ddThh:mm:00ZZZZZ, seconds are always zero in these layouts
+export const formatFileDateTime = (date: Date) =>
+    `${formatFileDate(date)}T${padNumber(date.getHours(), 2)}:${padNumber(date.getMinutes(), 2)}:00${timezoneOffset(date)}`;
+
+// Both files are ISO 8859-1 encoded; characters outside Latin-1 become '?'
+export const encodeLatin1 = (content: string) => {
+    const bytes = new Uint8Array(content.length);
+    for (let i = 0; i < content.length; i++) {
+        const code = content.charCodeAt(i);
+        bytes[i] = code < 256 ? code : 0x3F;
+    }
+    return bytes;
+};
+
+// CRC-16/KERMIT as required by the AFD layout, rendered as 4 uppercase hex digits
+export const crc16 = (content: string) => {
+    let crc = 0;
+    encodeLatin1(content).forEach(byte => {
+        crc ^= byte;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 1 ? (crc >>> 1) ^ 0x8408 : crc >>> 1;
+        }
+    });
+    return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+export const sha256Hex = async (content: string) => {
+    const digest = await crypto.subtle.digest('SHA-256', encodeLatin1(content));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const downloadLatin1File = (content: string, fileName: string) => {
+    const blob = new Blob([encodeLatin1(content)], { type: 'text/plain;charset=iso-8859-1' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,68 @@
+import { TimeEntry, PunchAdjustment, PunchAdjustmentType } from '../types';
+import { DateRange, formatTime } from './workday';
+
+// Adjustment layer over the original punches (Portaria 671 forbids changing original marks).
+// Reports work on the treated list: originals plus inclusions, with the time changes and
+// deactivations applied in the order they were recorded.
+
+export interface TreatedPunches {
+    entries: TimeEntry[];
+    deactivated: TimeEntry[]; // Entries removed by a deactivation, with that adjustment attached
+}
+
+export const resolvePunchAdjustments = (timeEntries: TimeEntry[], adjustments: PunchAdjustment[]): TreatedPunches => {
+    const entries = new Map<string, TimeEntry>();
+    timeEntries.forEach(entry => entries.set(entry.id, entry));
+    const deactivated: TimeEntry[] = [];
+
+    [...adjustments]
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+        .forEach(adjustment => {
+            if (adjustment.adjustmentType === PunchAdjustmentType.INCLUSION) {
+                if (!adjustment.timestamp) return;
+                entries.set(adjustment.id, {
+                    id: adjustment.id,
+                    userId: adjustment.userId,
+                    timestamp: adjustment.timestamp,
+                    type: adjustment.entryType,
+                    observation: adjustment.observation ?? '',
+                    adjustment,
+                });
+                return;
+            }
+
+            const target = adjustment.entryId ? entries.get(adjustment.entryId) : undefined;
+            if (!target) return;
+            if (adjustment.adjustmentType === PunchAdjustmentType.DEACTIVATION) {
+                entries.delete(target.id);
+                deactivated.push({ ...target, adjustment });
+            } else if (adjustment.timestamp) {
+                entries.set(target.id, {
+                    ...target,
+                    timestamp: adjustment.timestamp,
+                    // Included punches have no original mark to show
+                    originalTimestamp: target.adjustment ? target.originalTimestamp : target.timestamp,
+                    adjustment,
+                });
+            }
+        });
+
+    return { entries: [...entries.values()], deactivated };
+};
+
+export const applyPunchAdjustments = (timeEntries: TimeEntry[], adjustments: PunchAdjustment[]) =>
+    resolvePunchAdjustments(timeEntries, adjustments).entries;
+
+// Punches read on demand, as stored and with the adjustments applied
+export interface LoadedTimeEntries {
+    originals: TimeEntry[];
+    treated: TimeEntry[];
+}
+
+export type TimeEntryLoader = (range: DateRange, userId?: string) => Promise<LoadedTimeEntries>;
+
+// "Incluída" or "Alterada (original 08:03)"; empty for untreated punches
+export const describePunchTreatment = (entry: TimeEntry) => {
+    if (!entry.adjustment) return '';
+    return entry.originalTimestamp ? `Alterada (original ${formatTime(entry.originalTimestamp)})` : 'Incluída';
+};
@@ -0,0 +1,49 @@
+import { PunchReceipt } from '../types';
+import { formatCpf } from './documents';
+import { padNumber } from './portaria671';
+
+// Comprovante de registro de ponto of a REP-P (Portaria MTP 671/2021, art. 79), rendered on a
+// small page the employee can keep on the phone or print.
+
+export const RECEIPT_TITLE = 'Comprovante de Registro de Ponto do Trabalhador';
+
+export const formatNsr = (nsr: number) => padNumber(nsr, 9);
+
+export const formatReceiptDateTime = (date: Date) =>
+    date.toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// The hash is split in halves so it fits the narrow receipt without wrapping mid-group
+export const splitHash = (hash: string) => [hash.slice(0, 32), hash.slice(32)];
+
+export const renderPunchReceiptPdf = (receipt: PunchReceipt) => {
+    const { jsPDF } = window.jspdf;
+    const doc = new jsPDF({ format: 'a6' });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    let y = 12;
+    const line = (text: string, gap = 5) => {
+        doc.text(text, 8, y);
+        y += gap;
+    };
+
+    doc.setFontSize(10);
+    doc.text(RECEIPT_TITLE, pageWidth / 2, y, { align: 'center', maxWidth: pageWidth - 16 });
+    y += 12;
+
+    doc.setFontSize(9);
+    line(receipt.employerName || 'Empresa');
+    line(`${receipt.employerIdType}: ${receipt.employerIdNumber}`, 8);
+    if (receipt.siteName) {
+        line(`Local: ${receipt.siteName}`, 8);
+    }
+    line(`Trabalhador: ${receipt.userName}`);
+    line(`CPF: ${formatCpf(receipt.cpf)}`, 8);
+    line(`Data e hora: ${formatReceiptDateTime(receipt.timestamp)}`);
+    line(`Marcação: ${receipt.entryType}`);
+    line(`NSR: ${formatNsr(receipt.nsr)}`, 8);
+    line('Código hash (SHA-256):');
+    doc.setFont('courier');
+    doc.setFontSize(8);
+    splitHash(receipt.hash).forEach(part => line(part, 4));
+
+    return doc;
+};
@@ -0,0 +1,69 @@
+import { User, WorkSchedule, WorkScheduleDay, ShiftPattern } from '../types';
+import { parseDateKey, daysBetween } from './date';
+
+export const WEEKDAY_LABELS = ['Domingo', 'Segunda', 'Terça', 'Quarta', 'Quinta', 'Sexta', 'Sábado'];
+
+const DEFAULT_START_TIME = '09:00';
+
+// Schedule used for employees without one of their own: Monday to Friday with the company workday.
+export const getDefaultSchedule = (workdayHours: number): WorkSchedule => ({
+    days: WEEKDAY_LABELS.map((_, weekday) => {
+        const isWorkday = weekday >= 1 && weekday <= 5;
+        return {
+            isWorkday,
+            expectedHours: isWorkday ? workdayHours : 0,
+            startTime: isWorkday ? DEFAULT_START_TIME : '',
+            endTime: '',
+        };
+    }),
+    lateToleranceMinutes: 0,
+});
+
+export interface ScheduleContext {
+    workdayHours: number; // Fallback for users without their own schedule or shift pattern
+    shiftPatterns?: ShiftPattern[];
+}
+
+export const getUserSchedule = (user: User | undefined, workdayHours: number): WorkSchedule => {
+    return user?.schedule ?? getDefaultSchedule(workdayHours);
+};
+
+// Position of a date inside a rotating cycle, counted from the pattern's anchor date (step 0).
+export const getCycleIndex = (pattern: ShiftPattern, dateKey: string) => {
+    const length = pattern.days.length;
+    return ((daysBetween(pattern.anchorDate, dateKey) % length) + length) % length;
+};
+
+// What the employee is expected to do on a date: a rotating shift pattern takes precedence
+// over the weekly schedule, which in turn falls back to the company default.
+export const resolveScheduleDay = (user: User | undefined, dateKey: string, context: ScheduleContext): { scheduleDay: WorkScheduleDay; lateToleranceMinutes: number } => {
+    const pattern = user?.shiftPatternId ? context.shiftPatterns?.find(p => p.id === user.shiftPatternId) : undefined;
+    if (pattern && pattern.days.length > 0) {
+        return { scheduleDay: pattern.days[getCycleIndex(pattern, dateKey)], lateToleranceMinutes: pattern.lateToleranceMinutes };
+    }
+    const schedule = getUserSchedule(user, context.workdayHours);
+    return { scheduleDay: schedule.days[parseDateKey(dateKey).getDay()], lateToleranceMinutes: schedule.lateToleranceMinutes };
+};
+
+export const timeToMinutes = (time: string) => {
+    const [h, m] = time.split(':').map(Number);
+    return h * 60 + (m || 0);
+};
+
+// Minutes the Entrada happened after the scheduled start, beyond the tolerance. Zero when on time.
+export const getLateMinutes = (scheduleDay: WorkScheduleDay, entrada: Date, toleranceMinutes: number) => {
+    if (!scheduleDay.isWorkday || !scheduleDay.startTime) return 0;
+    const entradaMinutes = entrada.getHours() * 60 + entrada.getMinutes();
+    const late = entradaMinutes - timeToMinutes(scheduleDay.startTime);
+    return late > toleranceMinutes ? late : 0;
+};
+
+const workStep = (expectedHours: number, startTime: string, endTime: string): WorkScheduleDay => ({ isWorkday: true, expectedHours, startTime, endTime });
+const offStep = (): WorkScheduleDay => ({ isWorkday: false, expectedHours: 0, startTime: '', endTime: '' });
+
+// Common Brazilian rotations, used to prefill the shift pattern editor.
+export const SHIFT_PATTERN_PRESETS: { name: string; days: WorkScheduleDay[] }[] = [
+    { name: '12x36', days: [workStep(11, '07:00', '19:00'), offStep()] },
+    { name: '6x1', days: [...Array.from({ length: 6 }, () => workStep(7.33, '08:00', '16:20')), offStep()] },
+    { name: '5x2', days: [...Array.from({ length: 5 }, () => workStep(8, '08:00', '17:00')), offStep(), offStep()] },
+];
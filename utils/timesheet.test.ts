@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { User, Role } from '../types';
+import { buildTimesheet, canonicalJson, hashTimesheet, TimesheetOptions } from './timesheet';
+
+const user: User = { id: 'u1', name: 'Ana', email: 'ana@example.com', cpf: '52998224725', role: Role.EMPLOYEE, isActive: true, admissionDate: '2025-01-01' };
+const options: TimesheetOptions = {
+    user,
+    month: '2025-01',
+    timeEntries: [],
+    hourBankAdjustments: [],
+    hourBankClosings: [],
+    context: { users: [user], workdayHours: 8 },
+    hourBankExpiryMonths: 6,
+};
+
+describe('canonicalJson', () => {
+    it('sorts the keys of nested objects and keeps the array order', () => {
+        expect(canonicalJson({ b: 1, a: { d: [2, 1], c: 'x' } })).toBe('{"a":{"c":"x","d":[2,1]},"b":1}');
+    });
+
+    it('leaves out undefined members', () => {
+        expect(canonicalJson({ a: undefined, b: null })).toBe('{"b":null}');
+    });
+});
+
+describe('hashTimesheet', () => {
+    it('does not depend on the key order', async () => {
+        const timesheet = buildTimesheet(options);
+        const { rows, ...rest } = timesheet;
+        const reordered = { rows, ...Object.fromEntries(Object.entries(rest).reverse()) } as typeof timesheet;
+        expect(await hashTimesheet(reordered)).toBe(await hashTimesheet(timesheet));
+    });
+
+    it('changes with the profile the espelho is built from', async () => {
+        const onVacation = { ...user, vacationStart: '2025-01-06', vacationEnd: '2025-01-10' };
+        const before = await hashTimesheet(buildTimesheet(options));
+        const after = await hashTimesheet(buildTimesheet({ ...options, user: onVacation, context: { ...options.context, users: [onVacation] } }));
+        expect(after).not.toBe(before);
+    });
+});
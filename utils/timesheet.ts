@@ -0,0 +1,220 @@
+import { User, TimeEntry, HourBankAdjustment, HourBankClosing, EmployerInfo } from '../types';
+import { WorkdayContext, DateRange, ProcessedDay, processDay, processWorkdaysInRange, isPunchType, formatTime, formatHours } from './workday';
+import { buildHourBankStatements, getLedgerStart } from './hourBank';
+import { formatDateKey, addDays, addMonths, parseDateKey, getMonthRange, formatMonthLabel } from './date';
+import { WEEKDAY_LABELS } from './schedule';
+import { formatCpf } from './documents';
+
+// Monthly timesheet (espelho de ponto) for one employee. The data is built separately from the
+// PDF so the same content can be shown on screen, rendered and hashed.
+
+export interface TimesheetRow {
+    dateKey: string;
+    date: string;
+    weekday: string;
+    punches: string[];
+    expectedHours: number;
+    workedHours: number;
+    overtimeHours: number;
+    balance: number;
+    status: string;
+    observation: string;
+}
+
+export interface Timesheet {
+    userId: string;
+    userName: string;
+    cpf: string;
+    month: string; // YYYY-MM
+    startDate: string;
+    endDate: string;
+    rows: TimesheetRow[];
+    totals: {
+        expectedHours: number;
+        workedHours: number;
+        overtimeHours: number;
+        absences: number;
+    };
+    hourBank: {
+        openingBalance: number;
+        closingBalance: number;
+    };
+}
+
+export interface TimesheetOptions {
+    user: User;
+    month: string; // YYYY-MM
+    timeEntries: TimeEntry[];
+    hourBankAdjustments: HourBankAdjustment[];
+    hourBankClosings: HourBankClosing[];
+    context: WorkdayContext;
+    hourBankExpiryMonths: number;
+}
+
+const toRow = (day: ProcessedDay): TimesheetRow => ({
+    dateKey: day.dateKey,
+    date: day.date,
+    weekday: WEEKDAY_LABELS[parseDateKey(day.dateKey).getDay()].slice(0, 3),
+    // Adjusted punches are flagged with an asterisk
+    punches: day.originalEntries.filter(e => isPunchType(e.type)).map(e => `${formatTime(e.timestamp)}${e.adjustment ? '*' : ''}`),
+    expectedHours: day.expectedHours,
+    workedHours: day.workedHours,
+    overtimeHours: day.overtimeHours,
+    balance: day.balance,
+    status: day.holidayName && day.status === 'Feriado' ? `Feriado: ${day.holidayName}` : day.status,
+    observation: day.observation,
+});
+
+export const buildTimesheet = ({ user, month, timeEntries, hourBankAdjustments, hourBankClosings, context, hourBankExpiryMonths }: TimesheetOptions): Timesheet => {
+    const range = getMonthRange(month);
+    const userEntries = timeEntries.filter(e => e.userId === user.id);
+    const userContext = { ...context, users: [user] };
+
+    const processedDays = processWorkdaysInRange(userEntries, userContext, range);
+    const yesterdayKey = addDays(formatDateKey(new Date()), -1);
+
+    // Every calendar day up to yesterday gets a row, including days off, so the espelho has no gaps
+    const rows: TimesheetRow[] = [];
+    for (let dateKey = range.startDate; dateKey <= range.endDate; dateKey = addDays(dateKey, 1)) {
+        const day = processedDays.find(d => d.dateKey === dateKey)
+            ?? (dateKey <= yesterdayKey ? processDay(user.id, dateKey, [], userContext) : undefined);
+        if (day) rows.push(toRow(day));
+    }
+
+    const statement = buildHourBankStatements(userEntries, hourBankAdjustments.filter(a => a.userId === user.id), hourBankClosings, userContext, range, hourBankExpiryMonths)[user.id];
+
+    return {
+        userId: user.id,
+        userName: user.name,
+        cpf: user.cpf ?? '',
+        month,
+        startDate: range.startDate,
+        endDate: range.endDate,
+        rows,
+        totals: {
+            expectedHours: rows.reduce((acc, row) => acc + row.expectedHours, 0),
+            workedHours: rows.reduce((acc, row) => acc + row.workedHours, 0),
+            overtimeHours: rows.reduce((acc, row) => acc + row.overtimeHours, 0),
+            absences: rows.filter(row => row.status === 'Falta').length,
+        },
+        hourBank: {
+            openingBalance: statement?.openingBalance ?? 0,
+            closingBalance: statement?.closingBalance ?? 0,
+        },
+    };
+};
+
+// Punches buildTimesheet needs for the month of these users: from the day before it, or the start
+// of their hour-bank ledgers when earlier, through the day after it for overnight shifts
+export const getTimesheetRange = (users: User[], month: string, closings: HourBankClosing[]): DateRange => {
+    const range = getMonthRange(month);
+    const startDate = users
+        .map(user => getLedgerStart(closings, user, range.startDate))
+        .reduce((earliest, start) => start < earliest ? start : earliest, addDays(range.startDate, -1));
+    return { startDate, endDate: addDays(range.endDate, 1) };
+};
+
+// Unsigned hh:mm, used for durations that are never negative
+export const formatDuration = (hours: number) => formatHours(hours).slice(1);
+
+export const timesheetFileName = (timesheet: Timesheet) =>
+    `espelho_${timesheet.month}_${timesheet.userName.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-zA-Z0-9]+/g, '_')}.pdf`;
+
+// Renders the espelho with jsPDF (loaded from the CDN in index.html). Returns the jsPDF document.
+export const renderTimesheetPdf = (timesheet: Timesheet, employer: EmployerInfo) => {
+    const { jsPDF } = window.jspdf;
+    const doc = new jsPDF();
+    const pageWidth = doc.internal.pageSize.getWidth();
+
+    doc.setFontSize(12);
+    doc.text(employer.name || 'Empresa', 14, 15);
+    doc.setFontSize(9);
+    if (employer.idNumber) {
+        doc.text(`${employer.idType}: ${employer.idNumber}`, 14, 20);
+    }
+    doc.setFontSize(14);
+    doc.text('Espelho de Ponto', pageWidth - 14, 15, { align: 'right' });
+    doc.setFontSize(10);
+    doc.text(formatMonthLabel(timesheet.month), pageWidth - 14, 20, { align: 'right' });
+
+    doc.setFontSize(10);
+    doc.text(`Funcionário: ${timesheet.userName}`, 14, 30);
+    doc.text(`CPF: ${timesheet.cpf ? formatCpf(timesheet.cpf) : 'não informado'}`, 14, 35);
+
+    (doc as any).autoTable({
+        head: [['Data', 'Dia', 'Marcações', 'Previsto', 'Trabalhado', 'Extra', 'Saldo', 'Situação']],
+        body: timesheet.rows.map(row => [
+            row.date,
+            row.weekday,
+            row.punches.join('  '),
+            formatDuration(row.expectedHours),
+            formatDuration(row.workedHours),
+            formatDuration(row.overtimeHours),
+            formatHours(row.balance),
+            row.status,
+        ]),
+        foot: [[
+            'Totais', '', '',
+            formatDuration(timesheet.totals.expectedHours),
+            formatDuration(timesheet.totals.workedHours),
+            formatDuration(timesheet.totals.overtimeHours),
+            '',
+            `${timesheet.totals.absences} falta(s)`,
+        ]],
+        startY: 40,
+        theme: 'grid',
+        headStyles: { fillColor: [27, 38, 59] }, // Cor 'secondary'
+        footStyles: { fillColor: [65, 90, 119] }, // Cor 'accent'
+        styles: {
+            font: 'helvetica',
+            fontSize: 7,
+        },
+    });
+
+    let y = ((doc as any).lastAutoTable.finalY || 40) + 10;
+    if (timesheet.rows.some(row => row.punches.some(punch => punch.endsWith('*')))) {
+        doc.setFontSize(8);
+        doc.text('* Marcação incluída ou alterada por ajuste. As marcações originais são preservadas no AFD.', 14, y - 4);
+        y += 4;
+    }
+    doc.setFontSize(10);
+    doc.text(`Banco de horas — saldo inicial: ${formatHours(timesheet.hourBank.openingBalance)}   saldo final: ${formatHours(timesheet.hourBank.closingBalance)}`, 14, y);
+
+    // Signature lines
+    y += 25;
+    if (y > doc.internal.pageSize.getHeight() - 20) {
+        doc.addPage();
+        y = 40;
+    }
+    doc.line(14, y, 94, y);
+    doc.line(pageWidth - 94, y, pageWidth - 14, y);
+    doc.setFontSize(9);
+    doc.text('Empregador', 54, y + 5, { align: 'center' });
+    doc.text(timesheet.userName, pageWidth - 54, y + 5, { align: 'center' });
+
+    return doc;
+};
+
+// JSON with the keys of every object sorted, so the hash does not depend on the order in which
+// the espelho was assembled. Undefined values are left out, as JSON.stringify does.
+export const canonicalJson = (value: unknown): string => {
+    if (Array.isArray(value)) return `[${value.map(item => canonicalJson(item ?? null)).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const members = Object.entries(value as Record<string, unknown>)
+            .filter(([, member]) => member !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+            .map(([key, member]) => `${JSON.stringify(key)}:${canonicalJson(member)}`);
+        return `{${members.join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+// SHA-256 of the espelho content. Identifies the exact version an employee acknowledged.
+export const hashTimesheet = async (timesheet: Timesheet) => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalJson(timesheet)));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Months that are already closed and can be acknowledged, newest first.
+export const getClosedMonths = (count: number, now: Date = new Date()) =>
+    Array.from({ length: count }, (_, i) => addMonths(formatDateKey(now), -(i + 1)).slice(0, 7));
@@ -0,0 +1,42 @@
+import { User } from '../types';
+
+// Login accepts the employee name instead of the e-mail. Names are compared without accents,
+// case or repeated spaces, so "José  da Silva" and "jose da silva" are the same username.
+
+export const normalizeUsername = (name: string) =>
+    name
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .trim()
+        .replace(/\s+/g, ' ');
+
+export const isSameUsername = (a: string, b: string) => normalizeUsername(a) === normalizeUsername(b);
+
+// Users grouped by username, only for names held by more than one of them. Such names cannot be
+// used to log in until they are told apart.
+export const findDuplicateUsernames = (users: User[]): User[][] => {
+    const usersByName = new Map<string, User[]>();
+    users.forEach(user => {
+        const username = normalizeUsername(user.name);
+        usersByName.set(username, [...(usersByName.get(username) ?? []), user]);
+    });
+    return Array.from(usersByName.values()).filter(group => group.length > 1);
+};
+
+// Lookup entry stored under the username
+export interface UsernameEntry {
+    userId: string;
+    email: string;
+}
+
+// Lookup entries of `users` by username, leaving out the names several of them share
+export const buildUsernameIndex = (users: User[]) => {
+    const duplicated = new Set(findDuplicateUsernames(users).map(group => normalizeUsername(group[0].name)));
+    const index = new Map<string, UsernameEntry>();
+    users.forEach(user => {
+        const username = normalizeUsername(user.name);
+        if (username && !duplicated.has(username)) index.set(username, { userId: user.id, email: user.email });
+    });
+    return index;
+};
@@ -0,0 +1,226 @@
+import { describe, it, expect } from 'vitest';
+import { User, Role, TimeEntry, TimeEntryType } from '../types';
+import { formatDateKey } from './date';
+import { getAllowedNextTypes, pairPunches, groupByWorkday, processDay, processWorkdays, processWorkdaysInRange, getCurrentWorkdayEntries, MAX_SHIFT_HOURS, WorkdayContext } from './workday';
+
+const { ENTRADA, INICIO_INTERVALO, FIM_INTERVALO, SAIDA, FERIAS } = TimeEntryType;
+
+let nextId = 0;
+const punch = (type: TimeEntryType, timestamp: Date, userId = 'u1'): TimeEntry => ({
+    id: `e${++nextId}`,
+    userId,
+    type,
+    timestamp,
+    observation: '',
+});
+
+// Local time, as the engine groups by the local calendar date
+const at = (day: number, hours: number, minutes = 0) => new Date(2025, 0, day, hours, minutes);
+
+const user: User = { id: 'u1', name: 'Ana', email: 'ana@example.com', role: Role.EMPLOYEE, isActive: true };
+const context: WorkdayContext = { users: [user], workdayHours: 8 };
+
+describe('getAllowedNextTypes', () => {
+    it('only starts a day with an Entrada', () => {
+        expect(getAllowedNextTypes(null)).toEqual([ENTRADA]);
+        expect(getAllowedNextTypes(SAIDA)).toEqual([ENTRADA]);
+    });
+
+    it('allows a break or the exit while working', () => {
+        expect(getAllowedNextTypes(ENTRADA)).toEqual([INICIO_INTERVALO, SAIDA]);
+        expect(getAllowedNextTypes(FIM_INTERVALO)).toEqual([INICIO_INTERVALO, SAIDA]);
+    });
+
+    it('only allows the end of an open break', () => {
+        expect(getAllowedNextTypes(INICIO_INTERVALO)).toEqual([FIM_INTERVALO]);
+    });
+});
+
+describe('pairPunches', () => {
+    it('pairs a day with one break into two work periods', () => {
+        const result = pairPunches([
+            punch(ENTRADA, at(6, 8)),
+            punch(INICIO_INTERVALO, at(6, 12)),
+            punch(FIM_INTERVALO, at(6, 13)),
+            punch(SAIDA, at(6, 17)),
+        ]);
+        expect(result.workPeriods).toEqual([{ start: at(6, 8), end: at(6, 12) }, { start: at(6, 13), end: at(6, 17) }]);
+        expect(result.breaks).toEqual([{ start: at(6, 12), end: at(6, 13) }]);
+        expect(result.isClosed).toBe(true);
+        expect(result.isConsistent).toBe(true);
+    });
+
+    it('accepts several entry and exit pairs in a day', () => {
+        const result = pairPunches([
+            punch(ENTRADA, at(6, 8)),
+            punch(SAIDA, at(6, 10)),
+            punch(ENTRADA, at(6, 14)),
+            punch(SAIDA, at(6, 18)),
+        ]);
+        expect(result.workPeriods).toHaveLength(2);
+        expect(result.isClosed).toBe(true);
+        expect(result.isConsistent).toBe(true);
+    });
+
+    it('ignores out-of-sequence punches and reports them', () => {
+        const result = pairPunches([
+            punch(ENTRADA, at(6, 8)),
+            punch(FIM_INTERVALO, at(6, 9)),
+            punch(SAIDA, at(6, 17)),
+        ]);
+        expect(result.workPeriods).toEqual([{ start: at(6, 8), end: at(6, 17) }]);
+        expect(result.breaks).toEqual([]);
+        expect(result.isConsistent).toBe(false);
+    });
+
+    it('leaves the day open without an exit', () => {
+        const result = pairPunches([punch(ENTRADA, at(6, 8)), punch(INICIO_INTERVALO, at(6, 12))]);
+        expect(result.workPeriods).toEqual([{ start: at(6, 8), end: at(6, 12) }]);
+        expect(result.breaks).toEqual([{ start: at(6, 12) }]);
+        expect(result.isClosed).toBe(false);
+    });
+
+    it('skips day markers', () => {
+        const result = pairPunches([punch(FERIAS, at(6, 0))]);
+        expect(result.workPeriods).toEqual([]);
+        expect(result.isConsistent).toBe(true);
+    });
+});
+
+describe('groupByWorkday', () => {
+    it('keeps an overnight shift on the day it started', () => {
+        const groups = groupByWorkday([
+            punch(ENTRADA, at(6, 22)),
+            punch(INICIO_INTERVALO, at(7, 2)),
+            punch(FIM_INTERVALO, at(7, 3)),
+            punch(SAIDA, at(7, 6)),
+        ]);
+        expect(groups).toHaveLength(1);
+        expect(groups[0].dateKey).toBe('2025-01-06');
+        expect(groups[0].entries).toHaveLength(4);
+    });
+
+    it(`drops a shift left open for more than ${MAX_SHIFT_HOURS} hours`, () => {
+        const groups = groupByWorkday([
+            punch(ENTRADA, at(6, 8)),
+            punch(SAIDA, at(7, 8)),
+        ]);
+        expect(groups.map(group => group.dateKey).sort()).toEqual(['2025-01-06', '2025-01-07']);
+    });
+
+    it('closes the shift on the exit, so the next punches fall on their own date', () => {
+        const groups = groupByWorkday([
+            punch(ENTRADA, at(6, 22)),
+            punch(SAIDA, at(7, 6)),
+            punch(INICIO_INTERVALO, at(7, 9)),
+        ]);
+        expect(groups.map(group => group.dateKey).sort()).toEqual(['2025-01-06', '2025-01-07']);
+    });
+
+    it('groups each user apart', () => {
+        const groups = groupByWorkday([
+            punch(ENTRADA, at(6, 22), 'u1'),
+            punch(SAIDA, at(7, 6), 'u2'),
+        ]);
+        expect(groups.map(group => `${group.userId}-${group.dateKey}`).sort()).toEqual(['u1-2025-01-06', 'u2-2025-01-07']);
+    });
+});
+
+describe('processDay', () => {
+    it('computes worked hours, breaks and the balance of a complete day', () => {
+        // Tuesday, expected 8 hours by the default schedule
+        const day = processDay('u1', '2025-01-07', [
+            punch(ENTRADA, at(7, 8)),
+            punch(INICIO_INTERVALO, at(7, 12)),
+            punch(FIM_INTERVALO, at(7, 13)),
+            punch(SAIDA, at(7, 18)),
+        ], context);
+        expect(day.status).toBe('Completo');
+        expect(day.workedHours).toBe(9);
+        expect(day.breakHours).toBe(1);
+        expect(day.balance).toBe(1);
+        expect(day.tags.map(tag => tag.text)).toContain('Hora Extra');
+    });
+
+    it('gives no balance to a day missing its exit', () => {
+        const day = processDay('u1', '2025-01-07', [punch(ENTRADA, at(7, 8))], context);
+        expect(day.status).toBe('Incompleto');
+        expect(day.balance).toBe(0);
+        expect(day.isAbsent).toBe(false);
+    });
+
+    it('counts an expected workday without punches as an absence', () => {
+        const day = processDay('u1', '2025-01-07', [], context);
+        expect(day.status).toBe('Falta');
+        expect(day.balance).toBe(-8);
+    });
+
+    it('expects nothing on a day off', () => {
+        // Saturday
+        const day = processDay('u1', '2025-01-11', [], context);
+        expect(day.status).toBe('Folga');
+        expect(day.balance).toBe(0);
+    });
+});
+
+describe('processWorkdays', () => {
+    it('computes an overnight shift as one day', () => {
+        const days = processWorkdays([
+            punch(ENTRADA, at(6, 22)),
+            punch(SAIDA, at(7, 6)),
+        ], context);
+        expect(days).toHaveLength(1);
+        expect(days[0].dateKey).toBe('2025-01-06');
+        expect(days[0].workedHours).toBe(8);
+        expect(days[0].status).toBe('Completo');
+    });
+});
+
+describe('processWorkdaysInRange', () => {
+    // Monday 06/01 to Sunday 12/01/2025, long past
+    const week = { startDate: '2025-01-06', endDate: '2025-01-12' };
+
+    it('flags every expected workday of an active user without punches', () => {
+        const days = processWorkdaysInRange([], context, week);
+        expect(days.map(day => day.dateKey).sort()).toEqual(['2025-01-06', '2025-01-07', '2025-01-08', '2025-01-09', '2025-01-10']);
+        expect(days.every(day => day.status === 'Falta')).toBe(true);
+    });
+
+    it('keeps the days with punches and fills the others', () => {
+        const days = processWorkdaysInRange([punch(ENTRADA, at(8, 8)), punch(SAIDA, at(8, 16))], context, week);
+        expect(days).toHaveLength(5);
+        expect(days.find(day => day.dateKey === '2025-01-08')?.status).toBe('Completo');
+    });
+
+    it('starts on the admission date', () => {
+        const admitted = { ...context, users: [{ ...user, admissionDate: '2025-01-09' }] };
+        expect(processWorkdaysInRange([], admitted, week).map(day => day.dateKey).sort()).toEqual(['2025-01-09', '2025-01-10']);
+        // Without a range start, the admission date is where absences begin
+        expect(processWorkdaysInRange([], admitted, { startDate: '', endDate: '2025-01-12' })).toHaveLength(2);
+    });
+
+    it('skips inactive users', () => {
+        expect(processWorkdaysInRange([], { ...context, users: [{ ...user, isActive: false }] }, week)).toEqual([]);
+    });
+
+    it('does not flag today or later', () => {
+        const today = new Date();
+        const range = { startDate: formatDateKey(today), endDate: formatDateKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() + 7)) };
+        expect(processWorkdaysInRange([], context, range)).toEqual([]);
+    });
+});
+
+describe('getCurrentWorkdayEntries', () => {
+    it('keeps an overnight shift that is still open', () => {
+        const entries = [punch(ENTRADA, at(6, 22))];
+        expect(getCurrentWorkdayEntries(entries, at(7, 3))).toEqual(entries);
+    });
+
+    it(`starts over once the open shift is older than ${MAX_SHIFT_HOURS} hours`, () => {
+        expect(getCurrentWorkdayEntries([punch(ENTRADA, at(6, 8))], at(7, 9))).toEqual([]);
+    });
+
+    it('starts over the day after a closed shift', () => {
+        expect(getCurrentWorkdayEntries([punch(ENTRADA, at(6, 8)), punch(SAIDA, at(6, 17))], at(7, 7))).toEqual([]);
+    });
+});
@@ -0,0 +1,391 @@
+import { User, TimeEntry, TimeEntryType, HolidayCalendar } from '../types';
+import { formatDateKey, dateKeyToDisplay, addDays, parseDateKey } from './date';
+import { ScheduleContext, resolveScheduleDay, getLateMinutes } from './schedule';
+import { findHoliday } from './holidays';
+
+// Framework-free workday engine shared by the admin report and the employee dashboard.
+// Keep all payroll rules here so every screen shows the same numbers.
+
+export interface DayTag {
+    text: string;
+    color: string;
+}
+
+export interface Interval {
+    start: Date;
+    end?: Date;
+}
+
+export interface ProcessedDay {
+    id: string;
+    userId: string;
+    dateKey: string; // YYYY-MM-DD
+    date: string;    // DD/MM/YYYY
+    entrada?: Date;
+    inicioIntervalo?: Date;
+    fimIntervalo?: Date;
+    saida?: Date;
+    workPeriods: Interval[];
+    breaks: Interval[];
+    workedHours: number;
+    breakHours: number;
+    expectedHours: number;
+    overtimeHours: number;
+    lateMinutes: number;
+    balance: number;
+    status: string;
+    isVacation: boolean;
+    isDayOff: boolean;
+    isAbsent: boolean;
+    isJustifiedAbsence: boolean;
+    holidayName?: string;
+    isConsistent: boolean;
+    observation: string;
+    originalEntries: TimeEntry[];
+    tags: DayTag[];
+}
+
+export interface WorkdayContext extends ScheduleContext {
+    users: User[];
+    holidays?: HolidayCalendar;
+}
+
+const MILLIS_PER_HOUR = 1000 * 60 * 60;
+const OVERTIME_TOLERANCE_HOURS = 0.5;
+// Punches after an Entrada stay in that Entrada's workday for at most this long, even across midnight.
+export const MAX_SHIFT_HOURS = 18;
+
+// Férias and Falta Justificada are day markers, not clock punches.
+const PUNCH_TYPES = [TimeEntryType.ENTRADA, TimeEntryType.INICIO_INTERVALO, TimeEntryType.FIM_INTERVALO, TimeEntryType.SAIDA];
+export const isPunchType = (type: TimeEntryType) => PUNCH_TYPES.includes(type);
+
+// Punch state machine: which punch types may follow the last one of the day.
+// Any number of Entrada/Saída pairs and of break pairs inside them is allowed.
+export const getAllowedNextTypes = (lastType: TimeEntryType | null): TimeEntryType[] => {
+    switch (lastType) {
+        case TimeEntryType.ENTRADA:
+        case TimeEntryType.FIM_INTERVALO:
+            return [TimeEntryType.INICIO_INTERVALO, TimeEntryType.SAIDA];
+        case TimeEntryType.INICIO_INTERVALO:
+            return [TimeEntryType.FIM_INTERVALO];
+        default:
+            return [TimeEntryType.ENTRADA];
+    }
+};
+
+export const getLastPunchType = (entries: TimeEntry[]): TimeEntryType | null => {
+    const punches = entries
+        .filter(e => isPunchType(e.type))
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    return punches.length > 0 ? punches[punches.length - 1].type : null;
+};
+
+// Walks the sorted punches through the state machine and pairs them into work periods and breaks.
+// Out-of-sequence punches are ignored and reported through `isConsistent`.
+export const pairPunches = (sortedEntries: TimeEntry[]) => {
+    const workPeriods: Interval[] = [];
+    const breaks: Interval[] = [];
+    let lastType: TimeEntryType | null = null;
+    let isConsistent = true;
+
+    sortedEntries.forEach(entry => {
+        if (!isPunchType(entry.type)) return;
+        if (!getAllowedNextTypes(lastType).includes(entry.type)) {
+            isConsistent = false;
+            return;
+        }
+        const openWork = workPeriods[workPeriods.length - 1];
+        const openBreak = breaks[breaks.length - 1];
+        switch (entry.type) {
+            case TimeEntryType.ENTRADA:
+                workPeriods.push({ start: entry.timestamp });
+                break;
+            case TimeEntryType.INICIO_INTERVALO:
+                openWork.end = entry.timestamp;
+                breaks.push({ start: entry.timestamp });
+                break;
+            case TimeEntryType.FIM_INTERVALO:
+                openBreak.end = entry.timestamp;
+                workPeriods.push({ start: entry.timestamp });
+                break;
+            case TimeEntryType.SAIDA:
+                openWork.end = entry.timestamp;
+                break;
+        }
+        lastType = entry.type;
+    });
+
+    const isClosed = lastType === TimeEntryType.SAIDA;
+    return { workPeriods, breaks, isClosed, isConsistent };
+};
+
+// Labels each punch with its ordinal when the day has more than one of that type, e.g. "Início Intervalo (2º)".
+export const numberPunches = (entries: TimeEntry[]): { [entryId: string]: string } => {
+    const sorted = [...entries].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const totals: { [type: string]: number } = {};
+    sorted.forEach(e => { totals[e.type] = (totals[e.type] || 0) + 1; });
+
+    const seen: { [type: string]: number } = {};
+    const labels: { [entryId: string]: string } = {};
+    sorted.forEach(e => {
+        seen[e.type] = (seen[e.type] || 0) + 1;
+        labels[e.id] = totals[e.type] > 1 ? `${e.type} (${seen[e.type]}º)` : e.type;
+    });
+    return labels;
+};
+
+const sumIntervals = (intervals: Interval[]) => intervals.reduce(
+    (acc, curr) => acc + (curr.end ? curr.end.getTime() - curr.start.getTime() : 0), 0
+);
+
+export const isOnVacation = (user: User | undefined, dateKey: string) => {
+    if (!user?.vacationStart || !user?.vacationEnd) return false;
+    return dateKey >= user.vacationStart && dateKey <= user.vacationEnd;
+};
+
+const buildTags = (day: Pick<ProcessedDay, 'isVacation' | 'isDayOff' | 'isAbsent' | 'isJustifiedAbsence' | 'holidayName' | 'isConsistent' | 'status' | 'workedHours' | 'expectedHours' | 'lateMinutes' | 'originalEntries'>) => {
+    const tags: DayTag[] = [];
+    if (!day.isConsistent) {
+        tags.push({ text: 'Marcação Fora de Ordem', color: 'bg-orange-600' });
+    }
+    if (day.isVacation) {
+        tags.push({ text: 'Férias', color: 'bg-blue-600' });
+        if (day.workedHours > 0) {
+            tags.push({ text: 'Trabalho em Férias', color: 'bg-purple-600' });
+        }
+    } else if (day.isJustifiedAbsence) {
+        tags.push({ text: 'Falta Justificada', color: 'bg-teal-600' });
+    } else if (day.holidayName) {
+        tags.push({ text: `Feriado: ${day.holidayName}`, color: 'bg-indigo-600' });
+        if (day.workedHours > 0) {
+            tags.push({ text: 'Trabalho em Feriado', color: 'bg-purple-600' });
+        }
+    } else if (day.isDayOff) {
+        tags.push({ text: 'Folga', color: 'bg-gray-600' });
+        if (day.workedHours > 0) {
+            tags.push({ text: 'Trabalho em Folga', color: 'bg-purple-600' });
+        }
+    } else if (day.isAbsent) {
+        tags.push({ text: 'Falta', color: 'bg-red-700' });
+    } else if (day.status === 'Completo') {
+        tags.push({ text: 'Completo', color: 'bg-green-600' });
+        if (day.workedHours > day.expectedHours + OVERTIME_TOLERANCE_HOURS) {
+            tags.push({ text: 'Hora Extra', color: 'bg-blue-600' });
+        }
+        if (day.lateMinutes > 0) {
+            tags.push({ text: 'Atraso', color: 'bg-red-600' });
+        }
+    } else {
+        tags.push({ text: 'Incompleto', color: 'bg-yellow-600' });
+    }
+    if (day.originalEntries.some(e => e.adjustment)) {
+        tags.push({ text: 'Ajustado', color: 'bg-cyan-700' });
+    }
+    if (day.originalEntries.some(e => e.clockSkewFlagged)) {
+        tags.push({ text: 'Relógio Divergente', color: 'bg-orange-700' });
+    }
+    return tags;
+};
+
+export const processDay = (userId: string, dateKey: string, dayEntries: TimeEntry[], context: WorkdayContext): ProcessedDay => {
+    const sortedEntries = [...dayEntries].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    const entrada = sortedEntries.find(e => e.type === TimeEntryType.ENTRADA);
+    const saida = [...sortedEntries].reverse().find(e => e.type === TimeEntryType.SAIDA);
+    const feriasManual = sortedEntries.find(e => e.type === TimeEntryType.FERIAS);
+    const isJustifiedAbsence = sortedEntries.some(e => e.type === TimeEntryType.FALTA_JUSTIFICADA);
+    const hasPunches = sortedEntries.some(e => isPunchType(e.type));
+    const { workPeriods, breaks, isClosed, isConsistent } = pairPunches(sortedEntries);
+
+    const user = context.users.find(u => u.id === userId);
+    const isVacation = !!feriasManual || isOnVacation(user, dateKey);
+    const { scheduleDay, lateToleranceMinutes } = resolveScheduleDay(user, dateKey, context);
+    const isDayOff = !scheduleDay.isWorkday;
+    const holiday = findHoliday(context.holidays, dateKey, user?.siteIds);
+
+    const workedMillis = sumIntervals(workPeriods);
+    const breakMillis = sumIntervals(breaks);
+
+    const workedHours = workedMillis > 0 ? workedMillis / MILLIS_PER_HOUR : 0;
+    const breakHours = breakMillis > 0 ? breakMillis / MILLIS_PER_HOUR : 0;
+    const isComplete = !!entrada && isClosed;
+
+    // On vacation, holidays, days off and justified absences the target is zero,
+    // so any worked time counts entirely as extra.
+    const expectedHours = (isVacation || isDayOff || holiday || isJustifiedAbsence) ? 0 : scheduleDay.expectedHours;
+    // An expected workday without a single punch is an unjustified absence (falta).
+    const isAbsent = !hasPunches && expectedHours > 0;
+    const balance = isComplete ? workedHours - expectedHours : (isAbsent ? -expectedHours : 0);
+    const overtimeHours = Math.max(0, balance);
+    const lateMinutes = entrada && !isVacation ? getLateMinutes(scheduleDay, entrada.timestamp, lateToleranceMinutes) : 0;
+
+    let status = isComplete ? 'Completo' : 'Incompleto';
+    if (isVacation) {
+        status = 'Férias';
+    } else if (!hasPunches && isJustifiedAbsence) {
+        status = 'Falta Justificada';
+    } else if (!hasPunches && holiday) {
+        status = 'Feriado';
+    } else if (!hasPunches && isDayOff) {
+        status = 'Folga';
+    } else if (isAbsent) {
+        status = 'Falta';
+    }
+
+    const day = {
+        id: `${userId}-${dateKey}`,
+        userId,
+        dateKey,
+        date: dateKeyToDisplay(dateKey),
+        entrada: entrada?.timestamp,
+        inicioIntervalo: breaks[0]?.start,
+        fimIntervalo: breaks[0]?.end,
+        saida: saida?.timestamp,
+        workPeriods,
+        breaks,
+        workedHours,
+        breakHours,
+        expectedHours,
+        overtimeHours,
+        lateMinutes,
+        balance,
+        status,
+        isVacation,
+        isDayOff,
+        isAbsent,
+        isJustifiedAbsence,
+        holidayName: holiday?.name,
+        isConsistent,
+        observation: sortedEntries.map(e => e.observation).filter(Boolean).join('; '),
+        originalEntries: sortedEntries,
+    };
+
+    return { ...day, tags: buildTags(day) };
+};
+
+export interface WorkdayGroup {
+    userId: string;
+    dateKey: string;
+    entries: TimeEntry[];
+}
+
+// Groups entries into workdays anchored on the Entrada that opened the shift, so a 22:00–06:00
+// shift belongs to the day it started. Punches with no open shift fall on their own calendar date.
+export const groupByWorkday = (timeEntries: TimeEntry[]): WorkdayGroup[] => {
+    const groups: { [key: string]: WorkdayGroup } = {};
+    const openShifts: { [userId: string]: { dateKey: string; startedAt: number } | undefined } = {};
+    const maxShiftMillis = MAX_SHIFT_HOURS * MILLIS_PER_HOUR;
+
+    [...timeEntries]
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+        .forEach(entry => {
+            const ownDateKey = formatDateKey(entry.timestamp);
+            const openShift = openShifts[entry.userId];
+            let dateKey = ownDateKey;
+
+            if (entry.type === TimeEntryType.ENTRADA) {
+                openShifts[entry.userId] = { dateKey: ownDateKey, startedAt: entry.timestamp.getTime() };
+            } else if (isPunchType(entry.type) && openShift && entry.timestamp.getTime() - openShift.startedAt <= maxShiftMillis) {
+                dateKey = openShift.dateKey;
+                if (entry.type === TimeEntryType.SAIDA) {
+                    openShifts[entry.userId] = undefined;
+                }
+            }
+
+            const groupKey = `${entry.userId}-${dateKey}`;
+            if (!groups[groupKey]) {
+                groups[groupKey] = { userId: entry.userId, dateKey, entries: [] };
+            }
+            groups[groupKey].entries.push(entry);
+        });
+
+    return Object.values(groups);
+};
+
+// Entries of the shift the user is currently in: today's workday, or a still-open shift
+// that started the day before. Used to drive the punch buttons.
+export const getCurrentWorkdayEntries = (timeEntries: TimeEntry[], now: Date = new Date()): TimeEntry[] => {
+    const groups = groupByWorkday(timeEntries).sort((a, b) => a.dateKey.localeCompare(b.dateKey));
+    const latest = groups[groups.length - 1];
+    if (!latest) return [];
+    if (latest.dateKey === formatDateKey(now)) return latest.entries;
+
+    const lastType = getLastPunchType(latest.entries);
+    const shiftStart = latest.entries.find(e => e.type === TimeEntryType.ENTRADA);
+    const isOpen = lastType !== null && lastType !== TimeEntryType.SAIDA;
+    if (isOpen && shiftStart && now.getTime() - shiftStart.timestamp.getTime() <= MAX_SHIFT_HOURS * MILLIS_PER_HOUR) {
+        return latest.entries;
+    }
+    return [];
+};
+
+// Groups entries by user and workday and computes each day. Result is sorted newest first.
+export const processWorkdays = (timeEntries: TimeEntry[], context: WorkdayContext): ProcessedDay[] => {
+    return groupByWorkday(timeEntries)
+        .map(group => processDay(group.userId, group.dateKey, group.entries, context))
+        .sort((a, b) => b.dateKey.localeCompare(a.dateKey));
+};
+
+export interface DateRange {
+    startDate: string; // YYYY-MM-DD, inclusive
+    endDate: string;   // YYYY-MM-DD, inclusive
+}
+
+// Like processWorkdays, but also generates every scheduled workday in the range on which an
+// active user has no entries at all, so absences show up as "Falta" with a negative balance.
+// Days are generated from the user's admission date on, when set, and up to yesterday (today is
+// not over yet). A range without a start relies on the admission date to know where to begin.
+export const processWorkdaysInRange = (timeEntries: TimeEntry[], context: WorkdayContext, range: DateRange): ProcessedDay[] => {
+    const days = processWorkdays(timeEntries, context);
+    const existingIds = new Set(days.map(d => d.id));
+
+    const yesterdayKey = addDays(formatDateKey(new Date()), -1);
+    const lastKey = range.endDate < yesterdayKey ? range.endDate : yesterdayKey;
+
+    context.users
+        .filter(user => user.isActive !== false)
+        .forEach(user => {
+            const admissionKey = user.admissionDate ?? '';
+            const firstKey = range.startDate > admissionKey ? range.startDate : admissionKey;
+            if (!firstKey) return;
+            for (let dateKey = firstKey; dateKey <= lastKey; dateKey = addDays(dateKey, 1)) {
+                if (existingIds.has(`${user.id}-${dateKey}`)) continue;
+                const day = processDay(user.id, dateKey, [], context);
+                if (!day.isDayOff) {
+                    days.push(day);
+                }
+            }
+        });
+
+    return days.sort((a, b) => b.dateKey.localeCompare(a.dateKey));
+};
+
+// Timestamp for an HH:mm punch on the given workday. In an overnight shift, punches earlier
+// than the Entrada belong to the next calendar day.
+export const resolvePunchTimestamp = (dateKey: string, time: string, type: TimeEntryType, entrada?: Date) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    const timestamp = parseDateKey(dateKey);
+    timestamp.setHours(hours, minutes, 0, 0);
+    if (entrada && type !== TimeEntryType.ENTRADA && timestamp < entrada) {
+        timestamp.setDate(timestamp.getDate() + 1);
+    }
+    return timestamp;
+};
+
+export const formatTime = (date?: Date) => date ? date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' }) : '--';
+
+// Renders one side of every break of the day, e.g. "12:00 / 15:30".
+export const formatBreakTimes = (breaks: Interval[], side: 'start' | 'end') => {
+    if (breaks.length === 0) return '--';
+    return breaks.map(b => formatTime(b[side])).join(' / ');
+};
+
+export const sumWorkedHours = (days: ProcessedDay[]) => days.reduce((acc, curr) => acc + curr.workedHours, 0);
+
+export const formatHours = (hours: number) => {
+    const sign = hours < 0 ? "-" : "+";
+    const totalMinutes = Math.round(Math.abs(hours) * 60);
+    const h = Math.floor(totalMinutes / 60);
+    const m = totalMinutes % 60;
+    return `${sign}${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+// Unit tests run in Node against the framework-free modules (utils/, data/memory.ts). The
+// security rules suite needs the Firestore emulator and runs apart, see vitest.rules.config.ts.
+export default defineConfig({
+    test: {
+        environment: 'node',
+        include: ['**/*.test.ts'],
+        exclude: ['node_modules/**', 'dist/**', 'tests/rules/**'],
+    },
+});
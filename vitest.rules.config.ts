@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+// Security rules suite, run against the Firestore emulator by `npm run test:rules`. The files
+// share one emulator and clear it before each test, so they run one at a time.
+export default defineConfig({
+    test: {
+        environment: 'node',
+        include: ['tests/rules/**/*.test.ts'],
+        fileParallelism: false,
+        testTimeout: 15000,
+        hookTimeout: 30000,
+    },
+});